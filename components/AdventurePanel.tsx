@@ -0,0 +1,52 @@
+import React from 'react';
+import { AdventureState } from '../types';
+
+interface AdventurePanelProps {
+  state?: AdventureState; // As of the latest reply on the branch on screen
+}
+
+const AdventurePanel: React.FC<AdventurePanelProps> = ({ state }) => (
+  <aside className="adventure-panel" aria-label="Adventure state">
+    <h2>Adventure</h2>
+    {!state ? (
+      <div className="drawer-hint">Your location, health and inventory appear here once the adventure begins.</div>
+    ) : (
+      <>
+        <section>
+          <h3>Location</h3>
+          <p>{state.location ?? 'Unknown'}</p>
+        </section>
+        {state.health !== undefined && (
+          <section>
+            <h3>Health</h3>
+            <div
+              className={`health-bar${state.health <= 25 ? ' low' : ''}`}
+              role="meter"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={state.health}
+              aria-label="Health"
+            >
+              <span style={{ width: `${state.health}%` }} />
+            </div>
+            <p>{state.health} / 100</p>
+          </section>
+        )}
+        <section>
+          <h3>Inventory</h3>
+          {state.inventory && state.inventory.length > 0 ? (
+            <ul>
+              {state.inventory.map((item, index) => (
+                <li key={index}>{item}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="drawer-hint">Empty-handed.</p>
+          )}
+        </section>
+      </>
+    )}
+  </aside>
+);
+
+export default AdventurePanel;
@@ -0,0 +1,40 @@
+import React, { useRef } from 'react';
+import { ATTACHMENT_ACCEPT } from '../services/attachments';
+
+interface AttachButtonProps {
+  disabled: boolean;
+  className?: string;
+  onFiles: (files: File[]) => void;
+}
+
+// Opens the file picker for images and text files. Dropping or pasting files works too.
+const AttachButton: React.FC<AttachButtonProps> = ({ disabled, className, onFiles }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <button
+        className={className}
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        aria-label="Attach images or text files"
+        title="Attach images or .txt/.md files (or drop or paste them)"
+      >
+        📎
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ATTACHMENT_ACCEPT}
+        multiple
+        onChange={(e) => {
+          onFiles(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+        hidden
+      />
+    </>
+  );
+};
+
+export default AttachButton;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Attachment } from '../types';
+import { attachmentUrl, isImageAttachment } from '../services/attachments';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  onRemove?: (id: string) => void; // Only while the prompt is being written
+}
+
+// Images as thumbnails and text files as chips.
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove }) => (
+  <div className="attachment-list">
+    {attachments.map((attachment) => (
+      <div
+        key={attachment.id}
+        className={`attachment${isImageAttachment(attachment) ? ' image' : ' file'}`}
+        title={attachment.name}
+      >
+        {isImageAttachment(attachment) ? (
+          <img src={attachmentUrl(attachment)} alt={attachment.name} />
+        ) : (
+          <span className="attachment-name">📄 {attachment.name}</span>
+        )}
+        {onRemove && (
+          <button onClick={() => onRemove(attachment.id)} aria-label={`Remove ${attachment.name}`}>
+            ✕
+          </button>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default AttachmentList;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { BibleEntry, BibleEntryKind } from '../types';
+import { BIBLE_KINDS, BibleProposal } from '../services/storyBible';
+
+interface BiblePanelProps {
+  entries: BibleEntry[];
+  proposals: BibleProposal[];
+  onSave: (entry: BibleEntry) => void;
+  onDelete: (id: string) => void;
+  onApprove: (proposal: BibleProposal) => void;
+  onReject: (proposal: BibleProposal) => void;
+  onClose: () => void;
+}
+
+const emptyDraft = { kind: 'character' as BibleEntryKind, name: '', description: '' };
+
+const BiblePanel: React.FC<BiblePanelProps> = ({
+  entries,
+  proposals,
+  onSave,
+  onDelete,
+  onApprove,
+  onReject,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const kindLabel = (kind: BibleEntryKind) => BIBLE_KINDS.find((item) => item.value === kind)?.label ?? kind;
+
+  const submitDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.name.trim() === '' || draft.description.trim() === '') return;
+    const existing = entries.find((entry) => entry.id === editingId);
+    onSave({
+      id: existing?.id ?? crypto.randomUUID(),
+      active: existing?.active ?? true,
+      createdAt: existing?.createdAt ?? Date.now(),
+      kind: draft.kind,
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+    });
+    setDraft(emptyDraft);
+    setEditingId(null);
+  };
+
+  const startEditing = (entry: BibleEntry) => {
+    setEditingId(entry.id);
+    setDraft({ kind: entry.kind, name: entry.name, description: entry.description });
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+  };
+
+  const confirmDelete = (entry: BibleEntry) => {
+    if (window.confirm(`Remove "${entry.name}" from the Story Bible?`)) onDelete(entry.id);
+  };
+
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <div
+        className="drawer bible-panel"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="bible-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="drawer-header">
+          <h2 id="bible-title">Story Bible</h2>
+          <button onClick={onClose} aria-label="Close Story Bible">✕</button>
+        </div>
+        <p className="drawer-hint">
+          Active entries are added to the storyteller and Mood Weaver instructions on every request.
+        </p>
+
+        {proposals.length > 0 && (
+          <section className="drawer-section bible-proposals" aria-label="Proposed entries">
+            <h3>Proposed from the story</h3>
+            {proposals.map((proposal) => (
+              <div key={`${proposal.kind}:${proposal.name}`} className="bible-entry proposal">
+                <div className="bible-entry-heading">
+                  <span className={`bible-kind ${proposal.kind}`}>{kindLabel(proposal.kind)}</span>
+                  <strong>{proposal.name}</strong>
+                </div>
+                <p>{proposal.description}</p>
+                <div className="bible-entry-actions">
+                  <button onClick={() => onApprove(proposal)}>Approve</button>
+                  <button onClick={() => onReject(proposal)}>Reject</button>
+                </div>
+              </div>
+            ))}
+          </section>
+        )}
+
+        <form className="drawer-section bible-form" onSubmit={submitDraft}>
+          <h3>{editingId ? 'Edit entry' : 'New entry'}</h3>
+          <select
+            value={draft.kind}
+            onChange={(e) => setDraft({ ...draft, kind: e.target.value as BibleEntryKind })}
+            aria-label="Entry type"
+          >
+            {BIBLE_KINDS.map((kind) => (
+              <option key={kind.value} value={kind.value}>{kind.label}</option>
+            ))}
+          </select>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder={draft.kind === 'rule' ? 'Magic costs memories' : 'Name'}
+            aria-label="Entry name"
+          />
+          <textarea
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Appearance, personality, history, or the exact rule..."
+            rows={3}
+            aria-label="Entry description"
+          />
+          <div className="bible-entry-actions">
+            {editingId && <button type="button" onClick={cancelEditing}>Cancel</button>}
+            <button type="submit" disabled={draft.name.trim() === '' || draft.description.trim() === ''}>
+              {editingId ? 'Save' : 'Add'}
+            </button>
+          </div>
+        </form>
+
+        {BIBLE_KINDS.map(({ value, heading }) => {
+          const items = entries.filter((entry) => entry.kind === value);
+          if (items.length === 0) return null;
+          return (
+            <section key={value} className="drawer-section" aria-label={heading}>
+              <h3>{heading}</h3>
+              {items.map((entry) => (
+                <div key={entry.id} className={`bible-entry${entry.active ? '' : ' inactive'}`}>
+                  <div className="bible-entry-heading">
+                    <label className="bible-active">
+                      <input
+                        type="checkbox"
+                        checked={entry.active}
+                        onChange={() => onSave({ ...entry, active: !entry.active })}
+                        aria-label={`Include ${entry.name}`}
+                      />
+                      <strong>{entry.name}</strong>
+                    </label>
+                  </div>
+                  <p>{entry.description}</p>
+                  <div className="bible-entry-actions">
+                    <button onClick={() => startEditing(entry)}>Edit</button>
+                    <button onClick={() => confirmDelete(entry)}>Delete</button>
+                  </div>
+                </div>
+              ))}
+            </section>
+          );
+        })}
+        {entries.length === 0 && (
+          <div className="library-empty">No entries yet. Add one above, or extract them from a chat story.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BiblePanel;
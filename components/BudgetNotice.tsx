@@ -0,0 +1,19 @@
+import React from 'react';
+import { BudgetStatus } from '../services/usage';
+
+interface BudgetNoticeProps {
+  status: BudgetStatus;
+}
+
+const BudgetNotice: React.FC<BudgetNoticeProps> = ({ status }) => {
+  if (status === 'ok') return null;
+  return (
+    <div className={`budget-notice budget-${status}`} role="status">
+      {status === 'blocked'
+        ? 'Budget reached. Raise it from the usage panel (💰) to keep generating.'
+        : 'You have used over 80% of your budget.'}
+    </div>
+  );
+};
+
+export default BudgetNotice;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { TaleCandidate } from '../types';
+import Markdown from './Markdown';
+import { describeCandidate, wordCount } from '../services/moodRuns';
+import { illustrationUrl } from '../services/illustrations';
+import { splitParagraphs } from '../services/narration';
+
+interface CandidateCardProps {
+  candidate: TaleCandidate;
+  index: number;
+  isSelected: boolean; // The tale the actions above the grid work on
+  isStreaming: boolean;
+  narratingPart?: number | null; // Paragraph being read aloud, when this tale is narrated
+  usageLabel?: string;
+  onSelect: () => void;
+  onToggleFavourite: () => void;
+}
+
+const CandidateCard: React.FC<CandidateCardProps> = ({
+  candidate,
+  index,
+  isSelected,
+  isStreaming,
+  narratingPart,
+  usageLabel,
+  onSelect,
+  onToggleFavourite,
+}) => (
+  <article className={`candidate-card${isSelected ? ' selected' : ''}`} aria-busy={isStreaming}>
+    <header className="candidate-header">
+      <button
+        className="candidate-pick"
+        onClick={onSelect}
+        aria-pressed={isSelected}
+        title="Illustrate, read, pin or export this tale"
+      >
+        #{index + 1} {describeCandidate(candidate)}
+      </button>
+      <span className="candidate-words">{wordCount(candidate.text)} words</span>
+      <button
+        className={`candidate-favourite${candidate.favourite ? ' active' : ''}`}
+        onClick={onToggleFavourite}
+        disabled={isStreaming}
+        aria-pressed={Boolean(candidate.favourite)}
+        aria-label={candidate.favourite ? 'Remove from favourites' : 'Mark as favourite'}
+      >
+        {candidate.favourite ? '★' : '☆'}
+      </button>
+    </header>
+    {candidate.error ? (
+      <div className="error-message" role="alert">{candidate.error}</div>
+    ) : isStreaming && candidate.text === '' ? (
+      <div className="loading-indicator">
+        <span className="dot">.</span><span className="dot">.</span><span className="dot">.</span> Generating...
+      </div>
+    ) : narratingPart !== undefined ? (
+      splitParagraphs(candidate.text).map((paragraph, partIndex) => (
+        <div key={partIndex} className={`narration-passage${narratingPart === partIndex ? ' narrating' : ''}`}>
+          <Markdown text={paragraph} />
+        </div>
+      ))
+    ) : (
+      <Markdown text={candidate.text} />
+    )}
+    {candidate.illustrations?.map((illustration) => (
+      <figure key={illustration.id} className="illustration">
+        <img src={illustrationUrl(illustration)} alt={illustration.prompt} />
+      </figure>
+    ))}
+    {candidate.truncated && <div className="truncated-note">Stopped early — this tale is unfinished.</div>}
+    {usageLabel && <div className="usage-note">{usageLabel}</div>}
+  </article>
+);
+
+export default CandidateCard;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { CandidatePlan, Mood } from '../types';
+import { MAX_CANDIDATES } from '../services/moodRuns';
+
+interface CandidatePlannerProps {
+  moods: Mood[];
+  plans: CandidatePlan[]; // One per candidate
+  disabled: boolean;
+  onChange: (plans: CandidatePlan[]) => void;
+}
+
+// How many candidates a run writes, and what sets each one apart.
+const CandidatePlanner: React.FC<CandidatePlannerProps> = ({ moods, plans, disabled, onChange }) => {
+  const setCount = (count: number) =>
+    onChange(Array.from({ length: count }, (_, index) => plans[index] ?? {}));
+
+  const update = (index: number, patch: CandidatePlan) =>
+    onChange(plans.map((plan, planIndex) => (planIndex === index ? { ...plan, ...patch } : plan)));
+
+  return (
+    <div className="candidate-planner">
+      <label>
+        Candidates
+        <select value={plans.length} onChange={(e) => setCount(Number(e.target.value))} disabled={disabled}>
+          {Array.from({ length: MAX_CANDIDATES }, (_, index) => (
+            <option key={index} value={index + 1}>{index + 1}</option>
+          ))}
+        </select>
+      </label>
+      {plans.length > 1 &&
+        plans.map((plan, index) => (
+          <div key={index} className="candidate-plan">
+            <span className="candidate-number">#{index + 1}</span>
+            <select
+              value={plan.moodId ?? ''}
+              onChange={(e) => update(index, { moodId: e.target.value || undefined })}
+              disabled={disabled}
+              aria-label={`Mood of candidate ${index + 1}`}
+            >
+              <option value="">Blend above</option>
+              {moods.map((mood) => (
+                <option key={mood.id} value={mood.id}>{mood.label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={plan.temperature ?? ''}
+              placeholder="Temp."
+              onChange={(e) => update(index, { temperature: e.target.value === '' ? undefined : Number(e.target.value) })}
+              disabled={disabled}
+              aria-label={`Temperature of candidate ${index + 1}`}
+              title="Leave blank for the mood's own temperature"
+            />
+          </div>
+        ))}
+    </div>
+  );
+};
+
+export default CandidatePlanner;
@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SlashSuggestion } from '../services/slashCommands';
+
+interface ChatComposerProps {
+  value: string;
+  placeholder: string;
+  disabled: boolean;
+  history: string[]; // Earlier entries, oldest first, recalled with the up arrow
+  suggestions: SlashSuggestion[]; // Slash-command completions for the current text
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+}
+
+const MAX_ROWS = 8;
+
+// A multi-line chat input. Enter sends and Shift+Enter starts a new line; the up
+// and down arrows walk through earlier entries, and typing "/" offers commands.
+const ChatComposer: React.FC<ChatComposerProps> = ({
+  value,
+  placeholder,
+  disabled,
+  history,
+  suggestions,
+  onChange,
+  onSubmit,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false); // Escape hides the list until the text changes
+  // Position in `history` while browsing it, and the draft it replaced.
+  const [browsing, setBrowsing] = useState<{ index: number; draft: string } | null>(null);
+  const isOpen = suggestions.length > 0 && !dismissed && !disabled;
+
+  const suggestionKey = suggestions.map((suggestion) => suggestion.completion).join('\n');
+  useEffect(() => {
+    setHighlighted(0);
+    setDismissed(false);
+  }, [suggestionKey]);
+
+  const change = (next: string) => {
+    setBrowsing(null);
+    onChange(next);
+  };
+
+  const pick = (suggestion: SlashSuggestion) => {
+    change(suggestion.completion);
+    textareaRef.current?.focus();
+  };
+
+  const recall = (index: number | null, draft: string) => {
+    setBrowsing(index === null ? null : { index, draft });
+    onChange(index === null ? draft : history[index]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.nativeEvent.isComposing) return;
+    if (isOpen) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted((index) => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && suggestions[highlighted].completion !== value)) {
+        e.preventDefault();
+        pick(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setDismissed(true);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      onSubmit();
+      return;
+    }
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    // The arrows only leave the text when the cursor is already on its first or last line.
+    if (e.key === 'ArrowUp' && history.length > 0 && !value.slice(0, selectionStart).includes('\n')) {
+      const index = browsing ? browsing.index - 1 : history.length - 1;
+      if (index < 0) return;
+      e.preventDefault();
+      recall(index, browsing?.draft ?? value);
+      return;
+    }
+    if (e.key === 'ArrowDown' && browsing && !value.slice(selectionEnd).includes('\n')) {
+      e.preventDefault();
+      const index = browsing.index + 1;
+      recall(index < history.length ? index : null, browsing.draft);
+    }
+  };
+
+  return (
+    <div className="composer">
+      {isOpen && (
+        <ul className="slash-suggestions" role="listbox" id="slash-suggestions" aria-label="Commands">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.completion}
+              role="option"
+              aria-selected={index === highlighted}
+              className={index === highlighted ? 'highlighted' : ''}
+              onMouseDown={(e) => {
+                e.preventDefault(); // Keep focus in the composer
+                pick(suggestion);
+              }}
+            >
+              <span className="slash-label">{suggestion.label}</span>
+              {suggestion.description && <span className="slash-description">{suggestion.description}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      <textarea
+        ref={textareaRef}
+        value={value}
+        rows={Math.min(MAX_ROWS, value.split('\n').length)}
+        onChange={(e) => change(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        disabled={disabled}
+        aria-label="Chat input"
+        aria-autocomplete="list"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? 'slash-suggestions' : undefined}
+      />
+    </div>
+  );
+};
+
+export default ChatComposer;
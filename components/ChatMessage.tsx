@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Message } from '../types';
+import Markdown from './Markdown';
+import AttachmentList from './AttachmentList';
+import ToolCallCards from './ToolCallCards';
+import { illustrationUrl } from '../services/illustrations';
+import { isFailed } from '../services/storyTree';
+
+interface ChatMessageProps {
+  message: Message;
+  siblingIndex: number;
+  siblingCount: number;
+  isIllustrating: boolean;
+  isNarrating: boolean; // Being read aloud right now
+  usageLabel?: string; // Token counts and cost for a model reply
+  disabled: boolean;
+  onSelectSibling: (offset: number) => void;
+  onRegenerate: () => void;
+  onRetry: () => void; // Replaces an error bubble with a fresh attempt at the same turn
+  onEdit: (text: string) => void;
+  onIllustrate: () => void;
+  onReadAloud: () => void;
+  onPin: () => void; // Keeps the reply on the shared scratchpad
+  onRewriteInMood: () => void; // Hands the reply to Mood Weaver
+  onChoose?: (choice: string) => void; // Only set on the latest adventure reply
+}
+
+const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  siblingIndex,
+  siblingCount,
+  isIllustrating,
+  isNarrating,
+  usageLabel,
+  disabled,
+  onSelectSibling,
+  onRegenerate,
+  onRetry,
+  onEdit,
+  onIllustrate,
+  onReadAloud,
+  onPin,
+  onRewriteInMood,
+  onChoose,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.text);
+  const isStreaming = message.status === 'streaming';
+  const failed = isFailed(message);
+
+  const startEditing = () => {
+    setDraft(message.text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (draft.trim() === '') return;
+    setIsEditing(false);
+    onEdit(draft);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      submitEdit();
+    }
+    if (e.key === 'Escape') setIsEditing(false);
+  };
+
+  const dots = (
+    <div className="message model loading">
+      <span className="dot">.</span><span className="dot">.</span><span className="dot">.</span>
+    </div>
+  );
+
+  if (isStreaming && message.text === '' && !message.toolCalls?.length) return dots;
+
+  // Tools have run but the reply has not started yet.
+  if (isStreaming && message.text === '') {
+    return (
+      <div className="message-row model">
+        <ToolCallCards calls={message.toolCalls!} />
+        {dots}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`message-row ${message.sender}`}>
+      {message.toolCalls && message.toolCalls.length > 0 && <ToolCallCards calls={message.toolCalls} />}
+      <div className={`message ${message.sender}${failed ? ' error' : ''}${isNarrating ? ' narrating' : ''}`}>
+        {message.persona && (
+          <div className="message-persona">
+            <span className="persona-avatar" aria-hidden="true">{message.persona.avatar}</span> {message.persona.name}
+          </div>
+        )}
+        {isEditing ? (
+          <div className="message-edit">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              rows={3}
+              aria-label="Edit message"
+              autoFocus
+            />
+            <div className="message-edit-actions">
+              <button onClick={() => setIsEditing(false)}>Cancel</button>
+              <button onClick={submitEdit} disabled={disabled || draft.trim() === ''}>
+                Save &amp; resend
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {message.text && <Markdown text={message.text} />}
+            {message.attachments && message.attachments.length > 0 && <AttachmentList attachments={message.attachments} />}
+            {message.illustrations?.map((illustration) => (
+              <figure key={illustration.id} className="illustration">
+                <img src={illustrationUrl(illustration)} alt={illustration.prompt} />
+              </figure>
+            ))}
+            {message.truncated && <div className="truncated-note">Stopped early</div>}
+            {usageLabel && !isStreaming && <div className="usage-note">{usageLabel}</div>}
+            {failed && (
+              <button className="retry-button" onClick={onRetry} disabled={disabled}>
+                ↻ Retry this turn
+              </button>
+            )}
+          </>
+        )}
+      </div>
+      {message.adventure && message.adventure.choices.length > 0 && !isStreaming && (
+        <div className="adventure-choices" role="group" aria-label="Choices">
+          {message.adventure.choices.map((choice, index) => (
+            <button key={index} onClick={() => onChoose?.(choice)} disabled={disabled || !onChoose}>
+              <span className="choice-key">{String.fromCharCode(65 + index)}</span> {choice}
+            </button>
+          ))}
+        </div>
+      )}
+      {!isEditing && !isStreaming && (
+        <div className="message-toolbar">
+          {siblingCount > 1 && (
+            <span className="branch-switcher">
+              <button
+                onClick={() => onSelectSibling(-1)}
+                disabled={disabled || siblingIndex === 0}
+                aria-label="Previous branch"
+              >
+                ‹
+              </button>
+              <span>{siblingIndex + 1}/{siblingCount}</span>
+              <button
+                onClick={() => onSelectSibling(1)}
+                disabled={disabled || siblingIndex === siblingCount - 1}
+                aria-label="Next branch"
+              >
+                ›
+              </button>
+            </span>
+          )}
+          {failed ? null : message.sender === 'model' ? (
+            <>
+              <button onClick={onRegenerate} disabled={disabled} aria-label="Regenerate reply">
+                ↻ Regenerate
+              </button>
+              <button onClick={onIllustrate} disabled={disabled || isIllustrating} aria-label="Illustrate this passage">
+                {isIllustrating ? 'Drawing...' : '🖼 Illustrate'}
+              </button>
+              <button onClick={onReadAloud} aria-label="Read aloud from here">
+                🔊 Read
+              </button>
+              <button onClick={onPin} aria-label="Pin to scratchpad">
+                📌 Pin
+              </button>
+              <button onClick={onRewriteInMood} aria-label="Rewrite in Mood Weaver">
+                🎭 Rewrite
+              </button>
+            </>
+          ) : (
+            <button onClick={startEditing} disabled={disabled} aria-label="Edit and resend message">
+              ✎ Edit
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatMessage;
@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatExportScope, ExportFormat } from '../services/storyExport';
+
+interface ExportMenuProps {
+  disabled?: boolean;
+  showScope?: boolean; // Chats can be exported as a full transcript or the story alone
+  onExport: (format: ExportFormat, scope: ChatExportScope) => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'markdown', label: 'Markdown (.md)' },
+  { value: 'html', label: 'Web page (.html)' },
+  { value: 'epub', label: 'E-book (.epub)' },
+  { value: 'json', label: 'Story file (.json)' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, showScope, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<ChatExportScope>('story');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const closeOnOutsideClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', closeOnOutsideClick);
+    return () => document.removeEventListener('mousedown', closeOnOutsideClick);
+  }, [isOpen]);
+
+  const choose = (format: ExportFormat) => {
+    setIsOpen(false);
+    onExport(format, scope);
+  };
+
+  return (
+    <div className="export-menu" ref={menuRef}>
+      <button
+        className="export-toggle"
+        onClick={() => setIsOpen((prev) => !prev)}
+        disabled={disabled}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        Export ▾
+      </button>
+      {isOpen && (
+        <div className="export-dropdown" role="menu">
+          {showScope && (
+            <div className="export-scope" role="radiogroup" aria-label="What to export">
+              <label>
+                <input type="radio" checked={scope === 'story'} onChange={() => setScope('story')} />
+                Story only
+              </label>
+              <label>
+                <input type="radio" checked={scope === 'transcript'} onChange={() => setScope('transcript')} />
+                Full transcript
+              </label>
+            </div>
+          )}
+          {FORMATS.map((format) => (
+            <button key={format.value} role="menuitem" onClick={() => choose(format.value)}>
+              {format.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
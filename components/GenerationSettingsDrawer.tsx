@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { GenerationPreset, GenerationSettings, GenerationTab } from '../types';
+import { ModelInfo, StoryProvider } from '../services/providers';
+import { BUILT_IN_PRESETS, DEFAULT_SETTINGS } from '../services/generationSettings';
+import { deletePreset, listPresets, savePreset } from '../services/storyDb';
+
+interface GenerationSettingsDrawerProps {
+  tab: GenerationTab;
+  provider: StoryProvider;
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  onClose: () => void;
+}
+
+interface SettingsDraft {
+  temperature: string;
+  topP: string;
+  topK: string;
+  maxOutputTokens: string;
+  stopSequences: string;
+  seed: string;
+}
+
+const TAB_LABELS: Record<GenerationTab, string> = {
+  chat: 'Chat',
+  'mood-weaver': 'Mood Weaver',
+  'book-builder': 'Book Builder',
+};
+
+const toDraft = ({ sampling }: GenerationSettings): SettingsDraft => ({
+  temperature: String(sampling.temperature ?? ''),
+  topP: String(sampling.topP ?? ''),
+  topK: String(sampling.topK ?? ''),
+  maxOutputTokens: String(sampling.maxOutputTokens ?? ''),
+  stopSequences: (sampling.stopSequences ?? []).join('\n'),
+  seed: String(sampling.seed ?? ''),
+});
+
+const parseOptional = (value: string) => {
+  const number = Number(value);
+  return value.trim() === '' || Number.isNaN(number) ? undefined : number;
+};
+
+const fromDraft = (draft: SettingsDraft) => ({
+  temperature: parseOptional(draft.temperature),
+  topP: parseOptional(draft.topP),
+  topK: parseOptional(draft.topK),
+  maxOutputTokens: parseOptional(draft.maxOutputTokens),
+  stopSequences: draft.stopSequences.split('\n').filter((stop) => stop !== ''),
+  seed: parseOptional(draft.seed),
+});
+
+const describeSampling = ({ sampling }: GenerationSettings) =>
+  [
+    sampling.temperature !== undefined && `temp ${sampling.temperature}`,
+    sampling.topP !== undefined && `topP ${sampling.topP}`,
+    sampling.topK !== undefined && `topK ${sampling.topK}`,
+    sampling.maxOutputTokens !== undefined && `max ${sampling.maxOutputTokens} tokens`,
+    sampling.seed !== undefined && `seed ${sampling.seed}`,
+  ]
+    .filter(Boolean)
+    .join(' · ') || 'Model defaults';
+
+// Edits take effect from the next request, so changing them mid-story keeps the history.
+const GenerationSettingsDrawer: React.FC<GenerationSettingsDrawerProps> = ({ tab, provider, settings, onChange, onClose }) => {
+  const [draft, setDraft] = useState<SettingsDraft>(() => toDraft(settings));
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [customPresets, setCustomPresets] = useState<GenerationPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+
+  const presets = [...BUILT_IN_PRESETS, ...customPresets].filter((preset) => preset.tab === tab);
+  const selectedModel = settings.providerId === provider.id ? settings.model : '';
+
+  useEffect(() => {
+    let cancelled = false;
+    provider.listModels().then((list) => !cancelled && setModels(list));
+    return () => {
+      cancelled = true;
+    };
+  }, [provider]);
+
+  useEffect(() => {
+    listPresets()
+      .then(setCustomPresets)
+      .catch((err) => console.error('Failed to load presets:', err));
+  }, []);
+
+  const setField = (field: keyof SettingsDraft) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const next = { ...draft, [field]: e.target.value };
+    setDraft(next);
+    onChange({ ...settings, sampling: fromDraft(next), preset: undefined });
+  };
+
+  const selectModel = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onChange({ ...settings, model: e.target.value, providerId: provider.id, preset: undefined });
+  };
+
+  const applyPreset = (preset: GenerationPreset) => {
+    const next = { ...preset.settings, preset: { id: preset.id, name: preset.name } };
+    setDraft(toDraft(next));
+    onChange(next);
+  };
+
+  const resetToDefaults = () => {
+    setDraft(toDraft(DEFAULT_SETTINGS[tab]));
+    onChange(DEFAULT_SETTINGS[tab]);
+  };
+
+  const saveAsPreset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = presetName.trim();
+    if (name === '') return;
+    const preset: GenerationPreset = {
+      id: crypto.randomUUID(),
+      name,
+      tab,
+      settings: { model: settings.model, providerId: settings.providerId, sampling: settings.sampling },
+      createdAt: Date.now(),
+    };
+    setCustomPresets((prev) => [...prev, preset]);
+    setPresetName('');
+    onChange({ ...settings, preset: { id: preset.id, name } });
+    try {
+      await savePreset(preset);
+    } catch (err) {
+      console.error('Failed to save preset:', err);
+    }
+  };
+
+  const removePreset = async (preset: GenerationPreset) => {
+    if (!window.confirm(`Delete the "${preset.name}" preset?`)) return;
+    setCustomPresets((prev) => prev.filter((item) => item.id !== preset.id));
+    try {
+      await deletePreset(preset.id);
+    } catch (err) {
+      console.error('Failed to delete preset:', err);
+    }
+  };
+
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <div
+        className="drawer"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="generation-settings-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="drawer-header">
+          <h2 id="generation-settings-title">{TAB_LABELS[tab]} generation</h2>
+          <button onClick={onClose} aria-label="Close generation settings">✕</button>
+        </div>
+
+        <section className="drawer-section" aria-label="Presets">
+          <h3>Presets</h3>
+          {presets.map((preset) => (
+            <div key={preset.id} className={`bible-entry${settings.preset?.id === preset.id ? ' active-preset' : ''}`}>
+              <div className="bible-entry-heading">
+                <strong>{preset.name}</strong>
+                <span className="drawer-hint">{describeSampling(preset.settings)}</span>
+              </div>
+              <div className="bible-entry-actions">
+                <button onClick={() => applyPreset(preset)} disabled={settings.preset?.id === preset.id}>
+                  {settings.preset?.id === preset.id ? 'Applied' : 'Apply'}
+                </button>
+                {!preset.builtIn && <button onClick={() => removePreset(preset)}>Delete</button>}
+              </div>
+            </div>
+          ))}
+          <form className="bible-form preset-form" onSubmit={saveAsPreset}>
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Save current settings as..."
+              aria-label="Preset name"
+            />
+            <div className="bible-entry-actions">
+              <button type="submit" disabled={presetName.trim() === ''}>Save preset</button>
+            </div>
+          </form>
+        </section>
+
+        <section className="drawer-section bible-form generation-settings" aria-label="Settings">
+          <h3>Settings</h3>
+          <label className="generation-field">
+            Model
+            <select value={selectedModel} onChange={selectModel}>
+              <option value="">{provider.label} default</option>
+              {models.map((model) => (
+                <option key={model.id} value={model.id}>{model.label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="mood-sampling">
+            <label>
+              Temperature
+              <input type="number" min={0} max={2} step={0.05} value={draft.temperature} onChange={setField('temperature')} />
+            </label>
+            <label>
+              Top P
+              <input type="number" min={0} max={1} step={0.01} value={draft.topP} onChange={setField('topP')} />
+            </label>
+            <label>
+              Top K
+              <input type="number" min={1} max={500} step={1} value={draft.topK} onChange={setField('topK')} />
+            </label>
+            <label>
+              Max tokens
+              <input type="number" min={1} step={50} value={draft.maxOutputTokens} onChange={setField('maxOutputTokens')} />
+            </label>
+            <label>
+              Seed
+              <input type="number" step={1} value={draft.seed} onChange={setField('seed')} />
+            </label>
+          </div>
+          <label className="generation-field">
+            Stop sequences
+            <textarea
+              value={draft.stopSequences}
+              onChange={setField('stopSequences')}
+              placeholder="One per line"
+              rows={2}
+            />
+          </label>
+          <div className="drawer-hint">Leave a field blank to use the default. Changes apply from the next request.</div>
+          <div className="bible-entry-actions">
+            <button type="button" onClick={resetToDefaults}>Reset to defaults</button>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationSettingsDrawer;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { CharacterAppearance, Illustration } from '../types';
+import { illustrationUrl } from '../services/illustrations';
+
+export interface GalleryItem {
+  illustration: Illustration;
+  messageId: string;
+}
+
+interface IllustrationGalleryProps {
+  items: GalleryItem[];
+  characters: CharacterAppearance[];
+  onShow: (messageId: string) => void;
+  onClose: () => void;
+}
+
+const IllustrationGallery: React.FC<IllustrationGalleryProps> = ({ items, characters, onShow, onClose }) => (
+  <div className="drawer-overlay" onClick={onClose}>
+    <div
+      className="drawer"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="gallery-title"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="drawer-header">
+        <h2 id="gallery-title">Illustrations</h2>
+        <button onClick={onClose} aria-label="Close gallery">✕</button>
+      </div>
+
+      <section className="drawer-section" aria-label="Pictures">
+        {items.length === 0 ? (
+          <div className="drawer-hint">No pictures yet. Use “Illustrate” on a reply to draw one.</div>
+        ) : (
+          <div className="gallery-grid">
+            {items.map(({ illustration, messageId }) => (
+              <figure key={illustration.id} className="gallery-item">
+                <button onClick={() => onShow(messageId)} title="Show in story">
+                  <img src={illustrationUrl(illustration)} alt={illustration.prompt} />
+                </button>
+                <figcaption>
+                  {new Date(illustration.createdAt).toLocaleString()}
+                  {' · '}
+                  <a href={illustrationUrl(illustration)} download={`illustration-${illustration.id.slice(0, 8)}`}>
+                    Download
+                  </a>
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {characters.length > 0 && (
+        <section className="drawer-section" aria-label="Characters as drawn">
+          <h3>Characters as drawn</h3>
+          <div className="drawer-hint">Every new picture reuses these descriptions so characters keep their look.</div>
+          {characters.map((character) => (
+            <div key={character.name} className="bible-entry">
+              <strong>{character.name}</strong>
+              <p>{character.appearance}</p>
+            </div>
+          ))}
+        </section>
+      )}
+    </div>
+  </div>
+);
+
+export default IllustrationGallery;
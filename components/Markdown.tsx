@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { BlockNode, InlineNode, parseMarkdown } from '../services/markdown';
+
+interface MarkdownProps {
+  text: string;
+}
+
+const renderInline = (nodes: InlineNode[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return <code key={index}>{node.value}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const renderBlocks = (blocks: BlockNode[], tight = false): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1';
+        return <Tag key={index}>{renderInline(block.children)}</Tag>;
+      }
+      case 'paragraph':
+        // Tight list items render their text without a wrapping paragraph.
+        return tight
+          ? <React.Fragment key={index}>{renderInline(block.children)}</React.Fragment>
+          : <p key={index}>{renderInline(block.children)}</p>;
+      case 'blockquote':
+        return <blockquote key={index}>{renderBlocks(block.children)}</blockquote>;
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex}>{renderBlocks(item, block.tight)}</li>
+        ));
+        return block.ordered
+          ? <ol key={index} start={block.start}>{items}</ol>
+          : <ul key={index}>{items}</ul>;
+      }
+      case 'code':
+        return (
+          <pre key={index}>
+            <code className={block.lang ? `language-${block.lang}` : undefined}>{block.value}</code>
+          </pre>
+        );
+      case 'hr':
+        return <hr key={index} />;
+    }
+  });
+
+// Renders model output as React elements. There is no raw HTML path, so tags in
+// the text show up literally and link targets go through sanitizeUrl.
+const Markdown: React.FC<MarkdownProps> = ({ text }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  if (!text) return null;
+  return <div className="markdown">{renderBlocks(blocks)}</div>;
+};
+
+export default Markdown;
@@ -0,0 +1,149 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Message } from '../types';
+import { frameBatch } from '../services/frameBatch';
+
+interface MessageListProps {
+  messages: Message[]; // The branch on screen, oldest first
+  empty: React.ReactNode; // Shown while there are no messages
+  renderMessage: (message: Message) => React.ReactNode;
+}
+
+const ESTIMATED_HEIGHT = 140; // Stands in for a message until it has been measured
+const GAP = 10; // Between messages; matches the .messages gap
+const OVERSCAN = 800; // Pixels rendered above and below the viewport, so fast scrolling stays filled
+const FOLLOW_SLACK = 48; // How close to the bottom still counts as reading the latest turn
+
+// Index of the first offset at or past `y`.
+const firstAtOrAfter = (offsets: number[], y: number) => {
+  let low = 0;
+  let high = offsets.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid] < y) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+const isAtBottom = (el: HTMLElement) => el.scrollHeight - el.scrollTop - el.clientHeight <= FOLLOW_SLACK;
+
+// Only the messages near the viewport are mounted; the rest are stood in for by
+// their measured heights, so stories with hundreds of turns scroll and stream
+// smoothly. The list follows a streaming reply while the reader is at the bottom.
+const MessageList: React.FC<MessageListProps> = ({ messages, empty, renderMessage }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const followRef = useRef(true);
+  const countRef = useRef(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [measured, setMeasured] = useState(0); // Bumped whenever a height changes
+
+  const layout = useMemo(() => {
+    const offsets: number[] = [];
+    const indexById = new Map<string, number>();
+    let total = 0;
+    messages.forEach((msg, index) => {
+      offsets.push(total);
+      indexById.set(msg.id, index);
+      total += (heightsRef.current.get(msg.id) ?? ESTIMATED_HEIGHT) + GAP;
+    });
+    return { offsets, indexById, total: Math.max(0, total - GAP) };
+  }, [messages, measured]);
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+
+  // Measures each mounted message. When one above the viewport changes size the
+  // scroll position moves with it, so the text being read stays put.
+  const observer = () => {
+    observerRef.current ??= new ResizeObserver((entries) => {
+      const el = scrollRef.current;
+      let shift = 0;
+      let changed = false;
+      for (const entry of entries) {
+        const id = (entry.target as HTMLElement).dataset.messageId!;
+        const height = entry.borderBoxSize?.[0]?.blockSize ?? (entry.target as HTMLElement).offsetHeight;
+        const previous = heightsRef.current.get(id) ?? ESTIMATED_HEIGHT;
+        if (height === heightsRef.current.get(id)) continue;
+        heightsRef.current.set(id, height);
+        changed = true;
+        const index = layoutRef.current.indexById.get(id);
+        if (el && !followRef.current && index !== undefined && layoutRef.current.offsets[index] < el.scrollTop) {
+          shift += height - previous;
+        }
+      }
+      if (!changed) return;
+      if (el && shift !== 0) el.scrollTop += shift;
+      setMeasured((count) => count + 1);
+    });
+    return observerRef.current;
+  };
+
+  const measure = useCallback((el: HTMLDivElement | null) => {
+    if (!el) return;
+    observer().observe(el);
+    return () => observer().unobserve(el);
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  useEffect(() => {
+    const el = scrollRef.current!;
+    const read = () => setViewport({ top: el.scrollTop, height: el.clientHeight });
+    const scrolls = frameBatch<void>(read);
+    const onScroll = () => {
+      followRef.current = isAtBottom(el);
+      scrolls.push();
+    };
+    const resizes = new ResizeObserver(read);
+    el.addEventListener('scroll', onScroll);
+    resizes.observe(el);
+    read();
+    return () => {
+      el.removeEventListener('scroll', onScroll);
+      resizes.disconnect();
+      scrolls.cancel();
+    };
+  }, []);
+
+  // A new turn or another branch always scrolls to the end, as does streaming
+  // while the reader is following along.
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const turnsChanged = messages.length !== countRef.current;
+    countRef.current = messages.length;
+    if (turnsChanged || followRef.current) {
+      el.scrollTop = el.scrollHeight;
+      followRef.current = true;
+      setViewport({ top: el.scrollTop, height: el.clientHeight });
+    }
+  }, [messages, layout.total]);
+
+  const start = Math.max(0, firstAtOrAfter(layout.offsets, viewport.top - OVERSCAN) - 1);
+  const end = firstAtOrAfter(layout.offsets, viewport.top + viewport.height + OVERSCAN);
+
+  return (
+    <div className="messages" ref={scrollRef}>
+      {messages.length === 0 ? (
+        empty
+      ) : (
+        <div className="message-list" style={{ height: layout.total }}>
+          {messages.slice(start, end).map((msg, index) => (
+            <div
+              key={msg.id}
+              ref={measure}
+              className="message-slot"
+              data-message-id={msg.id}
+              style={{ top: layout.offsets[start + index] }}
+            >
+              {renderMessage(msg)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MessageList;
@@ -0,0 +1,190 @@
+import React, { useRef, useState } from 'react';
+import { Mood } from '../types';
+
+interface MoodEditorProps {
+  moods: Mood[];
+  onSave: (mood: Mood) => void;
+  onDelete: (id: string) => void;
+  onExportPack: () => void;
+  onImportPack: (file: File) => void;
+  onClose: () => void;
+}
+
+interface MoodDraft {
+  label: string;
+  description: string;
+  examplePhrasing: string;
+  temperature: string;
+  topP: string;
+  topK: string;
+}
+
+const emptyDraft: MoodDraft = { label: '', description: '', examplePhrasing: '', temperature: '0.9', topP: '0.95', topK: '64' };
+
+const toDraft = (mood: Mood): MoodDraft => ({
+  label: mood.label,
+  description: mood.description,
+  examplePhrasing: mood.examplePhrasing,
+  temperature: String(mood.sampling.temperature ?? ''),
+  topP: String(mood.sampling.topP ?? ''),
+  topK: String(mood.sampling.topK ?? ''),
+});
+
+const parseOptional = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const MoodEditor: React.FC<MoodEditorProps> = ({ moods, onSave, onDelete, onExportPack, onImportPack, onClose }) => {
+  const [draft, setDraft] = useState<MoodDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const customMoods = moods.filter((mood) => !mood.builtIn);
+  const builtInMoods = moods.filter((mood) => mood.builtIn);
+
+  const setField = (field: keyof MoodDraft) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setDraft({ ...draft, [field]: e.target.value });
+
+  const submitDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.label.trim() === '') return;
+    const existing = moods.find((mood) => mood.id === editingId);
+    onSave({
+      id: existing?.id ?? crypto.randomUUID(),
+      createdAt: existing?.createdAt ?? Date.now(),
+      label: draft.label.trim(),
+      description: draft.description.trim(),
+      examplePhrasing: draft.examplePhrasing.trim(),
+      sampling: {
+        temperature: parseOptional(draft.temperature),
+        topP: parseOptional(draft.topP),
+        topK: parseOptional(draft.topK),
+      },
+    });
+    setDraft(emptyDraft);
+    setEditingId(null);
+  };
+
+  const startEditing = (mood: Mood) => {
+    setEditingId(mood.id);
+    setDraft(toDraft(mood));
+  };
+
+  // Built-in moods are read-only, so "copy" starts a new mood from one of them.
+  const copyMood = (mood: Mood) => {
+    setEditingId(null);
+    setDraft({ ...toDraft(mood), label: `${mood.label} (custom)` });
+  };
+
+  const confirmDelete = (mood: Mood) => {
+    if (window.confirm(`Delete the "${mood.label}" mood?`)) onDelete(mood.id);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImportPack(file);
+  };
+
+  const renderMood = (mood: Mood) => (
+    <div key={mood.id} className="bible-entry">
+      <div className="bible-entry-heading">
+        <strong>{mood.label}</strong>
+        <span className="drawer-hint">
+          temp {mood.sampling.temperature ?? '–'} · topP {mood.sampling.topP ?? '–'} · topK {mood.sampling.topK ?? '–'}
+        </span>
+      </div>
+      {mood.description && <p>{mood.description}</p>}
+      {mood.examplePhrasing && <p className="mood-example">“{mood.examplePhrasing}”</p>}
+      <div className="bible-entry-actions">
+        {mood.builtIn ? (
+          <button onClick={() => copyMood(mood)}>Copy</button>
+        ) : (
+          <>
+            <button onClick={() => startEditing(mood)}>Edit</button>
+            <button onClick={() => confirmDelete(mood)}>Delete</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <div
+        className="drawer"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="mood-editor-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="drawer-header">
+          <h2 id="mood-editor-title">Moods</h2>
+          <button onClick={onClose} aria-label="Close mood editor">✕</button>
+        </div>
+
+        <form className="drawer-section bible-form" onSubmit={submitDraft}>
+          <h3>{editingId ? 'Edit mood' : 'New mood'}</h3>
+          <input value={draft.label} onChange={setField('label')} placeholder="Name, e.g. Wistful seaside" aria-label="Mood name" />
+          <textarea
+            value={draft.description}
+            onChange={setField('description')}
+            placeholder="How should this mood feel?"
+            rows={2}
+            aria-label="Mood description"
+          />
+          <textarea
+            value={draft.examplePhrasing}
+            onChange={setField('examplePhrasing')}
+            placeholder="An example line written in this mood"
+            rows={2}
+            aria-label="Example phrasing"
+          />
+          <div className="mood-sampling">
+            <label>
+              Temperature
+              <input type="number" min={0} max={2} step={0.05} value={draft.temperature} onChange={setField('temperature')} />
+            </label>
+            <label>
+              Top P
+              <input type="number" min={0} max={1} step={0.01} value={draft.topP} onChange={setField('topP')} />
+            </label>
+            <label>
+              Top K
+              <input type="number" min={1} max={500} step={1} value={draft.topK} onChange={setField('topK')} />
+            </label>
+          </div>
+          <div className="bible-entry-actions">
+            {editingId && (
+              <button type="button" onClick={() => { setEditingId(null); setDraft(emptyDraft); }}>
+                Cancel
+              </button>
+            )}
+            <button type="submit" disabled={draft.label.trim() === ''}>
+              {editingId ? 'Save' : 'Add'}
+            </button>
+          </div>
+        </form>
+
+        <section className="drawer-section" aria-label="Your moods">
+          <h3>Your moods</h3>
+          {customMoods.length === 0 ? (
+            <div className="drawer-hint">No custom moods yet.</div>
+          ) : (
+            customMoods.map(renderMood)
+          )}
+          <div className="bible-entry-actions">
+            <button onClick={() => importInputRef.current?.click()}>Import pack</button>
+            <button onClick={onExportPack} disabled={customMoods.length === 0}>Share as pack</button>
+            <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImport} hidden />
+          </div>
+        </section>
+
+        <section className="drawer-section" aria-label="Built-in moods">
+          <h3>Built-in moods</h3>
+          {builtInMoods.map(renderMood)}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default MoodEditor;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Mood, MoodWeight } from '../types';
+import { describeBlend } from '../services/moods';
+
+interface MoodMixerProps {
+  moods: Mood[];
+  blend: MoodWeight[];
+  disabled: boolean;
+  onChange: (blend: MoodWeight[]) => void;
+}
+
+// Picks one mood, or several with relative weights.
+const MoodMixer: React.FC<MoodMixerProps> = ({ moods, blend, disabled, onChange }) => {
+  const update = (index: number, changes: Partial<MoodWeight>) =>
+    onChange(blend.map((item, itemIndex) => (itemIndex === index ? { ...item, ...changes } : item)));
+
+  const addMood = () => {
+    const unused = moods.find((mood) => !blend.some((item) => item.moodId === mood.id));
+    if (unused) onChange([...blend, { moodId: unused.id, weight: 50 }]);
+  };
+
+  const removeMood = (index: number) => onChange(blend.filter((_, itemIndex) => itemIndex !== index));
+
+  const isBlending = blend.length > 1;
+
+  return (
+    <div className="mood-mixer">
+      {blend.map((item, index) => (
+        <div key={index} className="mood-row">
+          <label htmlFor={`mood-select-${index}`} className="sr-only">Select Mood:</label>
+          <select
+            id={`mood-select-${index}`}
+            value={item.moodId}
+            onChange={(e) => update(index, { moodId: e.target.value })}
+            disabled={disabled}
+            aria-label="Select creative mood"
+          >
+            {moods.map((mood) => (
+              <option key={mood.id} value={mood.id}>
+                {mood.label}
+              </option>
+            ))}
+          </select>
+          {isBlending && (
+            <>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={item.weight}
+                onChange={(e) => update(index, { weight: Number(e.target.value) })}
+                disabled={disabled}
+                aria-label={`Weight of mood ${index + 1}`}
+              />
+              <button
+                className="mood-remove"
+                onClick={() => removeMood(index)}
+                disabled={disabled}
+                aria-label={`Remove mood ${index + 1} from the blend`}
+              >
+                ✕
+              </button>
+            </>
+          )}
+        </div>
+      ))}
+      <div className="mood-mixer-footer">
+        <button
+          className="mood-add"
+          onClick={addMood}
+          disabled={disabled || blend.length >= moods.length}
+        >
+          + Blend another mood
+        </button>
+        {isBlending && <span className="mood-summary">{describeBlend(blend, moods)}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default MoodMixer;
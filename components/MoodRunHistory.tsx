@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { MoodRun } from '../types';
+import { describeCandidate, wordCount } from '../services/moodRuns';
+
+interface MoodRunHistoryProps {
+  runs: MoodRun[]; // Newest first
+  currentRunId: string | null;
+  onOpen: (run: MoodRun, candidateId: string) => void;
+  onDelete: (id: string) => void;
+  onCompare: () => void;
+  onClose: () => void;
+}
+
+// Every Mood Weaver run, so an earlier version can be brought back.
+const MoodRunHistory: React.FC<MoodRunHistoryProps> = ({ runs, currentRunId, onOpen, onDelete, onCompare, onClose }) => {
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+  const shown = favouritesOnly ? runs.filter((run) => run.candidates.some((candidate) => candidate.favourite)) : runs;
+
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <div
+        className="drawer"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="run-history-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="drawer-header">
+          <h2 id="run-history-title">Run history</h2>
+          <button onClick={onClose} aria-label="Close run history">✕</button>
+        </div>
+
+        <section className="drawer-section" aria-label="Runs">
+          <div className="bible-entry-actions">
+            <label className="bible-active">
+              <input type="checkbox" checked={favouritesOnly} onChange={(e) => setFavouritesOnly(e.target.checked)} />
+              Favourites only
+            </label>
+            <button onClick={onCompare} disabled={runs.length === 0}>Compare versions</button>
+          </div>
+          {shown.length === 0 ? (
+            <div className="drawer-hint">
+              {favouritesOnly ? 'No favourites yet. Star a tale to keep it here.' : 'Every run of “Generate” is kept here.'}
+            </div>
+          ) : (
+            shown.map((run) => (
+              <div key={run.id} className={`bible-entry run-entry${run.id === currentRunId ? ' current' : ''}`}>
+                <div className="bible-entry-heading">
+                  <strong>{run.title}</strong>
+                  <span className="drawer-hint">{new Date(run.createdAt).toLocaleString()}</span>
+                </div>
+                <ul className="run-candidates">
+                  {run.candidates.map((candidate, index) => (
+                    <li key={candidate.id}>
+                      <button onClick={() => onOpen(run, candidate.id)} disabled={Boolean(candidate.error)}>
+                        {candidate.favourite ? '★' : '☆'} #{index + 1} {describeCandidate(candidate)}
+                      </button>
+                      <span className="drawer-hint">
+                        {candidate.error ? 'failed' : `${wordCount(candidate.text)} words`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="bible-entry-actions">
+                  <button onClick={() => onDelete(run.id)} aria-label={`Delete run ${run.title}`}>Delete</button>
+                </div>
+              </div>
+            ))
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default MoodRunHistory;
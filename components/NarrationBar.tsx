@@ -0,0 +1,312 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UsageRecord } from '../types';
+import { StoryProvider, classifyError, describeError } from '../services/providers';
+import {
+  BROWSER_VOICE_PREFIX,
+  NARRATION_SPEEDS,
+  NarrationSegment,
+  NarrationSettings,
+  PcmClip,
+  decodeSpeech,
+  encodeWav,
+  loadNarrationSettings,
+  saveNarrationSettings,
+} from '../services/narration';
+import { downloadBlob, slugify } from '../services/storyExport';
+import { speechUsageRecord } from '../services/usage';
+
+type NarrationStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+interface NarrationBarProps {
+  provider: StoryProvider;
+  title: string; // Names the exported audio file
+  segments: NarrationSegment[];
+  startId?: string; // Where reading begins; it starts as soon as the bar opens
+  blocked: boolean; // The budget is spent: only the browser's free voices read
+  onUsage: (record: UsageRecord) => void; // Called for each clip the provider voices
+  onActiveChange: (segmentId: string | null) => void;
+  onClose: () => void;
+}
+
+const hasSpeechSynthesis = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// A stored voice may belong to another provider; fall back to this one's default.
+const providerVoice = (provider: StoryProvider, voice: string) =>
+  provider.voices.some((item) => item.id === voice) ? voice : provider.voices[0]?.id ?? '';
+
+// Reads the story aloud with the provider's voices, or the browser's own speech
+// when offline or when a device voice is chosen.
+const NarrationBar: React.FC<NarrationBarProps> = ({
+  provider,
+  title,
+  segments,
+  startId,
+  blocked,
+  onUsage,
+  onActiveChange,
+  onClose,
+}) => {
+  const [settings, setSettings] = useState<NarrationSettings>(loadNarrationSettings);
+  const [status, setStatus] = useState<NarrationStatus>('idle');
+  const [notice, setNotice] = useState('');
+  const [exportProgress, setExportProgress] = useState<string | null>(null);
+  const [browserVoices, setBrowserVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const clipsRef = useRef(new Map<string, Promise<PcmClip>>()); // Keyed by voice and text, shared with the export
+  const runRef = useRef(0); // Bumped to cancel whatever is being read
+  const finishRef = useRef<(() => void) | null>(null); // Ends the wait on the clip or utterance playing now
+  const engineRef = useRef<'provider' | 'browser'>('provider');
+  const fellBackRef = useRef(false);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const blockedRef = useRef(blocked);
+  blockedRef.current = blocked;
+
+  const usesBrowserVoice = settings.voice.startsWith(BROWSER_VOICE_PREFIX);
+  const startIndex = Math.max(0, segments.findIndex((segment) => segment.id === startId));
+
+  useEffect(() => {
+    if (!hasSpeechSynthesis()) return;
+    const update = () => setBrowserVoices(window.speechSynthesis.getVoices());
+    update();
+    window.speechSynthesis.addEventListener('voiceschanged', update);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', update);
+  }, []);
+
+  const updateSettings = (patch: Partial<NarrationSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveNarrationSettings(next);
+    if (audioRef.current) audioRef.current.playbackRate = next.rate;
+  };
+
+  const fetchClip = (text: string, voice: string) => {
+    const key = `${voice}\n${text}`;
+    let clip = clipsRef.current.get(key);
+    if (!clip) {
+      const model = provider.defaultModels.speech;
+      clip = provider.speak({ model, text, voice }).then((audio) => {
+        const decoded = decodeSpeech(audio);
+        onUsage(speechUsageRecord(model, audio.usage, text, decoded.samples.length / 2 / decoded.sampleRate));
+        return decoded;
+      });
+      clip.catch(() => clipsRef.current.delete(key)); // Let a failed clip be fetched again
+      clipsRef.current.set(key, clip);
+    }
+    return clip;
+  };
+
+  const playClip = (clip: PcmClip) =>
+    new Promise<void>((resolve, reject) => {
+      const audio = audioRef.current ?? (audioRef.current = new Audio());
+      const url = URL.createObjectURL(encodeWav([clip]));
+      const done = () => {
+        URL.revokeObjectURL(url);
+        if (finishRef.current === done) finishRef.current = null;
+        resolve();
+      };
+      finishRef.current = done;
+      audio.onended = done;
+      audio.src = url;
+      audio.defaultPlaybackRate = settingsRef.current.rate;
+      audio.playbackRate = settingsRef.current.rate;
+      audio.play().catch((err) => {
+        if (finishRef.current === done) finishRef.current = null;
+        URL.revokeObjectURL(url);
+        reject(err);
+      });
+    });
+
+  const speakInBrowser = (text: string) =>
+    new Promise<void>((resolve, reject) => {
+      if (!hasSpeechSynthesis()) {
+        reject(new Error('This browser cannot read aloud.'));
+        return;
+      }
+      const { voice, rate } = settingsRef.current;
+      const utterance = new SpeechSynthesisUtterance(text);
+      const voiceUri = voice.startsWith(BROWSER_VOICE_PREFIX) ? voice.slice(BROWSER_VOICE_PREFIX.length) : '';
+      utterance.voice = window.speechSynthesis.getVoices().find((item) => item.voiceURI === voiceUri) ?? null;
+      utterance.rate = rate;
+      const done = () => {
+        if (finishRef.current === done) finishRef.current = null;
+        resolve();
+      };
+      finishRef.current = done;
+      utterance.onend = done;
+      utterance.onerror = done; // Also fired when reading is cancelled
+      window.speechSynthesis.speak(utterance);
+    });
+
+  const readSegment = async (segment: NarrationSegment, next: NarrationSegment | undefined, run: number) => {
+    const { voice } = settingsRef.current;
+    const wantsProvider = !voice.startsWith(BROWSER_VOICE_PREFIX) && !fellBackRef.current;
+    if (wantsProvider && !blockedRef.current && navigator.onLine) {
+      const speaker = providerVoice(provider, voice);
+      try {
+        setStatus('loading');
+        const clip = fetchClip(segment.text, speaker);
+        if (next) fetchClip(next.text, speaker).catch(() => {}); // Fetch ahead so the next passage follows without a gap
+        const audio = await clip;
+        if (run !== runRef.current) return;
+        engineRef.current = 'provider';
+        setStatus('playing');
+        await playClip(audio);
+        return;
+      } catch (err) {
+        if (classifyError(err).kind !== 'network') throw err;
+        fellBackRef.current = true;
+      }
+    }
+    if (wantsProvider && blockedRef.current) setNotice(`Your budget is spent, so your browser's voice is reading instead of ${provider.label}.`);
+    else if (wantsProvider) setNotice(`${provider.label} is out of reach, so your browser's voice is reading instead.`);
+    if (run !== runRef.current) return;
+    engineRef.current = 'browser';
+    setStatus('playing');
+    await speakInBrowser(segment.text);
+  };
+
+  const haltPlayback = () => {
+    runRef.current++;
+    audioRef.current?.pause();
+    if (hasSpeechSynthesis()) window.speechSynthesis.cancel();
+    finishRef.current?.();
+    return runRef.current;
+  };
+
+  const playFrom = async (index: number) => {
+    const run = haltPlayback();
+    setNotice('');
+    try {
+      for (let i = index; i < segments.length; i++) {
+        if (run !== runRef.current) return;
+        onActiveChange(segments[i].id);
+        await readSegment(segments[i], segments[i + 1], run);
+      }
+    } catch (err) {
+      if (run !== runRef.current) return;
+      console.error('Failed to read story aloud:', err);
+      setNotice(`Could not read aloud: ${describeError(classifyError(err))}`);
+    }
+    if (run !== runRef.current) return;
+    setStatus('idle');
+    onActiveChange(null);
+  };
+
+  const stop = () => {
+    haltPlayback();
+    setStatus('idle');
+    onActiveChange(null);
+  };
+
+  const pause = () => {
+    if (engineRef.current === 'browser') window.speechSynthesis.pause();
+    else audioRef.current?.pause();
+    setStatus('paused');
+  };
+
+  const resume = () => {
+    if (engineRef.current === 'browser') window.speechSynthesis.resume();
+    else audioRef.current?.play();
+    setStatus('playing');
+  };
+
+  useEffect(() => {
+    playFrom(startIndex);
+    return () => {
+      haltPlayback();
+      onActiveChange(null);
+    };
+  }, []);
+
+  // Renders the provider voice for every segment and joins them into one WAV
+  // file with a chapter marker at the start of each.
+  const exportAudio = async () => {
+    if (usesBrowserVoice) {
+      window.alert(`Audio export needs a ${provider.label} voice. The browser's own voices cannot be recorded.`);
+      return;
+    }
+    if (blocked) {
+      window.alert('Your budget is spent. Raise it from the usage panel (💰) to export audio.');
+      return;
+    }
+    const voice = providerVoice(provider, settings.voice);
+    setExportProgress(`0/${segments.length}`);
+    try {
+      const clips: PcmClip[] = [];
+      for (const segment of segments) {
+        clips.push(await fetchClip(segment.text, voice));
+        setExportProgress(`${clips.length}/${segments.length}`);
+      }
+      downloadBlob(encodeWav(clips, segments.map((segment) => segment.label)), `${slugify(title)}.wav`);
+    } catch (err) {
+      console.error('Failed to export narration:', err);
+      window.alert(`Could not export audio: ${describeError(classifyError(err))}`);
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  return (
+    <div className="narration-bar" role="region" aria-label="Narration">
+      <div className="narration-controls">
+        {status === 'idle' ? (
+          <button onClick={() => playFrom(startIndex)} disabled={segments.length === 0} aria-label="Read aloud">
+            ▶ Play
+          </button>
+        ) : status === 'paused' ? (
+          <button onClick={resume} aria-label="Resume reading">▶ Resume</button>
+        ) : (
+          <button onClick={pause} disabled={status === 'loading'} aria-label="Pause reading">
+            {status === 'loading' ? 'Preparing...' : '⏸ Pause'}
+          </button>
+        )}
+        <button onClick={stop} disabled={status === 'idle'} aria-label="Stop reading">■ Stop</button>
+        <label>
+          Voice
+          <select
+            value={usesBrowserVoice ? settings.voice : providerVoice(provider, settings.voice)}
+            onChange={(e) => {
+              fellBackRef.current = false;
+              updateSettings({ voice: e.target.value });
+            }}
+          >
+            <optgroup label={provider.label}>
+              {provider.voices.map((voice) => (
+                <option key={voice.id} value={voice.id}>{voice.label}</option>
+              ))}
+            </optgroup>
+            {browserVoices.length > 0 && (
+              <optgroup label="This device (works offline)">
+                {browserVoices.map((voice) => (
+                  <option key={voice.voiceURI} value={`${BROWSER_VOICE_PREFIX}${voice.voiceURI}`}>
+                    {voice.name} ({voice.lang})
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        <label>
+          Speed
+          <select value={settings.rate} onChange={(e) => updateSettings({ rate: Number(e.target.value) })}>
+            {NARRATION_SPEEDS.map((rate) => (
+              <option key={rate} value={rate}>{rate}×</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={exportAudio}
+          disabled={exportProgress !== null || segments.length === 0}
+          title="One WAV file at normal speed, with a chapter marker per passage"
+        >
+          {exportProgress ? `Recording ${exportProgress}...` : 'Export audio'}
+        </button>
+        <button onClick={onClose} aria-label="Close narration">✕</button>
+      </div>
+      {notice && <div className="narration-notice" role="status">{notice}</div>}
+    </div>
+  );
+};
+
+export default NarrationBar;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { Book, BookAct, BookChapter } from '../types';
+import { createAct, createChapter, isWritten } from '../services/bookBuilder';
+
+interface OutlineEditorProps {
+  book: Book;
+  selectedChapterId: string | null;
+  writingChapterId: string | null;
+  disabled: boolean; // Structure edits are locked while a chapter is being written
+  onChange: (book: Book) => void;
+  onSelect: (chapterId: string) => void;
+}
+
+const move = <T,>(items: T[], index: number, offset: number) => {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+const chapterStatus = (chapter: BookChapter, isWriting: boolean) => {
+  if (isWriting) return { icon: '✎', label: 'Writing' };
+  if (isWritten(chapter)) return { icon: '✓', label: 'Written' };
+  if (chapter.text) return { icon: '…', label: 'Unfinished' };
+  return { icon: '○', label: 'Not written yet' };
+};
+
+// The book's outline as an editable tree: acts, their chapters and each chapter's beats.
+const OutlineEditor: React.FC<OutlineEditorProps> = ({ book, selectedChapterId, writingChapterId, disabled, onChange, onSelect }) => {
+  const setActs = (acts: BookAct[]) => onChange({ ...book, acts });
+
+  const updateAct = (actId: string, patch: Partial<BookAct>) =>
+    setActs(book.acts.map((act) => (act.id === actId ? { ...act, ...patch } : act)));
+
+  const updateChapter = (act: BookAct, chapterId: string, patch: Partial<BookChapter>) =>
+    updateAct(act.id, { chapters: act.chapters.map((chapter) => (chapter.id === chapterId ? { ...chapter, ...patch } : chapter)) });
+
+  const removeAct = (act: BookAct) => {
+    if (act.chapters.some((chapter) => chapter.text) && !window.confirm(`Delete "${act.title}" and its written chapters?`)) return;
+    setActs(book.acts.filter((item) => item.id !== act.id));
+  };
+
+  const removeChapter = (act: BookAct, chapter: BookChapter) => {
+    if (chapter.text && !window.confirm(`Delete "${chapter.title}" and its text?`)) return;
+    updateAct(act.id, { chapters: act.chapters.filter((item) => item.id !== chapter.id) });
+  };
+
+  let number = 0;
+
+  return (
+    <div className="outline-editor">
+      <input
+        className="outline-title"
+        value={book.title}
+        onChange={(e) => onChange({ ...book, title: e.target.value })}
+        aria-label="Book title"
+      />
+      {book.acts.map((act, actIndex) => (
+        <section key={act.id} className="outline-act">
+          <div className="outline-row">
+            <span className="outline-label">Act {actIndex + 1}</span>
+            <input value={act.title} onChange={(e) => updateAct(act.id, { title: e.target.value })} aria-label={`Act ${actIndex + 1} title`} />
+            <button onClick={() => setActs(move(book.acts, actIndex, -1))} disabled={disabled || actIndex === 0} aria-label="Move act up">↑</button>
+            <button onClick={() => setActs(move(book.acts, actIndex, 1))} disabled={disabled || actIndex === book.acts.length - 1} aria-label="Move act down">↓</button>
+            <button onClick={() => removeAct(act)} disabled={disabled || book.acts.length === 1} aria-label="Delete act">✕</button>
+          </div>
+          <ol className="outline-chapters">
+            {act.chapters.map((chapter, chapterIndex) => {
+              const status = chapterStatus(chapter, chapter.id === writingChapterId);
+              number++;
+              return (
+                <li key={chapter.id} className={`outline-chapter${chapter.id === selectedChapterId ? ' selected' : ''}`}>
+                  <div className="outline-row">
+                    <button className="outline-status" onClick={() => onSelect(chapter.id)} title={`${status.label}: show chapter`}>
+                      {status.icon} {number}
+                    </button>
+                    <input
+                      value={chapter.title}
+                      onChange={(e) => updateChapter(act, chapter.id, { title: e.target.value })}
+                      aria-label={`Chapter ${number} title`}
+                    />
+                    <button
+                      onClick={() => updateAct(act.id, { chapters: move(act.chapters, chapterIndex, -1) })}
+                      disabled={disabled || chapterIndex === 0}
+                      aria-label="Move chapter up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => updateAct(act.id, { chapters: move(act.chapters, chapterIndex, 1) })}
+                      disabled={disabled || chapterIndex === act.chapters.length - 1}
+                      aria-label="Move chapter down"
+                    >
+                      ↓
+                    </button>
+                    <button onClick={() => removeChapter(act, chapter)} disabled={disabled} aria-label="Delete chapter">✕</button>
+                  </div>
+                  <textarea
+                    value={chapter.beats.join('\n')}
+                    onChange={(e) => updateChapter(act, chapter.id, { beats: e.target.value.split('\n') })}
+                    onBlur={() => updateChapter(act, chapter.id, { beats: chapter.beats.filter((beat) => beat.trim() !== '') })}
+                    rows={Math.max(2, chapter.beats.length)}
+                    placeholder="One beat per line"
+                    aria-label={`Chapter ${number} beats`}
+                  />
+                </li>
+              );
+            })}
+          </ol>
+          <button
+            className="outline-add"
+            onClick={() => updateAct(act.id, { chapters: [...act.chapters, createChapter()] })}
+            disabled={disabled}
+          >
+            + Chapter
+          </button>
+        </section>
+      ))}
+      <button className="outline-add" onClick={() => setActs([...book.acts, createAct()])} disabled={disabled}>
+        + Act
+      </button>
+    </div>
+  );
+};
+
+export default OutlineEditor;
@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import { Persona } from '../types';
+import { ModelInfo, StoryProvider } from '../services/providers';
+
+interface PersonaManagerProps {
+  personas: Persona[];
+  activeId: string; // The persona telling the story on screen
+  provider: StoryProvider;
+  disabled: boolean; // Switching waits until the reply being written has finished
+  onSave: (persona: Persona) => void;
+  onDelete: (id: string) => void;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}
+
+interface PersonaDraft {
+  name: string;
+  avatar: string;
+  instruction: string;
+  model: string;
+  temperature: string;
+  topP: string;
+  topK: string;
+}
+
+const emptyDraft: PersonaDraft = { name: '', avatar: '🪶', instruction: '', model: '', temperature: '', topP: '', topK: '' };
+
+const toDraft = (persona: Persona, provider: StoryProvider): PersonaDraft => ({
+  name: persona.name,
+  avatar: persona.avatar,
+  instruction: persona.instruction,
+  model: persona.providerId === provider.id ? persona.model : '',
+  temperature: String(persona.sampling.temperature ?? ''),
+  topP: String(persona.sampling.topP ?? ''),
+  topK: String(persona.sampling.topK ?? ''),
+});
+
+const parseOptional = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const describeSampling = ({ sampling }: Persona) =>
+  [
+    sampling.temperature !== undefined && `temp ${sampling.temperature}`,
+    sampling.topP !== undefined && `topP ${sampling.topP}`,
+    sampling.topK !== undefined && `topK ${sampling.topK}`,
+  ]
+    .filter(Boolean)
+    .join(' · ') || 'Chat settings';
+
+// Switching persona keeps the story; the next reply is written with the new
+// instruction, model and sampling.
+const PersonaManager: React.FC<PersonaManagerProps> = ({
+  personas,
+  activeId,
+  provider,
+  disabled,
+  onSave,
+  onDelete,
+  onSelect,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<PersonaDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [models, setModels] = useState<ModelInfo[]>([]);
+
+  const customPersonas = personas.filter((persona) => !persona.builtIn);
+  const builtInPersonas = personas.filter((persona) => persona.builtIn);
+
+  useEffect(() => {
+    let cancelled = false;
+    provider.listModels().then((list) => !cancelled && setModels(list));
+    return () => {
+      cancelled = true;
+    };
+  }, [provider]);
+
+  const setField = (field: keyof PersonaDraft) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+      setDraft({ ...draft, [field]: e.target.value });
+
+  const submitDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.name.trim() === '' || draft.instruction.trim() === '') return;
+    const existing = personas.find((persona) => persona.id === editingId);
+    onSave({
+      id: existing?.id ?? crypto.randomUUID(),
+      createdAt: existing?.createdAt ?? Date.now(),
+      name: draft.name.trim(),
+      avatar: draft.avatar.trim() || emptyDraft.avatar,
+      instruction: draft.instruction.trim(),
+      model: draft.model,
+      ...(draft.model && { providerId: provider.id }),
+      sampling: {
+        temperature: parseOptional(draft.temperature),
+        topP: parseOptional(draft.topP),
+        topK: parseOptional(draft.topK),
+      },
+    });
+    setDraft(emptyDraft);
+    setEditingId(null);
+  };
+
+  const startEditing = (persona: Persona) => {
+    setEditingId(persona.id);
+    setDraft(toDraft(persona, provider));
+  };
+
+  // Built-in personas are read-only, so "copy" starts a new persona from one of them.
+  const copyPersona = (persona: Persona) => {
+    setEditingId(null);
+    setDraft({ ...toDraft(persona, provider), name: `${persona.name} (custom)` });
+  };
+
+  const confirmDelete = (persona: Persona) => {
+    if (window.confirm(`Delete the "${persona.name}" persona?`)) onDelete(persona.id);
+  };
+
+  const renderPersona = (persona: Persona) => (
+    <div key={persona.id} className={`bible-entry${persona.id === activeId ? ' active-preset' : ''}`}>
+      <div className="bible-entry-heading">
+        <strong>
+          <span className="persona-avatar" aria-hidden="true">{persona.avatar}</span> {persona.name}
+        </strong>
+        <span className="drawer-hint">
+          {persona.model && persona.providerId === provider.id ? `${persona.model} · ` : ''}
+          {describeSampling(persona)}
+        </span>
+      </div>
+      <p>{persona.instruction}</p>
+      <div className="bible-entry-actions">
+        <button onClick={() => onSelect(persona.id)} disabled={disabled || persona.id === activeId}>
+          {persona.id === activeId ? 'Telling this story' : 'Switch to'}
+        </button>
+        {persona.builtIn ? (
+          <button onClick={() => copyPersona(persona)}>Copy</button>
+        ) : (
+          <>
+            <button onClick={() => startEditing(persona)}>Edit</button>
+            <button onClick={() => confirmDelete(persona)}>Delete</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <div
+        className="drawer"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="persona-manager-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="drawer-header">
+          <h2 id="persona-manager-title">Storytellers</h2>
+          <button onClick={onClose} aria-label="Close persona manager">✕</button>
+        </div>
+
+        <form className="drawer-section bible-form" onSubmit={submitDraft}>
+          <h3>{editingId ? 'Edit persona' : 'New persona'}</h3>
+          <div className="persona-name-row">
+            <input
+              className="persona-avatar-input"
+              value={draft.avatar}
+              onChange={setField('avatar')}
+              maxLength={4}
+              aria-label="Persona avatar"
+            />
+            <input value={draft.name} onChange={setField('name')} placeholder="Name, e.g. Pirate bard" aria-label="Persona name" />
+          </div>
+          <textarea
+            value={draft.instruction}
+            onChange={setField('instruction')}
+            placeholder="Who is telling the story, and how do they tell it?"
+            rows={4}
+            aria-label="Persona instruction"
+          />
+          <label className="generation-field">
+            Default model
+            <select value={draft.model} onChange={setField('model')}>
+              <option value="">{provider.label} default</option>
+              {models.map((model) => (
+                <option key={model.id} value={model.id}>{model.label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="mood-sampling">
+            <label>
+              Temperature
+              <input type="number" min={0} max={2} step={0.05} value={draft.temperature} onChange={setField('temperature')} />
+            </label>
+            <label>
+              Top P
+              <input type="number" min={0} max={1} step={0.01} value={draft.topP} onChange={setField('topP')} />
+            </label>
+            <label>
+              Top K
+              <input type="number" min={1} max={500} step={1} value={draft.topK} onChange={setField('topK')} />
+            </label>
+          </div>
+          <div className="drawer-hint">A model or sampling picked in the chat's generation settings still wins.</div>
+          <div className="bible-entry-actions">
+            {editingId && (
+              <button type="button" onClick={() => { setEditingId(null); setDraft(emptyDraft); }}>
+                Cancel
+              </button>
+            )}
+            <button type="submit" disabled={draft.name.trim() === '' || draft.instruction.trim() === ''}>
+              {editingId ? 'Save' : 'Add'}
+            </button>
+          </div>
+        </form>
+
+        <section className="drawer-section" aria-label="Your personas">
+          <h3>Your personas</h3>
+          {customPersonas.length === 0 ? (
+            <div className="drawer-hint">No custom personas yet.</div>
+          ) : (
+            customPersonas.map(renderPersona)
+          )}
+        </section>
+
+        <section className="drawer-section" aria-label="Built-in personas">
+          <h3>Built-in personas</h3>
+          {builtInPersonas.map(renderPersona)}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaManager;
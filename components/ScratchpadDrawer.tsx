@@ -0,0 +1,58 @@
+import React from 'react';
+import { GenerationTab, PinnedPassage } from '../types';
+
+interface ScratchpadDrawerProps {
+  pins: PinnedPassage[];
+  onContinueInChat: (pin: PinnedPassage) => void;
+  onRewrite: (pin: PinnedPassage) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<GenerationTab, string> = {
+  chat: 'Storyteller Chat',
+  'mood-weaver': 'Mood Weaver',
+  'book-builder': 'Book Builder',
+};
+
+// Passages pinned from any tab, ready to be carried on in the chat or rewritten in a mood.
+const ScratchpadDrawer: React.FC<ScratchpadDrawerProps> = ({ pins, onContinueInChat, onRewrite, onRemove, onClose }) => (
+  <div className="drawer-overlay" onClick={onClose}>
+    <div
+      className="drawer"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="scratchpad-title"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="drawer-header">
+        <h2 id="scratchpad-title">Scratchpad</h2>
+        <button onClick={onClose} aria-label="Close scratchpad">✕</button>
+      </div>
+
+      <section className="drawer-section" aria-label="Pinned passages">
+        {pins.length === 0 ? (
+          <div className="drawer-hint">Nothing pinned yet. Use “Pin” on a chat reply or a Mood Weaver tale to keep it here.</div>
+        ) : (
+          pins.map((pin) => (
+            <div key={pin.id} className="bible-entry scratchpad-pin">
+              <strong>{pin.title}</strong>
+              <div className="drawer-hint">
+                {SOURCE_LABELS[pin.source]} · {new Date(pin.createdAt).toLocaleString()}
+              </div>
+              <p>{pin.text}</p>
+              <div className="bible-entry-actions">
+                <button onClick={() => onContinueInChat(pin)}>💬 Continue in chat</button>
+                <button onClick={() => onRewrite(pin)}>🎭 Rewrite in a mood</button>
+                <button onClick={() => navigator.clipboard.writeText(pin.text)}>Copy</button>
+                <button onClick={() => onRemove(pin.id)} aria-label={`Unpin ${pin.title}`}>Unpin</button>
+              </div>
+            </div>
+          ))
+        )}
+      </section>
+    </div>
+  </div>
+);
+
+export default ScratchpadDrawer;
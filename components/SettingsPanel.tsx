@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { ModelInfo, ProviderId, StoryProvider, hasGeminiApiKey, providers } from '../services/providers';
+
+interface SettingsPanelProps {
+  providerId: ProviderId;
+  onProviderChange: (id: ProviderId) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_DESCRIPTIONS: Record<ProviderId, string> = {
+  gemini: 'Live stories from Google Gemini, through the API server (npm run server). Requires GEMINI_API_KEY there.',
+  mock: 'Deterministic offline storyteller for demos and tests. No key or network needed.',
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ providerId, onProviderChange, onClose }) => {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [hasKey, setHasKey] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    hasGeminiApiKey().then((result) => !cancelled && setHasKey(result));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const provider: StoryProvider = providers[providerId];
+    setIsLoadingModels(true);
+    provider
+      .listModels()
+      .then((list) => !cancelled && setModels(list))
+      .finally(() => !cancelled && setIsLoadingModels(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [providerId]);
+
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <div
+        className="drawer"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="drawer-header">
+          <h2 id="settings-title">Settings</h2>
+          <button onClick={onClose} aria-label="Close settings">✕</button>
+        </div>
+        <fieldset className="drawer-section">
+          <legend>Model provider</legend>
+          {(Object.keys(providers) as ProviderId[]).map((id) => (
+            <label key={id} className="settings-option">
+              <input
+                type="radio"
+                name="provider"
+                value={id}
+                checked={providerId === id}
+                onChange={() => onProviderChange(id)}
+              />
+              <span>
+                <strong>{providers[id].label}</strong>
+                <span className="drawer-hint">{PROVIDER_DESCRIPTIONS[id]}</span>
+                {id === 'gemini' && !hasKey && (
+                  <span className="settings-warning">The API server is not running or has no API key.</span>
+                )}
+              </span>
+            </label>
+          ))}
+        </fieldset>
+        <div className="drawer-section">
+          <h3>Available models</h3>
+          {isLoadingModels ? (
+            <div className="drawer-hint">Loading models...</div>
+          ) : (
+            <ul className="settings-models">
+              {models.map((model) => (
+                <li key={model.id}>
+                  {model.label} <code>{model.id}</code>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { StorySession } from '../types';
+
+interface StoryLibraryProps {
+  sessions: StorySession[];
+  activeSessionId: string | null;
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const StoryLibrary: React.FC<StoryLibraryProps> = ({
+  sessions,
+  activeSessionId,
+  disabled,
+  onOpen,
+  onNew,
+  onRename,
+  onDelete,
+}) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleSessions = normalizedQuery
+    ? sessions.filter(
+        (session) =>
+          session.title.toLowerCase().includes(normalizedQuery) ||
+          session.messages.some((msg) => msg.text.toLowerCase().includes(normalizedQuery)),
+      )
+    : sessions;
+
+  const startRename = (session: StorySession) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim() !== '') {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commitRename();
+    if (e.key === 'Escape') setEditingId(null);
+  };
+
+  const confirmDelete = (session: StorySession) => {
+    if (window.confirm(`Delete "${session.title}"? This cannot be undone.`)) {
+      onDelete(session.id);
+    }
+  };
+
+  return (
+    <aside className="story-library" aria-label="Story library">
+      <div className="library-header">
+        <h2>Library</h2>
+        <button onClick={onNew} disabled={disabled} aria-label="Start a new story">
+          + New
+        </button>
+      </div>
+      <input
+        type="search"
+        className="library-search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search stories..."
+        aria-label="Search stories"
+      />
+      <ul className="library-list">
+        {visibleSessions.length === 0 && (
+          <li className="library-empty">{sessions.length === 0 ? 'No saved stories yet.' : 'No matches.'}</li>
+        )}
+        {visibleSessions.map((session) => (
+          <li
+            key={session.id}
+            className={`library-item ${session.id === activeSessionId ? 'active' : ''}`}
+          >
+            {editingId === session.id ? (
+              <input
+                className="library-rename"
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={handleRenameKeyDown}
+                aria-label="Story title"
+                autoFocus
+              />
+            ) : (
+              <button
+                className="library-open"
+                onClick={() => onOpen(session.id)}
+                disabled={disabled}
+                title={session.title}
+              >
+                <span className="library-title">{session.title}</span>
+                <span className="library-meta">
+                  {formatDate(session.updatedAt)} · {session.messages.length} messages
+                </span>
+              </button>
+            )}
+            <div className="library-actions">
+              <button onClick={() => startRename(session)} aria-label={`Rename ${session.title}`}>
+                ✎
+              </button>
+              <button
+                onClick={() => confirmDelete(session)}
+                disabled={disabled && session.id === activeSessionId}
+                aria-label={`Delete ${session.title}`}
+              >
+                ✕
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default StoryLibrary;
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { ContextSettings, StorySummary } from '../types';
+import { formatTokens } from '../services/usage';
+
+interface StorySummaryDrawerProps {
+  summary?: StorySummary; // Only when it applies to the branch on screen
+  settings: ContextSettings;
+  tokens: number | null; // Size of the last request, if one has been sent
+  isCompacting: boolean;
+  disabled: boolean;
+  onSaveSummary: (text: string) => void;
+  onChangeSettings: (settings: ContextSettings) => void;
+  onCompactNow: () => void;
+  onClose: () => void;
+}
+
+const StorySummaryDrawer: React.FC<StorySummaryDrawerProps> = ({
+  summary,
+  settings,
+  tokens,
+  isCompacting,
+  disabled,
+  onSaveSummary,
+  onChangeSettings,
+  onCompactNow,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState(summary?.text ?? '');
+  const isEdited = summary !== undefined && draft !== summary.text;
+
+  // A new summary replaces the draft, e.g. after summarising now.
+  useEffect(() => {
+    setDraft(summary?.text ?? '');
+  }, [summary?.updatedAt]);
+
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <div
+        className="drawer"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="summary-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="drawer-header">
+          <h2 id="summary-title">Story so far</h2>
+          <button onClick={onClose} aria-label="Close story summary">✕</button>
+        </div>
+
+        <section className="drawer-section bible-form" aria-label="Summary">
+          {summary ? (
+            <>
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={12}
+                aria-label="Story so far"
+              />
+              <div className="drawer-hint">
+                The storyteller reads this instead of the turns above the divider in the chat. Edit it to fix a detail it got
+                wrong; the full transcript is still kept and exported.
+              </div>
+              <div className="bible-entry-actions">
+                <button onClick={() => setDraft(summary.text)} disabled={!isEdited}>Discard changes</button>
+                <button onClick={() => onSaveSummary(draft.trim())} disabled={!isEdited || draft.trim() === ''}>
+                  Save summary
+                </button>
+              </div>
+            </>
+          ) : (
+            <div className="drawer-hint">
+              No summary yet. Once a request would pass {formatTokens(settings.tokenLimit)} tokens, older turns are
+              summarised here and only the latest ones are sent in full.
+            </div>
+          )}
+          <button onClick={onCompactNow} disabled={disabled || isCompacting}>
+            {isCompacting ? 'Summarising...' : 'Summarise older turns now'}
+          </button>
+        </section>
+
+        <section className="drawer-section bible-form" aria-label="Context limit">
+          <h3>Context</h3>
+          {tokens !== null && <div className="drawer-hint">The last request used {formatTokens(tokens)} tokens.</div>}
+          <div className="mood-sampling">
+            <label>
+              Token limit
+              <input
+                type="number"
+                min={1000}
+                step={1000}
+                value={settings.tokenLimit}
+                onChange={(e) => onChangeSettings({ ...settings, tokenLimit: Math.max(1000, Number(e.target.value) || 0) })}
+              />
+            </label>
+            <label>
+              Recent exchanges kept verbatim
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={settings.keepTurns}
+                onChange={(e) => onChangeSettings({ ...settings, keepTurns: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+              />
+            </label>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default StorySummaryDrawer;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Message } from '../types';
+import { getChildren } from '../services/storyTree';
+
+interface StoryTreeViewProps {
+  nodes: Message[];
+  activePathIds: Set<string>;
+  disabled: boolean;
+  onSelect: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+const snippet = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > 60 ? `${flat.slice(0, 60)}…` : flat || '(empty)';
+};
+
+const StoryTreeView: React.FC<StoryTreeViewProps> = ({ nodes, activePathIds, disabled, onSelect, onClose }) => {
+  const renderBranch = (parentId: string | null): React.ReactNode => {
+    const children = getChildren(nodes, parentId);
+    if (children.length === 0) return null;
+    return (
+      <ul className="tree-branch">
+        {children.map((node) => (
+          <li key={node.id}>
+            <button
+              className={`tree-node ${node.sender}${activePathIds.has(node.id) ? ' active' : ''}`}
+              onClick={() => onSelect(node.id)}
+              disabled={disabled}
+              title={node.text}
+            >
+              <span className="tree-sender">{node.sender === 'user' ? 'You' : 'Storyteller'}</span>
+              {snippet(node.text)}
+            </button>
+            {renderBranch(node.id)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="story-tree" role="region" aria-label="Story tree">
+      <div className="story-tree-header">
+        <h3>Story tree</h3>
+        <button onClick={onClose} aria-label="Close story tree">✕</button>
+      </div>
+      {nodes.length === 0 ? (
+        <div className="library-empty">Nothing here yet.</div>
+      ) : (
+        renderBranch(null)
+      )}
+    </div>
+  );
+};
+
+export default StoryTreeView;
@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { MoodRun } from '../types';
+import { versionLabel } from '../services/moodRuns';
+import { countChangedWords, diffWords } from '../services/textDiff';
+
+interface TaleDiffDrawerProps {
+  runs: MoodRun[];
+  initialIds: [string, string]; // Candidate ids compared when the drawer opens
+  onClose: () => void;
+}
+
+// Compares any two versions from the run history, word by word.
+const TaleDiffDrawer: React.FC<TaleDiffDrawerProps> = ({ runs, initialIds, onClose }) => {
+  const [beforeId, setBeforeId] = useState(initialIds[0]);
+  const [afterId, setAfterId] = useState(initialIds[1]);
+
+  const versions = useMemo(
+    () => runs.flatMap((run) => run.candidates.filter((candidate) => !candidate.error).map((candidate) => ({ run, candidate }))),
+    [runs],
+  );
+  const before = versions.find((version) => version.candidate.id === beforeId);
+  const after = versions.find((version) => version.candidate.id === afterId);
+  const parts = useMemo(
+    () => (before && after ? diffWords(before.candidate.text, after.candidate.text) : []),
+    [before, after],
+  );
+  const changed = countChangedWords(parts);
+
+  const picker = (label: string, value: string, onChange: (id: string) => void) => (
+    <label>
+      {label}
+      <select value={value} onChange={(e) => onChange(e.target.value)}>
+        {runs.map((run) => (
+          <optgroup key={run.id} label={`${run.title} · ${new Date(run.createdAt).toLocaleString()}`}>
+            {run.candidates
+              .filter((candidate) => !candidate.error)
+              .map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.favourite ? '★ ' : ''}{versionLabel(run, candidate)}
+                </option>
+              ))}
+          </optgroup>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <div
+        className="drawer wide"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="diff-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="drawer-header">
+          <h2 id="diff-title">Compare versions</h2>
+          <button onClick={onClose} aria-label="Close comparison">✕</button>
+        </div>
+
+        <section className="drawer-section bible-form" aria-label="Versions">
+          {picker('From', beforeId, setBeforeId)}
+          {picker('To', afterId, setAfterId)}
+          {before && after && (
+            <div className="drawer-hint">
+              {changed.added} words added · {changed.removed} words removed
+            </div>
+          )}
+        </section>
+
+        <section className="drawer-section" aria-label="Differences">
+          {before && after ? (
+            <div className="tale-diff">
+              {parts.map((part, index) =>
+                part.type === 'added' ? (
+                  <ins key={index}>{part.text}</ins>
+                ) : part.type === 'removed' ? (
+                  <del key={index}>{part.text}</del>
+                ) : (
+                  <span key={index}>{part.text}</span>
+                ),
+              )}
+            </div>
+          ) : (
+            <div className="drawer-hint">Pick two versions to compare.</div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default TaleDiffDrawer;
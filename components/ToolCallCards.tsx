@@ -0,0 +1,33 @@
+import React from 'react';
+import { ToolCallRecord } from '../types';
+
+interface ToolCallCardsProps {
+  calls: ToolCallRecord[];
+}
+
+// "roll_dice" -> "roll dice"
+const toolLabel = (name: string) => name.replace(/_/g, ' ');
+
+// One line per tool the storyteller used; opening a card shows exactly what was
+// asked for and what went back to the model.
+const ToolCallCards: React.FC<ToolCallCardsProps> = ({ calls }) => (
+  <div className="tool-cards" role="list" aria-label="Tool calls">
+    {calls.map((call) => (
+      <details key={call.id} className={`tool-card${call.failed ? ' failed' : ''}`} role="listitem">
+        <summary>
+          <span className="tool-icon" aria-hidden="true">{call.icon}</span>
+          <span className="tool-name">{toolLabel(call.name)}</span>
+          <span className="tool-summary">{call.summary}</span>
+        </summary>
+        <dl>
+          <dt>Asked</dt>
+          <dd><code>{JSON.stringify(call.args)}</code></dd>
+          <dt>{call.failed ? 'Refused' : 'Answered'}</dt>
+          <dd><code>{JSON.stringify(call.result)}</code></dd>
+        </dl>
+      </details>
+    ))}
+  </div>
+);
+
+export default ToolCallCards;
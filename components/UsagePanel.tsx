@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { DailyUsage, ModelPrice, UsageSettings } from '../types';
+import { DEFAULT_PRICES, budgetStatus, formatCost, formatTokens } from '../services/usage';
+
+interface UsagePanelProps {
+  settings: UsageSettings;
+  today: DailyUsage;
+  onChange: (settings: UsageSettings) => void;
+  onClose: () => void;
+}
+
+const parseBudget = (value: string) => {
+  const number = Number(value);
+  return value.trim() === '' || Number.isNaN(number) || number <= 0 ? undefined : number;
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ settings, today, onChange, onClose }) => {
+  const [newModel, setNewModel] = useState('');
+
+  const setPrice = (model: string, field: keyof ModelPrice) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Math.max(0, Number(e.target.value) || 0);
+    onChange({ ...settings, prices: { ...settings.prices, [model]: { ...settings.prices[model], [field]: value } } });
+  };
+
+  const removePrice = (model: string) => {
+    const { [model]: _removed, ...prices } = settings.prices;
+    onChange({ ...settings, prices });
+  };
+
+  const addModel = (e: React.FormEvent) => {
+    e.preventDefault();
+    const model = newModel.trim();
+    if (model === '' || settings.prices[model]) return;
+    onChange({ ...settings, prices: { ...settings.prices, [model]: { input: 0, output: 0 } } });
+    setNewModel('');
+  };
+
+  const dailyStatus = budgetStatus(today.cost, settings.dailyBudget);
+
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <div
+        className="drawer"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="usage-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="drawer-header">
+          <h2 id="usage-title">Usage &amp; budget</h2>
+          <button onClick={onClose} aria-label="Close usage">✕</button>
+        </div>
+
+        <section className="drawer-section" aria-label="Today">
+          <h3>Today</h3>
+          <dl className="usage-totals">
+            <dt>Prompt tokens</dt>
+            <dd>{formatTokens(today.promptTokens)}</dd>
+            <dt>Output tokens</dt>
+            <dd>{formatTokens(today.outputTokens)}</dd>
+            <dt>Estimated cost</dt>
+            <dd className={`budget-${dailyStatus}`}>{formatCost(today.cost)}</dd>
+          </dl>
+          <div className="drawer-hint">Each chat turn re-sends the story so far, so prompt tokens grow as a story gets longer.</div>
+        </section>
+
+        <section className="drawer-section bible-form" aria-label="Budgets">
+          <h3>Budgets</h3>
+          <div className="mood-sampling">
+            <label>
+              Per story ($)
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                defaultValue={settings.sessionBudget ?? ''}
+                onChange={(e) => onChange({ ...settings, sessionBudget: parseBudget(e.target.value) })}
+              />
+            </label>
+            <label>
+              Per day ($)
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                defaultValue={settings.dailyBudget ?? ''}
+                onChange={(e) => onChange({ ...settings, dailyBudget: parseBudget(e.target.value) })}
+              />
+            </label>
+          </div>
+          <div className="drawer-hint">
+            A story is a chat story, a Mood Weaver run or a book. You are warned at 80% of a budget; generation, pictures
+            and narration stop once it is reached. Leave blank for no limit.
+          </div>
+        </section>
+
+        <section className="drawer-section bible-form" aria-label="Prices">
+          <h3>Prices per million tokens ($)</h3>
+          <table className="price-table">
+            <thead>
+              <tr>
+                <th>Model</th>
+                <th>Input</th>
+                <th>Output</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.entries(settings.prices) as [string, ModelPrice][]).map(([model, price]) => (
+                <tr key={model}>
+                  <td><code>{model}</code></td>
+                  <td>
+                    <input type="number" min={0} step={0.05} value={price.input} onChange={setPrice(model, 'input')} aria-label={`${model} input price`} />
+                  </td>
+                  <td>
+                    <input type="number" min={0} step={0.05} value={price.output} onChange={setPrice(model, 'output')} aria-label={`${model} output price`} />
+                  </td>
+                  <td className="bible-entry-actions">
+                    {/* Built-in prices come back on reload; set them to 0 instead. */}
+                    {!(model in DEFAULT_PRICES) && (
+                      <button onClick={() => removePrice(model)} aria-label={`Remove ${model}`}>✕</button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <form className="preset-form" onSubmit={addModel}>
+            <input value={newModel} onChange={(e) => setNewModel(e.target.value)} placeholder="Model id" aria-label="Model id" />
+            <div className="bible-entry-actions">
+              <button type="submit" disabled={newModel.trim() === ''}>Add model</button>
+            </div>
+          </form>
+          <div className="drawer-hint">Models missing from the table are counted as free.</div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
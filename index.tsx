@@ -1,735 +1,4389 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo, useReducer, useContext, createContext } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, Chat, GenerateContentResponse } from "@google/genai";
+import {
+  Attachment,
+  BibleEntry,
+  Book,
+  BookChapter,
+  CandidatePlan,
+  CharacterAppearance,
+  ContextSettings,
+  DailyUsage,
+  GenerationSettings,
+  GenerationTab,
+  Illustration,
+  Message,
+  Mood,
+  MoodRun,
+  MoodWeight,
+  Persona,
+  PinnedPassage,
+  StorySession,
+  StorySummary,
+  TaleCandidate,
+  ToolCallRecord,
+  UsageRecord,
+  UsageSettings,
+} from './types';
+import {
+  listSessions,
+  getSession,
+  saveSession,
+  deleteSession,
+  renameSession,
+  listBibleEntries,
+  saveBibleEntry,
+  deleteBibleEntry,
+  listMoods,
+  saveMood,
+  deleteMood,
+  listBooks,
+  saveBook,
+  deleteBook,
+  listMoodRuns,
+  saveMoodRun,
+  deleteMoodRun,
+  listPersonas,
+  savePersona,
+  deletePersona,
+} from './services/storyDb';
+import {
+  BUILT_IN_MOODS,
+  isBlendUsable,
+  parseMoodPack,
+  serializeMoodPack,
+} from './services/moods';
+import { BibleProposal, extractBibleProposals, withBible } from './services/storyBible';
+import {
+  BUILT_IN_PERSONAS,
+  DEFAULT_PERSONA_ID,
+  STORYTELLER_INSTRUCTION,
+  findPersona,
+  loadPersonaId,
+  personaTag,
+  savePersonaId,
+} from './services/personas';
+import { applySampling, loadSettings, resolveModel, saveSettings } from './services/generationSettings';
+import {
+  budgetStatus,
+  describeUsage,
+  formatCost,
+  formatTokens,
+  loadDailyUsage,
+  loadUsageSettings,
+  mergeUsage,
+  recordDailyUsage,
+  saveUsageSettings,
+  sumUsage,
+  toUsageRecord,
+  totalCost,
+  worstStatus,
+} from './services/usage';
+import {
+  getChildren,
+  getPath,
+  getSiblings,
+  getLatestLeaf,
+  initialMessageTree,
+  isFailed,
+  messageTreeReducer,
+  normalizeSession,
+} from './services/storyTree';
+import { frameBatch } from './services/frameBatch';
+import { illustratePassage } from './services/illustrations';
+import { NarrationSegment, splitParagraphs, toSpeechText } from './services/narration';
+import { readAttachments } from './services/attachments';
+import {
+  MAX_TOOL_ROUNDS,
+  branchFacts,
+  runToolCalls,
+  seededRandom,
+  toolCallTurn,
+  toolDeclarations,
+  toolResultTurn,
+} from './services/tools';
+import { loadDraft, loadInputHistory, rememberInput, saveDraft } from './services/composer';
+import {
+  ChatCommandContext,
+  SlashCommandError,
+  isActionCommand,
+  isPromptCommand,
+  parseSlashCommand,
+  suggestSlashCommands,
+} from './services/slashCommands';
+import {
+  createCandidate,
+  describeCandidate,
+  overflowRuns,
+  planInstruction,
+  planSampling,
+  updateCandidate,
+} from './services/moodRuns';
+import {
+  loadContextSettings,
+  prepareContext,
+  saveContextSettings,
+  summaryAppliesTo,
+  toChatHistory,
+  toPromptTurn,
+} from './services/contextManager';
+import {
+  StoryWorkspaceAction,
+  StoryWorkspaceState,
+  buildRewritePrompt,
+  createPin,
+  initStoryWorkspace,
+  savePins,
+  storyWorkspaceReducer,
+} from './services/storyWorkspace';
+import {
+  ADVENTURE_INSTRUCTION,
+  ADVENTURE_SCHEMA,
+  latestAdventureState,
+  parseAdventureTurn,
+  streamingPassage,
+  withAdventureState,
+} from './services/adventure';
+import {
+  BOOK_INSTRUCTION,
+  buildChapterPrompt,
+  generateOutline,
+  isWritten,
+  listChapters,
+  nextUnwritten,
+  summarizeChapter,
+  updateChapter,
+} from './services/bookBuilder';
+import StoryLibrary from './components/StoryLibrary';
+import ChatMessage from './components/ChatMessage';
+import MessageList from './components/MessageList';
+import StoryTreeView from './components/StoryTreeView';
+import SettingsPanel from './components/SettingsPanel';
+import BiblePanel from './components/BiblePanel';
+import MoodMixer from './components/MoodMixer';
+import MoodEditor from './components/MoodEditor';
+import GenerationSettingsDrawer from './components/GenerationSettingsDrawer';
+import IllustrationGallery from './components/IllustrationGallery';
+import OutlineEditor from './components/OutlineEditor';
+import AdventurePanel from './components/AdventurePanel';
+import StorySummaryDrawer from './components/StorySummaryDrawer';
+import NarrationBar from './components/NarrationBar';
+import ScratchpadDrawer from './components/ScratchpadDrawer';
+import AttachmentList from './components/AttachmentList';
+import AttachButton from './components/AttachButton';
+import ChatComposer from './components/ChatComposer';
+import PersonaManager from './components/PersonaManager';
+import CandidatePlanner from './components/CandidatePlanner';
+import CandidateCard from './components/CandidateCard';
+import MoodRunHistory from './components/MoodRunHistory';
+import TaleDiffDrawer from './components/TaleDiffDrawer';
+import UsagePanel from './components/UsagePanel';
+import BudgetNotice from './components/BudgetNotice';
+import Markdown from './components/Markdown';
+import ExportMenu from './components/ExportMenu';
+import {
+  ChatExportScope,
+  ExportFormat,
+  buildBookDocument,
+  buildChatDocument,
+  buildPassageDocument,
+  createBookSession,
+  createPassageSession,
+  downloadBlob,
+  downloadDocument,
+  downloadSession,
+  parseSessionExport,
+} from './services/storyExport';
+import {
+  ProviderId,
+  StoryProvider,
+  TokenUsage,
+  ToolCall,
+  ToolResult,
+  classifyError,
+  describeError,
+  describeRetry,
+  detectProviderId,
+  getInitialProviderId,
+  providers,
+  saveProviderId,
+  streamWithRetry,
+} from './services/providers';
 
-// Ensure process.env.API_KEY is available in the environment where this code runs.
-declare var process: {
-  env: {
-    API_KEY: string;
+const titleFromText = (text: string) => {
+  const flat = text.trim().replace(/\s+/g, ' ') || 'Untitled story';
+  return flat.length > 40 ? `${flat.slice(0, 40)}…` : flat;
+};
+
+const titleFromMessages = (messages: Message[]) =>
+  titleFromText(messages.find((msg) => msg.sender === 'user')?.text ?? '');
+
+// Generation settings for one tab, remembered across visits.
+const useGenerationSettings = (tab: GenerationTab) => {
+  const [settings, setSettings] = useState<GenerationSettings>(() => loadSettings(tab));
+  const updateSettings = useCallback((next: GenerationSettings) => {
+    setSettings(next);
+    saveSettings(tab, next);
+  }, [tab]);
+  return [settings, updateSettings] as const;
+};
+
+// Files attached to the prompt being written, from the picker, a drop or a paste.
+// Files that fail the size and type checks are reported before anything is sent.
+const useAttachments = () => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [error, setError] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+
+  const add = async (files: File[]) => {
+    if (files.length === 0) return;
+    const result = await readAttachments(files, attachments);
+    setAttachments((prev) => [...prev, ...result.attachments]);
+    setError(result.errors.join(' '));
+  };
+
+  const remove = (id: string) => setAttachments((prev) => prev.filter((attachment) => attachment.id !== id));
+
+  const clear = () => {
+    setAttachments([]);
+    setError('');
+  };
+
+  // Spread onto the element that takes dropped and pasted files.
+  const dropTarget = {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes('Files')) return;
+      e.preventDefault();
+      setIsDragging(true);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      setIsDragging(false);
+      if (e.dataTransfer.files.length === 0) return;
+      e.preventDefault();
+      add(Array.from(e.dataTransfer.files));
+    },
+    onPaste: (e: React.ClipboardEvent) => {
+      const files = Array.from(e.clipboardData.files) as File[];
+      if (files.length === 0) return; // Plain text pastes as usual
+      e.preventDefault();
+      add(files);
+    },
   };
+
+  return { attachments, error, isDragging, add, remove, clear, dropTarget };
 };
 
-// Helper function to markdown to JSX (simplified for this example)
-const renderMarkdown = (markdown: string) => {
-  if (!markdown) return null;
-  // Basic markdown to JSX conversion for bold, italics, links, and paragraphs
-  let html = markdown
-    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') // Bold
-    .replace(/\*(.*?)\*/g, '<em>$1</em>') // Italic
-    .replace(/\[(.*?)\]\((.*?)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>') // Links
-    .replace(/\n/g, '<br />'); // Newlines to <br>
-  return <div dangerouslySetInnerHTML={{ __html: html }} />;
+// Today's spend and the budgets, shared by every tab.
+interface UsageTracker {
+  settings: UsageSettings;
+  today: DailyUsage;
+  record: (record: UsageRecord) => void;
+}
+
+interface TabProps {
+  provider: StoryProvider;
+  bible: BibleEntry[];
+  usage: UsageTracker;
+}
+
+// The scratchpad and hand-offs between tabs, shared through context so any tab
+// can pin a passage or pass one on.
+interface StoryWorkspace {
+  state: StoryWorkspaceState;
+  dispatch: (action: StoryWorkspaceAction) => void;
+}
+
+const StoryWorkspaceContext = createContext<StoryWorkspace | null>(null);
+
+const useStoryWorkspace = (): StoryWorkspace => {
+  const workspace = useContext(StoryWorkspaceContext);
+  if (!workspace) throw new Error('useStoryWorkspace must be used inside StoryWorkspaceContext.');
+  return workspace;
 };
 
-interface Message {
-  text: string;
-  sender: 'user' | 'model';
+// A new chat story that opens with `text` as the storyteller's reply to `prompt`.
+const openingSession = (
+  provider: StoryProvider,
+  title: string,
+  prompt: string,
+  text: string,
+  extras: { attachments?: Attachment[]; illustrations?: Illustration[]; characterSheet?: CharacterAppearance[] } = {},
+) =>
+  createPassageSession({
+    title,
+    prompt,
+    text,
+    model: provider.defaultModels.chat,
+    providerId: provider.id,
+    systemInstruction: STORYTELLER_INSTRUCTION,
+    ...extras,
+  });
+
+
+interface ChatComponentProps extends TabProps {
+  onBibleProposals: (proposals: BibleProposal[]) => void;
 }
 
-const ChatComponent: React.FC = () => {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [input, setInput] = useState('');
+const ChatComponent: React.FC<ChatComponentProps> = ({ provider, bible, usage, onBibleProposals }) => {
+  const [{ nodes, activeLeafId }, dispatchMessages] = useReducer(messageTreeReducer, initialMessageTree);
+  const [input, setInput] = useState(loadDraft);
+  const [inputHistory, setInputHistory] = useState<string[]>(loadInputHistory);
+  const [commandError, setCommandError] = useState('');
+  const [customMoods, setCustomMoods] = useState<Mood[]>([]);
+  const [customPersonas, setCustomPersonas] = useState<Persona[]>([]);
+  const [personaId, setPersonaId] = useState(loadPersonaId); // The storyteller of the story on screen
+  const [showPersonas, setShowPersonas] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const chatRef = useRef<Chat | null>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [showTree, setShowTree] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [sessions, setSessions] = useState<StorySession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [generationSettings, setGenerationSettings] = useGenerationSettings('chat');
+  const [showGenerationSettings, setShowGenerationSettings] = useState(false);
+  const [retryNotice, setRetryNotice] = useState('');
+  const [illustratingId, setIllustratingId] = useState<string | null>(null);
+  const [showGallery, setShowGallery] = useState(false);
+  const [narration, setNarration] = useState<{ startId?: string; openedAt: number } | null>(null);
+  const [narratingId, setNarratingId] = useState<string | null>(null);
+  const [adventureMode, setAdventureMode] = useState(false);
+  const [storySummary, setStorySummary] = useState<StorySummary | undefined>(undefined);
+  const [overheadUsage, setOverheadUsage] = useState<UsageRecord[]>([]); // Summaries and other calls besides replies
+  const [contextSettings, setContextSettings] = useState<ContextSettings>(loadContextSettings);
+  const [contextTokens, setContextTokens] = useState<number | null>(null);
+  const [isCompacting, setIsCompacting] = useState(false);
+  const [showSummary, setShowSummary] = useState(false);
+  const { state: workspace, dispatch } = useStoryWorkspace();
+  const pending = useAttachments();
+  const sessionRef = useRef<StorySession | null>(null); // Metadata of the story on screen
+  const isDirtyRef = useRef(false); // Set when the tree or the selected branch needs saving
+  const abortRef = useRef<AbortController | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const messages = useMemo(() => getPath(nodes, activeLeafId), [nodes, activeLeafId]);
+  const personas = useMemo(() => [...BUILT_IN_PERSONAS, ...customPersonas], [customPersonas]);
+  const persona = findPersona(personaId, personas);
 
-  const initializeChat = useCallback(async () => {
+  // Every branch counts towards the story's spend, not just the one on screen.
+  const sessionUsage = useMemo(() => {
+    const records = [...nodes.flatMap((node) => (node.usage ? [node.usage] : [])), ...overheadUsage];
+    return { ...sumUsage(records), cost: totalCost(records, usage.settings.prices) };
+  }, [nodes, overheadUsage, usage.settings.prices]);
+  const budget = worstStatus(
+    budgetStatus(sessionUsage.cost, usage.settings.sessionBudget),
+    budgetStatus(usage.today.cost, usage.settings.dailyBudget),
+  );
+
+  const refreshSessions = useCallback(async () => {
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      chatRef.current = ai.chats.create({
-        model: 'gemini-3-pro-preview', // Complex text tasks
-        config: {
-          systemInstruction: 'You are a friendly and engaging storyteller. You focus on crafting imaginative narratives and encouraging the user to explore story possibilities.',
-        },
-      });
+      setSessions(await listSessions());
     } catch (error) {
-      console.error("Failed to initialize chat:", error);
-      setMessages((prev) => [
-        ...prev,
-        { text: "Error initializing chat. Please try again.", sender: "model" },
-      ]);
+      console.error('Failed to load story library:', error);
     }
   }, []);
 
   useEffect(() => {
-    initializeChat();
-  }, [initializeChat]);
+    refreshSessions();
+  }, [refreshSessions]);
 
+  // The mood names /mood completes.
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    listMoods()
+      .then(setCustomMoods)
+      .catch((err) => console.error('Failed to load custom moods:', err));
+  }, []);
 
-  const sendMessage = async () => {
-    if (input.trim() === '' || isLoading) return;
+  useEffect(() => {
+    listPersonas()
+      .then(setCustomPersonas)
+      .catch((err) => console.error('Failed to load personas:', err));
+  }, []);
 
-    const userMessage: Message = { text: input, sender: 'user' };
-    setMessages((prev) => [...prev, userMessage]);
+  // The unsent draft survives a reload; saved once typing pauses.
+  useEffect(() => {
+    const timer = setTimeout(() => saveDraft(input), 400);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const persistSession = useCallback(async (tree: Message[], leafId: string | null) => {
+    const now = Date.now();
+    const session: StorySession = sessionRef.current
+      ? { ...sessionRef.current, messages: tree, activeLeafId: leafId, updatedAt: now }
+      : {
+          id: crypto.randomUUID(),
+          title: titleFromMessages(tree),
+          model: provider.defaultModels.chat,
+          providerId: provider.id,
+          systemInstruction: persona.instruction,
+          personaId: persona.id,
+          messages: tree,
+          activeLeafId: leafId,
+          ...(adventureMode && { adventure: true }),
+          createdAt: now,
+          updatedAt: now,
+        };
+    sessionRef.current = session;
+    setActiveSessionId(session.id);
+    try {
+      await saveSession(session);
+      await refreshSessions();
+    } catch (error) {
+      console.error('Failed to save story:', error);
+    }
+  }, [provider, refreshSessions, adventureMode, persona]);
+
+  // Save once a turn has finished streaming or the reader has switched branches.
+  useEffect(() => {
+    if (isLoading || !isDirtyRef.current || nodes.length === 0) return;
+    isDirtyRef.current = false;
+    persistSession(nodes, activeLeafId);
+  }, [nodes, activeLeafId, overheadUsage, isLoading, persistSession]);
+
+  const startNewStory = () => {
+    sessionRef.current = null;
+    isDirtyRef.current = false;
+    setActiveSessionId(null);
+    setStorySummary(undefined);
+    setOverheadUsage([]);
+    setContextTokens(null);
+    dispatchMessages({ type: 'load', nodes: [], activeLeafId: null });
+    setPersonaId(loadPersonaId());
     setInput('');
-    setIsLoading(true);
+  };
 
+  const openStory = async (id: string) => {
     try {
-      if (!chatRef.current) {
-        await initializeChat(); // Re-initialize if chatRef is null
-        if (!chatRef.current) throw new Error("Chat not initialized.");
+      const stored = await getSession(id);
+      if (!stored) throw new Error('Story not found.');
+      const session = normalizeSession(stored);
+      sessionRef.current = session;
+      isDirtyRef.current = false;
+      setActiveSessionId(session.id);
+      dispatchMessages({ type: 'load', nodes: session.messages, activeLeafId: session.activeLeafId });
+      setAdventureMode(Boolean(session.adventure));
+      setPersonaId(session.personaId ?? DEFAULT_PERSONA_ID); // Stories from before personas had the default storyteller
+      setStorySummary(session.summary);
+      setOverheadUsage(session.overheadUsage ?? []);
+      setContextTokens(null);
+    } catch (error) {
+      console.error('Failed to open story:', error);
+      await refreshSessions();
+    }
+  };
+
+  // A passage sent from another tab opens as a new story once this one is idle.
+  useEffect(() => {
+    const handoff = workspace.handoff;
+    if (handoff?.target !== 'chat' || isLoading) return;
+    dispatch({ type: 'take-handoff', id: handoff.id });
+    (async () => {
+      try {
+        await saveSession(handoff.session);
+        await refreshSessions();
+        await openStory(handoff.session.id);
+      } catch (error) {
+        console.error('Failed to open passage in chat:', error);
+        window.alert(`Could not open the passage in the chat: ${error instanceof Error ? error.message : String(error)}`);
       }
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const currentChat = ai.chats.create({ // Re-create chat to ensure latest API key is used
-        model: 'gemini-3-pro-preview',
-        config: chatRef.current.config, // Maintain previous config
-        history: chatRef.current.history, // Maintain previous history
-      });
-      chatRef.current = currentChat;
-
-      const streamResponse = await currentChat.sendMessageStream({ message: input });
-      let fullResponseText = '';
-      for await (const chunk of streamResponse) {
-        const c = chunk as GenerateContentResponse;
-        if (c.text) {
-          fullResponseText += c.text;
-          setMessages((prev) => {
-            const lastMessage = prev[prev.length - 1];
-            if (lastMessage && lastMessage.sender === 'model' && lastMessage.text === '') {
-              // Update existing partial message
-              return [...prev.slice(0, -1), { ...lastMessage, text: fullResponseText }];
-            } else {
-              // Add a new message if it's the first chunk or previous was complete
-              return [...prev, { text: fullResponseText, sender: 'model' }];
-            }
-          });
-        }
+    })();
+  }, [workspace.handoff, isLoading]);
+
+  const renameStory = async (id: string, title: string) => {
+    try {
+      await renameSession(id, title);
+      if (sessionRef.current?.id === id) {
+        sessionRef.current = { ...sessionRef.current, title };
       }
-      setMessages((prev) => {
-        // Ensure the last message is the complete one
-        const lastMessage = prev[prev.length - 1];
-        if (lastMessage && lastMessage.sender === 'model') {
-          return [...prev.slice(0, -1), { ...lastMessage, text: fullResponseText }];
+      await refreshSessions();
+    } catch (error) {
+      console.error('Failed to rename story:', error);
+    }
+  };
+
+  const deleteStory = async (id: string) => {
+    try {
+      await deleteSession(id);
+      if (sessionRef.current?.id === id) startNewStory();
+      await refreshSessions();
+    } catch (error) {
+      console.error('Failed to delete story:', error);
+    }
+  };
+
+  // A model picked in the generation settings wins, then the persona's own; otherwise
+  // keep the story's model unless it was written with a different provider.
+  const storyModel = () => {
+    const session = sessionRef.current;
+    const storyDefault = session?.providerId === provider.id ? session.model : provider.defaultModels.chat;
+    return resolveModel(generationSettings, provider, resolveModel(persona, provider, storyDefault));
+  };
+
+  const storyInstruction = () => {
+    const base = persona.instruction;
+    return withBible(adventureMode ? `${base}\n\n${ADVENTURE_INSTRUCTION}` : base, bible);
+  };
+
+  // Summaries, pictures and narration count against the story's and today's
+  // budgets like replies do; they are kept with the story rather than a message.
+  const recordOverhead = (record: UsageRecord) => {
+    usage.record(record);
+    const overhead = [...(sessionRef.current?.overheadUsage ?? []), record];
+    if (sessionRef.current) {
+      sessionRef.current = { ...sessionRef.current, overheadUsage: overhead };
+      isDirtyRef.current = true;
+    }
+    setOverheadUsage(overhead);
+  };
+
+  // Fits the branch into the context limit, folding older turns into the story's
+  // summary when needed. A summary that fails never blocks the turn; the full
+  // history is sent instead.
+  const fitContext = async (branch: Message[], message: string, compact: 'auto' | 'now', signal?: AbortSignal) => {
+    const request = {
+      provider,
+      model: storyModel(),
+      systemInstruction: storyInstruction(),
+      branch,
+      message,
+      summary: sessionRef.current?.summary,
+      settings: contextSettings,
+      signal,
+    };
+    let context;
+    try {
+      context = await prepareContext({ ...request, compact, onCompact: () => setIsCompacting(true) });
+    } catch (error) {
+      if (signal?.aborted || compact === 'now') throw error;
+      console.error('Failed to summarise story:', error);
+      context = await prepareContext({ ...request, compact: 'never' });
+    } finally {
+      setIsCompacting(false);
+    }
+    setContextTokens(context.tokens);
+    if (context.usage) recordOverhead(context.usage);
+    if (context.compacted && sessionRef.current) {
+      sessionRef.current = { ...sessionRef.current, summary: context.summary };
+      setStorySummary(context.summary);
+    }
+    return context;
+  };
+
+  const compactNow = async () => {
+    if (isLoading || isCompacting || budget === 'blocked' || !sessionRef.current) return;
+    try {
+      const context = await fitContext(messages, '', 'now');
+      if (context.compacted) persistSession(nodes, activeLeafId);
+      else window.alert('This story is still short enough to send in full.');
+    } catch (error) {
+      console.error('Failed to summarise story:', error);
+      window.alert(`Could not summarise the story: ${describeError(classifyError(error))}`);
+    }
+  };
+
+  const saveSummary = (text: string) => {
+    if (!sessionRef.current || !storySummary) return;
+    const summary = { ...storySummary, text, updatedAt: Date.now() };
+    sessionRef.current = { ...sessionRef.current, summary };
+    setStorySummary(summary);
+    persistSession(nodes, activeLeafId);
+  };
+
+  const changeContextSettings = (settings: ContextSettings) => {
+    saveContextSettings(settings);
+    setContextSettings(settings);
+  };
+
+  // Streams a storyteller reply to `userMessage` as a new child of it. The chat is
+  // rebuilt from the branch leading up to the user turn, so the model only ever sees
+  // the story that is on screen. When the model calls tools they run here, and their
+  // results go back to it until it finishes the reply; later turns only see the prose.
+  const runTurn = async (userMessage: Message, branch: Message[]) => {
+    const replyId = crypto.randomUUID();
+    const reply: Message = {
+      id: replyId,
+      parentId: userMessage.id,
+      text: '',
+      sender: 'model',
+      persona: personaTag(persona),
+      createdAt: Date.now(),
+    };
+    dispatchMessages({ type: 'start-reply', reply });
+    setIsLoading(true);
+    isDirtyRef.current = true;
+
+    const session = sessionRef.current;
+    const model = storyModel();
+    if (session) {
+      sessionRef.current = { ...session, model, providerId: provider.id, personaId: persona.id, systemInstruction: persona.instruction };
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    // In an adventure the game state so far travels with the player's action.
+    const previousState = adventureMode ? latestAdventureState(branch) : undefined;
+    const message = adventureMode ? withAdventureState(userMessage.text, previousState) : userMessage.text;
+    // Adventure replies arrive as JSON; only the passage is shown while they stream.
+    const visibleText = (text: string) => (adventureMode ? streamingPassage(text) : text);
+    // Chunks can arrive far faster than the screen redraws; show at most one update a frame.
+    const frames = frameBatch((text: string) => dispatchMessages({ type: 'stream', id: replyId, text }));
+    let systemInstruction = storyInstruction();
+    let history = toChatHistory(branch);
+    let fullResponseText = '';
+    let reported: TokenUsage | undefined;
+    let failed = false;
+    const sampling = applySampling(persona.sampling, generationSettings);
+    // Adventure replies are JSON, which the model cannot write alongside tool calls.
+    const tools = adventureMode ? undefined : toolDeclarations();
+    const toolCalls: ToolCallRecord[] = [];
+    const facts = branchFacts(branch);
+    try {
+      ({ systemInstruction, history } = await fitContext(branch, message, 'auto', controller.signal));
+      let turns = history;
+      let prompt = toPromptTurn({ ...userMessage, text: message });
+      let toolResults: ToolResult[] | undefined;
+      for (let round = 0; ; round++) {
+        const stream = streamWithRetry(
+          () => provider.streamChat({
+            model,
+            systemInstruction,
+            history: turns,
+            message: toolResults ? '' : message,
+            attachments: toolResults ? undefined : userMessage.attachments,
+            toolResults,
+            tools,
+            sampling,
+            responseSchema: adventureMode ? ADVENTURE_SCHEMA : undefined,
+            signal: controller.signal,
+          }),
+          { signal: controller.signal, onRetry: (error, attempt, delayMs) => setRetryNotice(describeRetry(error, attempt, delayMs)) },
+        );
+        const before = fullResponseText;
+        let roundText = '';
+        let roundUsage: TokenUsage | undefined;
+        const calls: ToolCall[] = [];
+        for await (const chunk of stream) {
+          setRetryNotice('');
+          roundText += chunk.text;
+          fullResponseText = [before, roundText].filter(Boolean).join('\n\n');
+          if (chunk.toolCalls) calls.push(...chunk.toolCalls);
+          if (chunk.usage) roundUsage = chunk.usage;
+          frames.push(visibleText(fullResponseText));
+        }
+        if (roundUsage) {
+          reported = {
+            promptTokens: (reported?.promptTokens ?? 0) + roundUsage.promptTokens,
+            outputTokens: (reported?.outputTokens ?? 0) + roundUsage.outputTokens,
+          };
         }
-        return prev;
+        if (calls.length === 0 || round === MAX_TOOL_ROUNDS || controller.signal.aborted) break;
+        // Every reply rolls its own dice, regenerated ones included, unless the
+        // generation settings fix a seed to make them repeatable.
+        const random = seededRandom(
+          sampling.seed !== undefined
+            ? `${sampling.seed}\n${userMessage.text}\n${round}`
+            : `${userMessage.id}\n${replyId}\n${round}`,
+        );
+        const { results, records } = runToolCalls(calls, { random, facts });
+        toolCalls.push(...records);
+        dispatchMessages({ type: 'update', id: replyId, changes: { toolCalls: [...toolCalls] } });
+        turns = [...turns, prompt, toolCallTurn(roundText, calls)];
+        prompt = toolResultTurn(results);
+        toolResults = results;
+      }
+      frames.cancel();
+      const turn = adventureMode && !controller.signal.aborted ? parseAdventureTurn(fullResponseText) : null;
+      dispatchMessages({
+        type: 'complete',
+        id: replyId,
+        changes: turn
+          ? { text: turn.passage, adventure: { choices: turn.choices, state: { ...previousState, ...turn.state } } }
+          : { text: visibleText(fullResponseText), ...(controller.signal.aborted && { truncated: true }) },
       });
-
     } catch (error) {
+      frames.cancel();
+      if (controller.signal.aborted) {
+        // Stopped by the reader: keep whatever arrived and flag it as unfinished.
+        dispatchMessages({ type: 'complete', id: replyId, changes: { text: visibleText(fullResponseText), truncated: true } });
+        return;
+      }
+      failed = true;
       console.error('Error sending message:', error);
-      setMessages((prev) => [
-        ...prev,
-        {
-          text: `Error: Failed to get response. ${error instanceof Error ? error.message : String(error)}`,
-          sender: 'model',
-        },
-      ]);
+      const storyError = classifyError(error);
+      dispatchMessages({ type: 'fail', id: replyId, text: describeError(storyError), errorKind: storyError.kind });
     } finally {
+      setRetryNotice('');
+      // A failed request is only counted if the model got far enough to bill it.
+      if (!failed || reported) {
+        const promptText = [systemInstruction, ...history.map((turn) => turn.parts?.[0]?.text ?? ''), message].join('\n');
+        const record = toUsageRecord(model, reported, promptText, fullResponseText);
+        dispatchMessages({ type: 'update', id: replyId, changes: { usage: record } });
+        usage.record(record);
+      }
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      sendMessage();
+  const stopGeneration = () => {
+    abortRef.current?.abort();
+  };
+
+  // Swaps a failed reply for a new attempt at the same user turn, so the turn is
+  // neither duplicated nor left as a dead branch. If the story already went on
+  // from the error bubble, it stays so that branch is not orphaned, and the new
+  // attempt becomes its sibling.
+  const retryTurn = async (failedReply: Message) => {
+    if (isLoading || budget === 'blocked') return;
+    const userMessage = nodes.find((node) => node.id === failedReply.parentId);
+    if (!userMessage) return;
+    if (getChildren(nodes, failedReply.id).length === 0) dispatchMessages({ type: 'remove', id: failedReply.id });
+    await runTurn(userMessage, getPath(nodes, userMessage.parentId));
+  };
+
+  const addUserMessage = (text: string, parentId: string | null, attachments?: Attachment[]): Message => {
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      parentId,
+      text,
+      sender: 'user',
+      ...(attachments?.length && { attachments }),
+      createdAt: Date.now(),
+    };
+    dispatchMessages({ type: 'add', message: userMessage });
+    return userMessage;
+  };
+
+  const changeInput = (text: string) => {
+    setInput(text);
+    setCommandError('');
+  };
+
+  // Steps back to before the reader's last turn and puts its text back in the
+  // composer. The turn and its replies stay in the story tree.
+  const rewind = () => {
+    const lastTurn = [...messages].reverse().find((msg) => msg.sender === 'user');
+    if (!lastTurn) throw new SlashCommandError('There is no turn to rewind yet.');
+    isDirtyRef.current = true;
+    dispatchMessages({ type: 'select', leafId: lastTurn.parentId });
+    setInput(lastTurn.text);
+  };
+
+  const commandContext: ChatCommandContext = {
+    moods: [...BUILT_IN_MOODS, ...customMoods],
+    characters: bible.filter((entry) => entry.active && entry.kind === 'character').map((entry) => entry.name),
+    rewind,
+    summarize: () => {
+      if (!sessionRef.current) throw new SlashCommandError('There is no story to summarise yet.');
+      setShowSummary(true);
+      compactNow();
+    },
+    exportStory: (format) => {
+      if (messages.length === 0) throw new SlashCommandError('There is no story to export yet.');
+      exportStory(format, 'story');
+    },
+  };
+
+  // A slash command either rewrites the text into the turn that is sent, or
+  // does something in the app and sends nothing.
+  const sendMessage = async () => {
+    if ((input.trim() === '' && pending.attachments.length === 0) || isLoading || budget === 'blocked') return;
+    let text = input;
+    try {
+      const parsed = parseSlashCommand(input);
+      if (parsed && isPromptCommand(parsed.command)) {
+        text = parsed.command.prompt(parsed.argument, commandContext);
+      } else if (parsed && isActionCommand(parsed.command)) {
+        // A refused command throws and stays in the composer to be fixed. One that
+        // went through is cleared, unless it filled the composer itself, as /rewind does.
+        parsed.command.action(parsed.argument, commandContext);
+        setInputHistory((history) => rememberInput(history, input));
+        setInput((current) => (current === input ? '' : current));
+        return;
+      }
+    } catch (error) {
+      if (!(error instanceof SlashCommandError)) throw error;
+      setCommandError(error.message);
+      return;
     }
+    setInputHistory((history) => rememberInput(history, input));
+    const userMessage = addUserMessage(text, activeLeafId, pending.attachments);
+    setInput('');
+    pending.clear();
+    await runTurn(userMessage, messages);
   };
 
-  return (
-    <div className="chat-container">
-      <div className="messages">
-        {messages.length === 0 && !isLoading && (
-          <div className="initial-message">Start a story with Gemini 3 Pro!</div>
-        )}
-        {messages.map((msg, index) => (
-          <div key={index} className={`message ${msg.sender}`}>
-            {renderMarkdown(msg.text)}
-          </div>
-        ))}
-        {isLoading && (
-          <div className="message model loading">
-            <span className="dot">.</span><span className="dot">.</span><span className="dot">.</span>
-          </div>
-        )}
-        <div ref={messagesEndRef} />
-      </div>
-      <div className="input-area">
-        <input
-          type="text"
-          value={input}
-          onChange={(e) => setInput(e.target.value)}
-          onKeyPress={handleKeyPress}
-          placeholder="Tell me a story about..."
-          disabled={isLoading}
-          aria-label="Chat input"
-        />
-        <button onClick={sendMessage} disabled={isLoading} aria-label="Send message">
-          Send
-        </button>
-      </div>
-    </div>
-  );
-};
+  // Picking a choice plays it as the player's next action.
+  const chooseAction = async (choice: string) => {
+    if (isLoading || budget === 'blocked') return;
+    const userMessage = addUserMessage(choice, activeLeafId);
+    await runTurn(userMessage, messages);
+  };
 
-const moods = [
-  { value: 'rebellious', label: 'Rebellious' },
-  { value: 'calm', label: 'Calm' },
-  { value: 'adventurous', label: 'Adventurous' },
-  { value: 'mysterious', label: 'Mysterious' },
-  { value: 'joyful', label: 'Joyful' },
-  { value: 'melancholy', label: 'Melancholy' },
-];
+  // The story keeps its history and the next reply is written by the new persona.
+  // The pick is also remembered for new stories.
+  const switchPersona = (id: string) => {
+    if (isLoading || id === persona.id) return;
+    const next = findPersona(id, personas);
+    setPersonaId(next.id);
+    savePersonaId(next.id);
+    if (sessionRef.current) {
+      sessionRef.current = { ...sessionRef.current, personaId: next.id, systemInstruction: next.instruction };
+      persistSession(nodes, activeLeafId);
+    }
+  };
 
-const CreativeGenerator: React.FC = () => {
-  const [prompt, setPrompt] = useState('');
-  const [selectedMood, setSelectedMood] = useState('rebellious');
-  const [generatedText, setGeneratedText] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState('');
+  const saveCustomPersona = async (saved: Persona) => {
+    setCustomPersonas((prev) =>
+      prev.some((item) => item.id === saved.id) ? prev.map((item) => (item.id === saved.id ? saved : item)) : [...prev, saved],
+    );
+    try {
+      await savePersona(saved);
+    } catch (err) {
+      console.error('Failed to save persona:', err);
+    }
+  };
 
-  const generateCreativeContent = async () => {
-    if (prompt.trim() === '' || isLoading) return;
+  // Stories told by a deleted persona carry on with the default storyteller.
+  const removeCustomPersona = async (id: string) => {
+    setCustomPersonas((prev) => prev.filter((item) => item.id !== id));
+    try {
+      await deletePersona(id);
+    } catch (err) {
+      console.error('Failed to delete persona:', err);
+    }
+  };
 
-    setIsLoading(true);
-    setError('');
-    setGeneratedText('');
+  // The mode belongs to the story, so an open story is saved with the change.
+  const toggleAdventureMode = () => {
+    const next = !adventureMode;
+    setAdventureMode(next);
+    if (sessionRef.current) {
+      sessionRef.current = { ...sessionRef.current, adventure: next };
+      persistSession(nodes, activeLeafId);
+    }
+  };
+
+  // Asks for a fresh reply to the same user turn, kept as a sibling of `reply`.
+  const regenerate = async (reply: Message) => {
+    if (isLoading || budget === 'blocked') return;
+    const userMessage = nodes.find((node) => node.id === reply.parentId);
+    if (!userMessage) return;
+    await runTurn(userMessage, getPath(nodes, userMessage.parentId));
+  };
+
+  // Forks the story at `original` with rewritten text, leaving the old branch intact.
+  const editAndResend = async (original: Message, text: string) => {
+    if (isLoading || budget === 'blocked') return;
+    const userMessage = addUserMessage(text, original.parentId, original.attachments);
+    await runTurn(userMessage, getPath(nodes, original.parentId));
+  };
+
+  const selectSibling = (message: Message, offset: number) => {
+    const siblings = getSiblings(nodes, message);
+    const target = siblings[siblings.indexOf(message) + offset];
+    if (!target) return;
+    isDirtyRef.current = true;
+    dispatchMessages({ type: 'select', leafId: getLatestLeaf(nodes, target.id) });
+  };
+
+  const jumpToNode = (nodeId: string) => {
+    isDirtyRef.current = true;
+    dispatchMessages({ type: 'select', leafId: getLatestLeaf(nodes, nodeId) });
+  };
 
+  // Draws the passage and keeps any newly described characters on the story's
+  // character sheet, so later pictures of them match.
+  const illustrate = async (msg: Message) => {
+    if (budget === 'blocked') return;
+    setIllustratingId(msg.id);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const systemInstruction = `You are a creative writer. Generate content in a ${selectedMood} mood. The output should be engaging and reflect the chosen mood.`;
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview', // Fast text tasks, suitable for creative generation
-        contents: prompt,
-        config: {
-          systemInstruction: systemInstruction,
-          temperature: 0.9,
-          topP: 0.95,
-          topK: 64,
-          maxOutputTokens: 500, // Limit output for faster responses
-        },
+      const { illustration, sheet } = await illustratePassage({
+        provider,
+        passage: msg.text,
+        sheet: sessionRef.current?.characterSheet ?? [],
+        bible,
+        onUsage: recordOverhead,
       });
+      if (sessionRef.current) sessionRef.current = { ...sessionRef.current, characterSheet: sheet };
+      isDirtyRef.current = true;
+      dispatchMessages({ type: 'add-illustration', id: msg.id, illustration });
+    } catch (error) {
+      console.error('Failed to illustrate passage:', error);
+      window.alert(`Could not draw this passage: ${describeError(classifyError(error))}`);
+    } finally {
+      setIllustratingId(null);
+    }
+  };
 
-      setGeneratedText(response.text || 'No content generated.');
-    } catch (err) {
-      console.error('Error generating creative content:', err);
-      setError(`Failed to generate content: ${err instanceof Error ? err.message : String(err)}`);
+  // Each reply on the branch is read as its own chapter.
+  const narrationSegments = useMemo<NarrationSegment[]>(
+    () =>
+      messages
+        .filter((msg) => msg.sender === 'model' && !isFailed(msg) && msg.text.trim() !== '')
+        .map((msg, index) => ({ id: msg.id, label: `Chapter ${index + 1}`, text: toSpeechText(msg.text) })),
+    [messages],
+  );
+
+  const galleryItems = useMemo(
+    () => nodes.flatMap((node) => (node.illustrations ?? []).map((illustration) => ({ illustration, messageId: node.id }))),
+    [nodes],
+  );
+
+  const exportStory = (format: ExportFormat, scope: ChatExportScope) => {
+    const session = sessionRef.current;
+    if (format === 'json') {
+      if (session) downloadSession({ ...session, messages: nodes, activeLeafId });
+      return;
+    }
+    downloadDocument(buildChatDocument(session?.title ?? titleFromMessages(nodes), messages, scope), format);
+  };
+
+  const importStory = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file twice
+    if (!file) return;
+    try {
+      const session = parseSessionExport(await file.text());
+      await saveSession(session);
+      await refreshSessions();
+      await openStory(session.id);
+    } catch (error) {
+      console.error('Failed to import story:', error);
+      window.alert(`Could not import story: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const storyTitle = () => sessionRef.current?.title ?? titleFromMessages(nodes);
+
+  // The reader's turn is kept with a pinned reply, so the pin can open a story of its own.
+  const pinMessage = (msg: Message) => {
+    const prompt = nodes.find((node) => node.id === msg.parentId)?.text;
+    dispatch({ type: 'pin', pin: createPin('chat', storyTitle(), msg.text, prompt) });
+  };
+
+  // Asks the model which characters, places and rules the branch on screen has
+  // established, and hands them to the Story Bible for approval.
+  const extractBible = async () => {
+    if (budget === 'blocked') return;
+    setIsExtracting(true);
+    try {
+      const transcript = messages
+        .filter((msg) => !isFailed(msg))
+        .map((msg) => `${msg.sender === 'user' ? 'Reader' : 'Storyteller'}: ${msg.text}`)
+        .join('\n\n');
+      const proposals = await extractBibleProposals(provider, provider.defaultModels.creative, transcript, bible, recordOverhead);
+      if (proposals.length === 0) {
+        window.alert('No new Story Bible entries were found in this story.');
+        return;
+      }
+      onBibleProposals(proposals);
+    } catch (error) {
+      console.error('Failed to extract bible entries:', error);
+      window.alert(`Could not extract entries: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
-      setIsLoading(false);
+      setIsExtracting(false);
     }
   };
 
+  // A summary written on another branch does not describe the one on screen.
+  const activeSummary = summaryAppliesTo(storySummary, messages) ? storySummary : undefined;
+
   return (
-    <div className="creative-generator-container">
-      <div className="input-section">
-        <textarea
-          value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
-          placeholder="Enter your idea for a story, poem, or scene..."
-          rows={5}
-          disabled={isLoading}
-          aria-label="Creative prompt input"
-        />
-        <div className="controls">
-          <label htmlFor="mood-select" className="sr-only">Select Mood:</label>
+    <div className="chat-layout">
+      <StoryLibrary
+        sessions={sessions}
+        activeSessionId={activeSessionId}
+        disabled={isLoading}
+        onOpen={openStory}
+        onNew={startNewStory}
+        onRename={renameStory}
+        onDelete={deleteStory}
+      />
+      <div className={`chat-container${pending.isDragging ? ' drop-active' : ''}`} {...pending.dropTarget}>
+        <div className="chat-toolbar">
+          <button
+            onClick={() => setShowTree((prev) => !prev)}
+            aria-pressed={showTree}
+            aria-label="Toggle story tree"
+          >
+            {showTree ? 'Hide tree' : 'Story tree'}
+          </button>
+          <button onClick={extractBible} disabled={isLoading || isExtracting || messages.length === 0 || budget === 'blocked'}>
+            {isExtracting ? 'Extracting...' : 'Extract to bible'}
+          </button>
+          <button onClick={() => importInputRef.current?.click()} disabled={isLoading}>
+            Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={importStory}
+            hidden
+          />
+          <ExportMenu showScope disabled={isLoading || messages.length === 0} onExport={exportStory} />
           <select
-            id="mood-select"
-            value={selectedMood}
-            onChange={(e) => setSelectedMood(e.target.value)}
+            className="persona-picker"
+            value={persona.id}
+            onChange={(e) => switchPersona(e.target.value)}
             disabled={isLoading}
-            aria-label="Select creative mood"
+            aria-label="Storyteller persona"
           >
-            {moods.map((mood) => (
-              <option key={mood.value} value={mood.value}>
-                {mood.label}
-              </option>
+            {personas.map((item) => (
+              <option key={item.id} value={item.id}>{item.avatar} {item.name}</option>
             ))}
           </select>
-          <button onClick={generateCreativeContent} disabled={isLoading} aria-label="Generate creative content">
-            Generate
+          <button onClick={() => setShowPersonas(true)}>Personas</button>
+          <button onClick={toggleAdventureMode} aria-pressed={adventureMode} disabled={isLoading}>
+            🧭 Adventure
+          </button>
+          <button onClick={() => setShowGallery(true)}>Gallery ({galleryItems.length})</button>
+          <button onClick={() => setNarration({ openedAt: Date.now() })} disabled={narrationSegments.length === 0}>
+            🔊 Read aloud
           </button>
+          <button onClick={() => setShowGenerationSettings(true)}>
+            Generation{generationSettings.preset ? `: ${generationSettings.preset.name}` : ''}
+          </button>
+          <button
+            onClick={() => setShowSummary(true)}
+            title={contextTokens === null ? undefined : `The last request used ${contextTokens} of ${contextSettings.tokenLimit} context tokens`}
+          >
+            📜 Story so far
+            {contextTokens !== null && ` · ${formatTokens(contextTokens)}/${formatTokens(contextSettings.tokenLimit)}`}
+          </button>
+          <span
+            className={`usage-summary budget-${budget}`}
+            title={`${sessionUsage.promptTokens} prompt and ${sessionUsage.outputTokens} output tokens in this story`}
+          >
+            {formatTokens(sessionUsage.promptTokens + sessionUsage.outputTokens)} tokens · {formatCost(sessionUsage.cost)}
+          </span>
         </div>
-      </div>
-      <div className="output-section">
-        {isLoading && (
-          <div className="loading-indicator">
-            <span className="dot">.</span><span className="dot">.</span><span className="dot">.</span> Generating...
-          </div>
+        {showTree && (
+          <StoryTreeView
+            nodes={nodes}
+            activePathIds={new Set(messages.map((msg) => msg.id))}
+            disabled={isLoading}
+            onSelect={jumpToNode}
+            onClose={() => setShowTree(false)}
+          />
         )}
-        {error && <div className="error-message" role="alert">{error}</div>}
-        {!isLoading && generatedText && (
-          <div className="generated-content">
-            <h3>Your Tale:</h3>
-            {renderMarkdown(generatedText)}
-          </div>
+        {showPersonas && (
+          <PersonaManager
+            personas={personas}
+            activeId={persona.id}
+            provider={provider}
+            disabled={isLoading}
+            onSave={saveCustomPersona}
+            onDelete={removeCustomPersona}
+            onSelect={switchPersona}
+            onClose={() => setShowPersonas(false)}
+          />
         )}
-        {!isLoading && !generatedText && !error && (
-            <div className="placeholder-message">Your generated story will appear here.</div>
+        {showGenerationSettings && (
+          <GenerationSettingsDrawer
+            tab="chat"
+            provider={provider}
+            settings={generationSettings}
+            onChange={setGenerationSettings}
+            onClose={() => setShowGenerationSettings(false)}
+          />
+        )}
+        {showSummary && (
+          <StorySummaryDrawer
+            summary={activeSummary}
+            settings={contextSettings}
+            tokens={contextTokens}
+            isCompacting={isCompacting}
+            disabled={isLoading || messages.length === 0}
+            onSaveSummary={saveSummary}
+            onChangeSettings={changeContextSettings}
+            onCompactNow={compactNow}
+            onClose={() => setShowSummary(false)}
+          />
+        )}
+        {showGallery && (
+          <IllustrationGallery
+            items={galleryItems}
+            characters={sessionRef.current?.characterSheet ?? []}
+            onShow={(messageId) => {
+              jumpToNode(messageId);
+              setShowGallery(false);
+            }}
+            onClose={() => setShowGallery(false)}
+          />
+        )}
+        <MessageList
+          messages={messages}
+          empty={!isLoading && <div className="initial-message">Start a story with {provider.label}!</div>}
+          renderMessage={(msg) => {
+            const siblings = getSiblings(nodes, msg);
+            return (
+              <>
+                <ChatMessage
+                  message={msg}
+                  siblingIndex={siblings.indexOf(msg)}
+                  siblingCount={siblings.length}
+                  isIllustrating={msg.id === illustratingId}
+                  isNarrating={msg.id === narratingId}
+                  usageLabel={msg.usage && describeUsage(msg.usage, usage.settings.prices)}
+                  disabled={isLoading || budget === 'blocked'}
+                  onSelectSibling={(offset) => selectSibling(msg, offset)}
+                  onRegenerate={() => regenerate(msg)}
+                  onRetry={() => retryTurn(msg)}
+                  onEdit={(text) => editAndResend(msg, text)}
+                  onIllustrate={() => illustrate(msg)}
+                  onReadAloud={() => setNarration({ startId: msg.id, openedAt: Date.now() })}
+                  onPin={() => pinMessage(msg)}
+                  onRewriteInMood={() => dispatch({ type: 'send-to-mood-weaver', title: storyTitle(), text: msg.text })}
+                  onChoose={msg.id === activeLeafId ? chooseAction : undefined}
+                />
+                {msg.id === activeSummary?.throughId && (
+                  <div className="summary-divider" role="note">
+                    <button onClick={() => setShowSummary(true)}>Turns above are sent to the storyteller as the story so far</button>
+                  </div>
+                )}
+              </>
+            );
+          }}
+        />
+        {narration && (
+          <NarrationBar
+            key={narration.openedAt}
+            provider={provider}
+            title={storyTitle()}
+            segments={narrationSegments}
+            startId={narration.startId}
+            blocked={budget === 'blocked'}
+            onUsage={recordOverhead}
+            onActiveChange={setNarratingId}
+            onClose={() => setNarration(null)}
+          />
+        )}
+        {isCompacting && (
+          <div className="retry-notice" role="status">Summarising earlier turns to keep the story within its context limit...</div>
         )}
+        {retryNotice && <div className="retry-notice" role="status">{retryNotice}</div>}
+        <BudgetNotice status={budget} />
+        {pending.error && <div className="attachment-error" role="alert">{pending.error}</div>}
+        {pending.attachments.length > 0 && <AttachmentList attachments={pending.attachments} onRemove={pending.remove} />}
+        {commandError && <div className="attachment-error" role="alert">{commandError}</div>}
+        <div className="input-area">
+          <AttachButton disabled={isLoading || budget === 'blocked'} onFiles={pending.add} />
+          <ChatComposer
+            value={input}
+            placeholder={adventureMode ? 'Pick a choice, or type your own action...' : 'Tell me a story about... (type / for commands)'}
+            disabled={isLoading || budget === 'blocked'}
+            history={inputHistory}
+            suggestions={suggestSlashCommands(input, commandContext)}
+            onChange={changeInput}
+            onSubmit={sendMessage}
+          />
+          {isLoading ? (
+            <button className="stop-button" onClick={stopGeneration} aria-label="Stop generating">
+              Stop
+            </button>
+          ) : (
+            <button onClick={sendMessage} disabled={budget === 'blocked'} aria-label="Send message">
+              Send
+            </button>
+          )}
+        </div>
       </div>
+      {adventureMode && <AdventurePanel state={latestAdventureState(messages)} />}
     </div>
   );
 };
 
+const CreativeGenerator: React.FC<TabProps> = ({ provider, bible, usage }) => {
+  const [prompt, setPrompt] = useState('');
+  const [customMoods, setCustomMoods] = useState<Mood[]>([]);
+  const [moodBlend, setMoodBlend] = useState<MoodWeight[]>([{ moodId: 'rebellious', weight: 100 }]);
+  const [showMoodEditor, setShowMoodEditor] = useState(false);
+  const [generationSettings, setGenerationSettings] = useGenerationSettings('mood-weaver');
+  const [showGenerationSettings, setShowGenerationSettings] = useState(false);
+  const [candidatePlans, setCandidatePlans] = useState<CandidatePlan[]>([{}]);
+  const [run, setRun] = useState<MoodRun | null>(null); // The run on screen, possibly still being written
+  const [selectedId, setSelectedId] = useState<string | null>(null); // The candidate the tale actions work on
+  const [runs, setRuns] = useState<MoodRun[]>([]); // Finished runs, newest first
+  const [showHistory, setShowHistory] = useState(false);
+  const [diffIds, setDiffIds] = useState<[string, string] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [rewriteSource, setRewriteSource] = useState<{ title: string; text: string } | null>(null); // A passage to rewrite instead of an idea
+  const [retryNotice, setRetryNotice] = useState('');
+  const [isIllustrating, setIsIllustrating] = useState(false);
+  const [isNarrating, setIsNarrating] = useState(false);
+  const [narratingId, setNarratingId] = useState<string | null>(null);
+  const { state: workspace, dispatch } = useStoryWorkspace();
+  const pending = useAttachments();
+  const abortRef = useRef<AbortController | null>(null);
 
-const StoriesInTheSky: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'chat' | 'mood-weaver'>('chat');
+  const moods = useMemo(() => [...BUILT_IN_MOODS, ...customMoods], [customMoods]);
+  // A new run only answers to the daily budget; pictures and narration of the
+  // run on screen answer to the per-story budget as well.
+  const dailyBudget = budgetStatus(usage.today.cost, usage.settings.dailyBudget);
+  const runCost = useMemo(() => {
+    const records = [...(run?.candidates.flatMap((candidate) => (candidate.usage ? [candidate.usage] : [])) ?? []), ...(run?.overheadUsage ?? [])];
+    return totalCost(records, usage.settings.prices);
+  }, [run, usage.settings.prices]);
+  const budget = worstStatus(budgetStatus(runCost, usage.settings.sessionBudget), dailyBudget);
+  const runRef = useRef(run); // Latest run, so usage recorded mid-call lands on it
+  runRef.current = run;
+  const selected = run?.candidates.find((candidate) => candidate.id === selectedId) ?? run?.candidates[0];
+  const generatedText = selected?.text ?? '';
 
-  return (
-    <div className="stories-in-the-sky">
-      <header className="app-header">
-        <h1>Stories in the Sky</h1>
-        <nav className="tabs" role="tablist">
-          <button
-            className={activeTab === 'chat' ? 'active' : ''}
-            onClick={() => setActiveTab('chat')}
-            role="tab"
-            aria-selected={activeTab === 'chat'}
-            aria-controls="chat-panel"
-            id="chat-tab"
-          >
-            Storyteller Chat
-          </button>
-          <button
-            className={activeTab === 'mood-weaver' ? 'active' : ''}
-            onClick={() => setActiveTab('mood-weaver')}
-            role="tab"
-            aria-selected={activeTab === 'mood-weaver'}
-            aria-controls="mood-weaver-panel"
-            id="mood-weaver-tab"
-          >
-            Mood Weaver
-          </button>
-        </nav>
-      </header>
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-      <main className="tab-content">
-        <div
-          id="chat-panel"
-          role="tabpanel"
-          aria-labelledby="chat-tab"
-          hidden={activeTab !== 'chat'}
-          className="panel"
-        >
-          <ChatComponent />
-        </div>
-        <div
-          id="mood-weaver-panel"
-          role="tabpanel"
-          aria-labelledby="mood-weaver-tab"
-          hidden={activeTab !== 'mood-weaver'}
-          className="panel"
-        >
-          <CreativeGenerator />
-        </div>
-      </main>
+  useEffect(() => {
+    const handoff = workspace.handoff;
+    if (handoff?.target !== 'mood-weaver') return;
+    dispatch({ type: 'take-handoff', id: handoff.id });
+    setRewriteSource({ title: handoff.title, text: handoff.text });
+  }, [workspace.handoff]);
 
-      {/* Global Styles */}
-      <style jsx global>{`
-        :root {
-          --bg-color: #0d1117;
-          --text-color: #c9d1d9;
-          --primary-color: #58a6ff;
-          --secondary-color: #8b949e;
-          --border-color: #30363d;
-          --chat-user-bg: #21262d;
-          --chat-model-bg: #161b22;
-          --button-hover-bg: #1f6feb;
-          --active-tab-bg: #161b22;
-        }
+  useEffect(() => {
+    listMoods()
+      .then(setCustomMoods)
+      .catch((err) => console.error('Failed to load custom moods:', err));
+  }, []);
 
-        body {
-          margin: 0;
-          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
-          background-color: var(--bg-color);
-          color: var(--text-color);
-          display: flex;
-          justify-content: center;
+  // Runs past the history limit are dropped as the history loads.
+  useEffect(() => {
+    listMoodRuns()
+      .then(async (stored) => {
+        const dropped = overflowRuns(stored);
+        setRuns(stored.filter((item) => !dropped.includes(item)));
+        for (const item of dropped) await deleteMoodRun(item.id);
+      })
+      .catch((err) => console.error('Failed to load run history:', err));
+  }, []);
+
+  // Shows `next` if it is the run on screen, and keeps it in the history.
+  const keepRun = async (next: MoodRun) => {
+    setRun((prev) => (prev?.id === next.id ? next : prev));
+    setRuns((prev) => {
+      const list = prev.some((item) => item.id === next.id) ? prev.map((item) => (item.id === next.id ? next : item)) : [next, ...prev];
+      const dropped = overflowRuns(list);
+      return list.filter((item) => !dropped.includes(item));
+    });
+    try {
+      await saveMoodRun(next);
+    } catch (err) {
+      console.error('Failed to save run:', err);
+    }
+  };
+
+  const openRun = (next: MoodRun, candidateId: string) => {
+    setRun(next);
+    setSelectedId(candidateId);
+    setIsNarrating(false);
+    setShowHistory(false);
+  };
+
+  const deleteRun = async (id: string) => {
+    setRuns((prev) => prev.filter((item) => item.id !== id));
+    if (run?.id === id) setRun(null);
+    try {
+      await deleteMoodRun(id);
+    } catch (err) {
+      console.error('Failed to delete run:', err);
+    }
+  };
+
+  const selectCandidate = (candidateId: string) => {
+    if (candidateId === selected?.id) return;
+    setSelectedId(candidateId);
+    setIsNarrating(false);
+  };
+
+  const toggleFavourite = (candidate: TaleCandidate) => {
+    if (run) keepRun(updateCandidate(run, candidate.id, { favourite: !candidate.favourite }));
+  };
+
+  // Starts with two candidates of the run on screen, or the selected tale against
+  // the run before it.
+  const compareVersions = () => {
+    const versions = runs.flatMap((item) => item.candidates.filter((candidate) => !candidate.error));
+    if (versions.length < 2) {
+      window.alert('Generate at least two versions to compare them.');
+      return;
+    }
+    const onScreen = runs.find((item) => item.id === run?.id)?.candidates.filter((candidate) => !candidate.error) ?? [];
+    const [before, after] = onScreen.length >= 2 ? onScreen : [versions[1], versions[0]];
+    setDiffIds([before.id, after.id]);
+    setShowHistory(false);
+  };
+
+  const saveCustomMood = async (mood: Mood) => {
+    setCustomMoods((prev) =>
+      prev.some((item) => item.id === mood.id) ? prev.map((item) => (item.id === mood.id ? mood : item)) : [...prev, mood],
+    );
+    try {
+      await saveMood(mood);
+    } catch (err) {
+      console.error('Failed to save mood:', err);
+    }
+  };
+
+  const deleteCustomMood = async (id: string) => {
+    setCustomMoods((prev) => prev.filter((mood) => mood.id !== id));
+    // Drop the mood from the blend, falling back to the first built-in if nothing is left.
+    setMoodBlend((prev) => {
+      const remaining = prev.filter((item) => item.moodId !== id);
+      return remaining.length > 0 ? remaining : [{ moodId: BUILT_IN_MOODS[0].id, weight: 100 }];
+    });
+    try {
+      await deleteMood(id);
+    } catch (err) {
+      console.error('Failed to delete mood:', err);
+    }
+  };
+
+  const exportMoodPack = () => {
+    downloadBlob(new Blob([serializeMoodPack(customMoods)], { type: 'application/json' }), 'moods.json');
+  };
+
+  const importMoodPack = async (file: File) => {
+    try {
+      const imported = parseMoodPack(await file.text());
+      for (const mood of imported) await saveCustomMood(mood);
+    } catch (err) {
+      console.error('Failed to import mood pack:', err);
+      window.alert(`Could not import moods: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // Writes every planned candidate side by side. A candidate that fails shows its
+  // error without stopping the others.
+  const generateCreativeContent = async () => {
+    if ((prompt.trim() === '' && !rewriteSource && pending.attachments.length === 0) || isLoading || !isBlendUsable(moodBlend, moods) || dailyBudget === 'blocked') return;
+
+    setIsLoading(true);
+    setIsNarrating(false);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const model = resolveModel(generationSettings, provider, provider.defaultModels.creative);
+    const request = rewriteSource ? buildRewritePrompt(rewriteSource.text, prompt) : prompt;
+    const attachments = pending.attachments;
+    let next: MoodRun = {
+      id: crypto.randomUUID(),
+      title: rewriteSource ? `${rewriteSource.title} (rewritten)` : titleFromText(prompt),
+      prompt: request,
+      ...(attachments.length > 0 && { attachments }),
+      candidates: candidatePlans.map((plan) => createCandidate(plan, moodBlend, moods)),
+      createdAt: Date.now(),
+    };
+    setRun(next);
+    setSelectedId(next.candidates[0].id);
+
+    const patch = (candidateId: string, changes: Partial<TaleCandidate>) => {
+      next = updateCandidate(next, candidateId, changes);
+      setRun(next);
+    };
+
+    const write = async (candidateId: string, plan: CandidatePlan) => {
+      const systemInstruction = withBible(planInstruction(plan, moodBlend, moods), bible);
+      let text = '';
+      let reported: TokenUsage | undefined;
+      let failed = false;
+      try {
+        const stream = streamWithRetry(
+          () => provider.generateStream({
+            model,
+            prompt: request,
+            attachments,
+            systemInstruction,
+            sampling: planSampling(plan, moodBlend, moods, generationSettings),
+            signal: controller.signal,
+          }),
+          { signal: controller.signal, onRetry: (err, attempt, delayMs) => setRetryNotice(describeRetry(err, attempt, delayMs)) },
+        );
+        for await (const chunk of stream) {
+          setRetryNotice('');
+          text += chunk.text;
+          if (chunk.usage) reported = chunk.usage;
+          patch(candidateId, { text });
+        }
+        if (controller.signal.aborted) patch(candidateId, { truncated: true });
+      } catch (err) {
+        if (controller.signal.aborted) {
+          // Stopped by the reader: the partial text is already on screen.
+          patch(candidateId, { truncated: true });
+          return;
+        }
+        failed = true;
+        console.error('Error generating creative content:', err);
+        patch(candidateId, { text: '', error: describeError(classifyError(err)) });
+      } finally {
+        if (!failed || reported) {
+          const record = toUsageRecord(model, reported, `${systemInstruction}\n${request}`, text);
+          patch(candidateId, { usage: record });
+          usage.record(record);
+        }
+      }
+    };
+
+    try {
+      await Promise.all(candidatePlans.map((plan, index) => write(next.candidates[index].id, plan)));
+    } finally {
+      setRetryNotice('');
+      abortRef.current = null;
+      setIsLoading(false);
+      keepRun(next);
+    }
+  };
+
+  const stopGeneration = () => {
+    abortRef.current?.abort();
+  };
+
+  // The tale is read paragraph by paragraph, so the one being read can be highlighted.
+  const narrationSegments = useMemo<NarrationSegment[]>(
+    () =>
+      splitParagraphs(generatedText).map((paragraph, index) => ({ id: `part-${index}`, label: `Part ${index + 1}`, text: toSpeechText(paragraph) })),
+    [generatedText],
+  );
+  const narratingPart = narratingId ? Number(narratingId.slice('part-'.length)) : null;
+
+  // Counts a picture or narration call against today and the run on screen.
+  const recordRunOverhead = (record: UsageRecord) => {
+    usage.record(record);
+    const current = runRef.current;
+    if (!current) return;
+    const next = { ...current, overheadUsage: [...(current.overheadUsage ?? []), record] };
+    runRef.current = next;
+    keepRun(next);
+  };
+
+  // Pictures stay with the candidate they were drawn for; the character sheet is
+  // shared by the whole run.
+  const illustrateTale = async () => {
+    if (!run || !selected || budget === 'blocked') return;
+    setIsIllustrating(true);
+    try {
+      const { illustration, sheet } = await illustratePassage({
+        provider,
+        passage: selected.text,
+        sheet: run.characterSheet ?? [],
+        bible,
+        onUsage: recordRunOverhead,
+      });
+      const current = runRef.current ?? run;
+      const illustrated = updateCandidate(current, selected.id, { illustrations: [...(selected.illustrations ?? []), illustration] });
+      keepRun({ ...illustrated, characterSheet: sheet });
+    } catch (err) {
+      console.error('Failed to illustrate tale:', err);
+      window.alert(`Could not draw this tale: ${describeError(classifyError(err))}`);
+    } finally {
+      setIsIllustrating(false);
+    }
+  };
+
+  // The tale on screen as a two-turn story, so the chat can carry it on, whether
+  // it is sent there directly or exported as JSON and imported later.
+  const taleSession = (shown: MoodRun, tale: TaleCandidate) =>
+    openingSession(provider, shown.title, shown.prompt, tale.text, {
+      attachments: shown.attachments,
+      illustrations: tale.illustrations,
+      characterSheet: shown.characterSheet,
+    });
+
+  const exportTale = (format: ExportFormat) => {
+    if (!run || !selected) return;
+    if (format === 'json') {
+      downloadSession(taleSession(run, selected));
+      return;
+    }
+    downloadDocument(buildPassageDocument(run.title, selected.text, `Mood: ${describeCandidate(selected)}`), format);
+  };
+
+  const continueInChat = () => {
+    if (run && selected) dispatch({ type: 'send-to-chat', session: taleSession(run, selected) });
+  };
+
+  const pinTale = () => {
+    if (run && selected) dispatch({ type: 'pin', pin: createPin('mood-weaver', run.title, selected.text, run.prompt) });
+  };
+
+  return (
+    <>
+      <div className="creative-generator-container">
+        <div className={`input-section${pending.isDragging ? ' drop-active' : ''}`} {...pending.dropTarget}>
+          {rewriteSource && (
+            <div className="rewrite-source">
+              <div className="rewrite-source-header">
+                <strong>Rewriting a passage from “{rewriteSource.title}”</strong>
+                <button onClick={() => setRewriteSource(null)} disabled={isLoading} aria-label="Stop rewriting this passage">
+                  ✕
+                </button>
+              </div>
+              <p>{rewriteSource.text}</p>
+            </div>
+          )}
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder={rewriteSource ? 'Optional notes for the rewrite...' : 'Enter your idea for a story, poem, or scene...'}
+            rows={5}
+            disabled={isLoading}
+            aria-label="Creative prompt input"
+          />
+          {pending.error && <div className="attachment-error" role="alert">{pending.error}</div>}
+          {pending.attachments.length > 0 && <AttachmentList attachments={pending.attachments} onRemove={pending.remove} />}
+          <div className="controls">
+            <AttachButton className="secondary-button" disabled={isLoading} onFiles={pending.add} />
+            <MoodMixer moods={moods} blend={moodBlend} disabled={isLoading} onChange={setMoodBlend} />
+            <button className="secondary-button" onClick={() => setShowMoodEditor(true)} disabled={isLoading}>
+              Edit moods
+            </button>
+            <button className="secondary-button" onClick={() => setShowGenerationSettings(true)} disabled={isLoading}>
+              Generation{generationSettings.preset ? `: ${generationSettings.preset.name}` : ''}
+            </button>
+            <button className="secondary-button" onClick={() => setShowHistory(true)} disabled={isLoading}>
+              History ({runs.length})
+            </button>
+            {isLoading ? (
+              <button className="stop-button" onClick={stopGeneration} aria-label="Stop generating">
+                Stop
+              </button>
+            ) : (
+              <button onClick={generateCreativeContent} disabled={dailyBudget === 'blocked'} aria-label="Generate creative content">
+                Generate
+              </button>
+            )}
+          </div>
+          <CandidatePlanner moods={moods} plans={candidatePlans} disabled={isLoading} onChange={setCandidatePlans} />
+          <BudgetNotice status={budget} />
+        </div>
+        <div className={`output-section${run ? ' has-content' : ''}`}>
+          {retryNotice && <div className="retry-notice" role="status">{retryNotice}</div>}
+          {run ? (
+            <div className="generated-content" aria-busy={isLoading}>
+              <div className="tale-header">
+                <h3>{run.candidates.length > 1 ? 'Your Tales:' : 'Your Tale:'}</h3>
+                <button className="secondary-button" onClick={illustrateTale} disabled={isLoading || isIllustrating || !generatedText || budget === 'blocked'}>
+                  {isIllustrating ? 'Drawing...' : '🖼 Illustrate'}
+                </button>
+                <button className="secondary-button" onClick={() => setIsNarrating(true)} disabled={isLoading || isNarrating || !generatedText}>
+                  🔊 Read aloud
+                </button>
+                <button className="secondary-button" onClick={pinTale} disabled={isLoading || !generatedText}>
+                  📌 Pin
+                </button>
+                <button className="secondary-button" onClick={continueInChat} disabled={isLoading || !generatedText}>
+                  💬 Continue in chat
+                </button>
+                <ExportMenu disabled={isLoading || !generatedText} onExport={exportTale} />
+                <button className="secondary-button" onClick={compareVersions} disabled={isLoading}>
+                  Compare
+                </button>
+              </div>
+              {isNarrating && (
+                <NarrationBar
+                  provider={provider}
+                  title={run.title}
+                  segments={narrationSegments}
+                  blocked={budget === 'blocked'}
+                  onUsage={recordRunOverhead}
+                  onActiveChange={setNarratingId}
+                  onClose={() => setIsNarrating(false)}
+                />
+              )}
+              <div className="candidate-grid">
+                {run.candidates.map((candidate, index) => (
+                  <CandidateCard
+                    key={candidate.id}
+                    candidate={candidate}
+                    index={index}
+                    isSelected={candidate.id === selected?.id}
+                    isStreaming={isLoading}
+                    narratingPart={isNarrating && candidate.id === selected?.id ? narratingPart : undefined}
+                    usageLabel={candidate.usage && describeUsage(candidate.usage, usage.settings.prices)}
+                    onSelect={() => selectCandidate(candidate.id)}
+                    onToggleFavourite={() => toggleFavourite(candidate)}
+                  />
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="placeholder-message">Your generated story will appear here.</div>
+          )}
+        </div>
+      </div>
+      {showMoodEditor && (
+        <MoodEditor
+          moods={moods}
+          onSave={saveCustomMood}
+          onDelete={deleteCustomMood}
+          onExportPack={exportMoodPack}
+          onImportPack={importMoodPack}
+          onClose={() => setShowMoodEditor(false)}
+        />
+      )}
+      {showHistory && (
+        <MoodRunHistory
+          runs={runs}
+          currentRunId={run?.id ?? null}
+          onOpen={openRun}
+          onDelete={deleteRun}
+          onCompare={compareVersions}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+      {diffIds && <TaleDiffDrawer runs={runs} initialIds={diffIds} onClose={() => setDiffIds(null)} />}
+      {showGenerationSettings && (
+        <GenerationSettingsDrawer
+          tab="mood-weaver"
+          provider={provider}
+          settings={generationSettings}
+          onChange={setGenerationSettings}
+          onClose={() => setShowGenerationSettings(false)}
+        />
+      )}
+    </>
+  );
+};
+
+// Plans a book as an outline, then writes it one chapter at a time. Each chapter
+// is saved as soon as it is finished, so writing can resume after a reload.
+const BookBuilder: React.FC<TabProps> = ({ provider, bible, usage }) => {
+  const [books, setBooks] = useState<Book[]>([]);
+  const [book, setBook] = useState<Book | null>(null);
+  const [premise, setPremise] = useState('');
+  const [selectedChapterId, setSelectedChapterId] = useState<string | null>(null);
+  const [writingChapterId, setWritingChapterId] = useState<string | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isWriting, setIsWriting] = useState(false);
+  const [error, setError] = useState('');
+  const [retryNotice, setRetryNotice] = useState('');
+  const [generationSettings, setGenerationSettings] = useGenerationSettings('book-builder');
+  const [showGenerationSettings, setShowGenerationSettings] = useState(false);
+  const bookRef = useRef<Book | null>(null); // Latest book, read by the writing loop between chapters
+  const isDirtyRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // Planning a new book only answers to the daily budget; writing the book on
+  // screen answers to the per-story budget as well.
+  const dailyBudget = budgetStatus(usage.today.cost, usage.settings.dailyBudget);
+  const bookCost = useMemo(() => {
+    const chapters = book ? listChapters(book).flatMap(({ chapter }) => (chapter.usage ? [chapter.usage] : [])) : [];
+    return totalCost([...chapters, ...(book?.overheadUsage ?? [])], usage.settings.prices);
+  }, [book, usage.settings.prices]);
+  const budget = worstStatus(budgetStatus(bookCost, usage.settings.sessionBudget), dailyBudget);
+  const budgetRef = useRef(budget);
+  budgetRef.current = budget;
+
+  const chapters = useMemo(() => (book ? listChapters(book) : []), [book]);
+  const writtenCount = chapters.filter(({ chapter }) => isWritten(chapter)).length;
+  const selected = chapters.find(({ chapter }) => chapter.id === selectedChapterId) ?? chapters[0];
+
+  const refreshBooks = useCallback(async () => {
+    try {
+      setBooks(await listBooks());
+    } catch (err) {
+      console.error('Failed to load books:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshBooks();
+  }, [refreshBooks]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const commitBook = (next: Book | null) => {
+    bookRef.current = next;
+    isDirtyRef.current = next !== null;
+    setBook(next);
+  };
+
+  const persistBook = useCallback(async (next: Book) => {
+    try {
+      await saveBook({ ...next, updatedAt: Date.now() });
+      await refreshBooks();
+    } catch (err) {
+      console.error('Failed to save book:', err);
+    }
+  }, [refreshBooks]);
+
+  // Outline edits are saved once typing pauses; chapters save as they finish.
+  useEffect(() => {
+    if (!book || isWriting || !isDirtyRef.current) return;
+    const timer = setTimeout(() => {
+      isDirtyRef.current = false;
+      persistBook(book);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [book, isWriting, persistBook]);
+
+  const openBook = (id: string) => {
+    const stored = books.find((item) => item.id === id) ?? null;
+    bookRef.current = stored;
+    isDirtyRef.current = false;
+    setBook(stored);
+    setSelectedChapterId(stored ? nextUnwritten(stored)?.id ?? null : null);
+    setError('');
+  };
+
+  const removeBook = async () => {
+    if (!book || !window.confirm(`Delete "${book.title}"? This cannot be undone.`)) return;
+    const id = book.id;
+    openBook('');
+    try {
+      await deleteBook(id);
+      await refreshBooks();
+    } catch (err) {
+      console.error('Failed to delete book:', err);
+    }
+  };
+
+  const planOutline = async () => {
+    if (premise.trim() === '' || isPlanning || dailyBudget === 'blocked') return;
+    setIsPlanning(true);
+    setError('');
+    const spent: UsageRecord[] = [];
+    try {
+      const outline = await generateOutline({
+        provider,
+        model: resolveModel(generationSettings, provider, provider.defaultModels.chat),
+        premise,
+        bible,
+        sampling: applySampling({}, generationSettings),
+        onUsage: (record) => {
+          usage.record(record);
+          spent.push(record);
+        },
+      });
+      commitBook({ ...outline, overheadUsage: spent });
+      setSelectedChapterId(listChapters(outline)[0]?.chapter.id ?? null);
+      setPremise('');
+    } catch (err) {
+      console.error('Failed to plan outline:', err);
+      setError(describeError(classifyError(err)));
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  // Writes one chapter from the outline and the summaries before it, then
+  // summarises it for the chapters that follow. Returns whether it finished.
+  const writeChapter = async (chapterId: string, controller: AbortController) => {
+    const model = resolveModel(generationSettings, provider, provider.defaultModels.chat);
+    const systemInstruction = withBible(BOOK_INSTRUCTION, bible);
+    const prompt = buildChapterPrompt(bookRef.current!, chapterId);
+    const patch = (fields: Partial<BookChapter>) =>
+      commitBook(updateChapter(bookRef.current!, chapterId, fields));
+
+    setWritingChapterId(chapterId);
+    setSelectedChapterId(chapterId);
+    // A replaced draft was still paid for, so its cost stays with the book.
+    const draft = listChapters(bookRef.current!).find(({ chapter }) => chapter.id === chapterId)?.chapter.usage;
+    if (draft) commitBook({ ...bookRef.current!, overheadUsage: [...(bookRef.current!.overheadUsage ?? []), draft] });
+    patch({ text: '', summary: undefined, truncated: undefined, usage: undefined });
+    let text = '';
+    let reported: TokenUsage | undefined;
+    let summaryUsage: UsageRecord | undefined;
+    let failed = false;
+    try {
+      const stream = streamWithRetry(
+        () => provider.generateStream({
+          model,
+          prompt,
+          systemInstruction,
+          sampling: applySampling({}, generationSettings),
+          signal: controller.signal,
+        }),
+        { signal: controller.signal, onRetry: (err, attempt, delayMs) => setRetryNotice(describeRetry(err, attempt, delayMs)) },
+      );
+      for await (const chunk of stream) {
+        setRetryNotice('');
+        text += chunk.text;
+        if (chunk.usage) reported = chunk.usage;
+        patch({ text });
+      }
+      if (controller.signal.aborted) {
+        patch({ truncated: true });
+        return false;
+      }
+      const { summary, usage: spent } = await summarizeChapter(provider, model, text, controller.signal);
+      summaryUsage = spent;
+      patch({ summary });
+      return true;
+    } catch (err) {
+      if (controller.signal.aborted) {
+        patch({ truncated: true });
+        return false;
+      }
+      failed = true;
+      console.error('Failed to write chapter:', err);
+      setError(describeError(classifyError(err)));
+      return false;
+    } finally {
+      setRetryNotice('');
+      if (!failed || reported) {
+        const record = toUsageRecord(model, reported, `${systemInstruction}\n${prompt}`, text);
+        usage.record(record);
+        if (summaryUsage) usage.record(summaryUsage);
+        // The chapter's cost includes the summary written for the chapters after it.
+        patch({ usage: summaryUsage ? mergeUsage(record, summaryUsage) : record });
+      }
+      await persistBook(bookRef.current!);
+    }
+  };
+
+  // Writes `chapterId`, then, if asked, every unwritten chapter after it until
+  // the book is done, the reader stops or the budget runs out.
+  const write = async (chapterId: string | undefined, keepGoing: boolean) => {
+    if (!chapterId || isWriting || budget === 'blocked') return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsWriting(true);
+    setError('');
+    try {
+      let next: string | undefined = chapterId;
+      while (next) {
+        const finished = await writeChapter(next, controller);
+        if (!finished || !keepGoing || budgetRef.current === 'blocked') break;
+        next = nextUnwritten(bookRef.current!)?.id;
+      }
+    } finally {
+      abortRef.current = null;
+      setWritingChapterId(null);
+      setIsWriting(false);
+    }
+  };
+
+  const exportBook = (format: ExportFormat) => {
+    if (!book) return;
+    if (format === 'json') {
+      downloadSession(createBookSession({
+        book,
+        model: provider.defaultModels.chat,
+        providerId: provider.id,
+        systemInstruction: STORYTELLER_INSTRUCTION,
+      }));
+      return;
+    }
+    downloadDocument(buildBookDocument(book), format);
+  };
+
+  return (
+    <div className="book-builder">
+      <div className="chat-toolbar">
+        <select value={book?.id ?? ''} onChange={(e) => openBook(e.target.value)} disabled={isWriting} aria-label="Open a book">
+          <option value="">New book…</option>
+          {books.map((item) => (
+            <option key={item.id} value={item.id}>{item.title}</option>
+          ))}
+        </select>
+        {book && (
+          <button onClick={removeBook} disabled={isWriting}>Delete book</button>
+        )}
+        <ExportMenu disabled={!book || isWriting || writtenCount === 0} onExport={exportBook} />
+        <button onClick={() => setShowGenerationSettings(true)}>
+          Generation{generationSettings.preset ? `: ${generationSettings.preset.name}` : ''}
+        </button>
+      </div>
+
+      {!book ? (
+        <div className="book-premise">
+          <textarea
+            value={premise}
+            onChange={(e) => setPremise(e.target.value)}
+            placeholder="What is the book about? Characters, setting, the shape of the story..."
+            rows={6}
+            disabled={isPlanning}
+            aria-label="Book premise"
+          />
+          <button onClick={planOutline} disabled={isPlanning || premise.trim() === '' || dailyBudget === 'blocked'}>
+            {isPlanning ? 'Planning...' : 'Plan outline'}
+          </button>
+        </div>
+      ) : (
+        <div className="book-layout">
+          <OutlineEditor
+            book={book}
+            selectedChapterId={selected?.chapter.id ?? null}
+            writingChapterId={writingChapterId}
+            disabled={isWriting}
+            onChange={commitBook}
+            onSelect={setSelectedChapterId}
+          />
+          <div className="book-chapter">
+            <div className="book-progress">
+              <span>{writtenCount}/{chapters.length} chapters written</span>
+              {isWriting ? (
+                <button className="stop-button" onClick={() => abortRef.current?.abort()} aria-label="Stop writing">
+                  Stop
+                </button>
+              ) : (
+                <>
+                  <button onClick={() => write(nextUnwritten(book)?.id, false)} disabled={!nextUnwritten(book) || budget === 'blocked'}>
+                    {writtenCount === 0 ? 'Write first chapter' : 'Write next chapter'}
+                  </button>
+                  <button onClick={() => write(nextUnwritten(book)?.id, true)} disabled={!nextUnwritten(book) || budget === 'blocked'}>
+                    Write the rest
+                  </button>
+                </>
+              )}
+            </div>
+            {retryNotice && <div className="retry-notice" role="status">{retryNotice}</div>}
+            {error && <div className="error-message" role="alert">{error}</div>}
+            <BudgetNotice status={budget} />
+            {selected && (
+              <article aria-busy={selected.chapter.id === writingChapterId}>
+                <div className="tale-header">
+                  <h3>Chapter {selected.number}: {selected.chapter.title}</h3>
+                  <button
+                    className="secondary-button"
+                    onClick={() => write(selected.chapter.id, false)}
+                    disabled={isWriting || budget === 'blocked'}
+                  >
+                    {selected.chapter.text ? '↻ Rewrite chapter' : 'Write this chapter'}
+                  </button>
+                </div>
+                {selected.chapter.text ? (
+                  <Markdown text={selected.chapter.text} />
+                ) : (
+                  <div className="placeholder-message">
+                    {selected.chapter.id === writingChapterId ? 'Writing...' : 'This chapter has not been written yet.'}
+                  </div>
+                )}
+                {selected.chapter.truncated && <div className="truncated-note">Stopped early — this chapter will be written again.</div>}
+                {selected.chapter.usage && <div className="usage-note">{describeUsage(selected.chapter.usage, usage.settings.prices)}</div>}
+                {selected.chapter.summary && (
+                  <details className="chapter-summary">
+                    <summary>Summary carried into later chapters</summary>
+                    <p>{selected.chapter.summary}</p>
+                  </details>
+                )}
+              </article>
+            )}
+          </div>
+        </div>
+      )}
+      {error && !book && <div className="error-message" role="alert">{error}</div>}
+      {showGenerationSettings && (
+        <GenerationSettingsDrawer
+          tab="book-builder"
+          provider={provider}
+          settings={generationSettings}
+          onChange={setGenerationSettings}
+          onClose={() => setShowGenerationSettings(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+
+const StoriesInTheSky: React.FC = () => {
+  const [activeTab, setActiveTab] = useState<GenerationTab>('chat');
+  const [providerId, setProviderId] = useState<ProviderId>(getInitialProviderId);
+  const [showSettings, setShowSettings] = useState(false);
+  const [bibleEntries, setBibleEntries] = useState<BibleEntry[]>([]);
+  const [bibleProposals, setBibleProposals] = useState<BibleProposal[]>([]);
+  const [showBible, setShowBible] = useState(false);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [dailyUsage, setDailyUsage] = useState<DailyUsage>(loadDailyUsage);
+  const [showUsage, setShowUsage] = useState(false);
+  const [workspaceState, dispatchWorkspace] = useReducer(storyWorkspaceReducer, undefined, initStoryWorkspace);
+  const [showScratchpad, setShowScratchpad] = useState(false);
+  const provider = providers[providerId];
+
+  const workspace = useMemo<StoryWorkspace>(
+    () => ({ state: workspaceState, dispatch: dispatchWorkspace }),
+    [workspaceState],
+  );
+
+  useEffect(() => {
+    savePins(workspaceState.pins);
+  }, [workspaceState.pins]);
+
+  // Follow a passage to the tab it was sent to.
+  useEffect(() => {
+    if (!workspaceState.handoff) return;
+    setActiveTab(workspaceState.handoff.target);
+    setShowScratchpad(false);
+  }, [workspaceState.handoff]);
+
+  const changeUsageSettings = (settings: UsageSettings) => {
+    saveUsageSettings(settings);
+    setUsageSettings(settings);
+  };
+
+  const recordUsage = useCallback((record: UsageRecord) => {
+    setDailyUsage(recordDailyUsage(record, usageSettings.prices));
+  }, [usageSettings.prices]);
+
+  const usage = useMemo<UsageTracker>(
+    () => ({ settings: usageSettings, today: dailyUsage, record: recordUsage }),
+    [usageSettings, dailyUsage, recordUsage],
+  );
+
+  useEffect(() => {
+    detectProviderId().then(setProviderId);
+  }, []);
+
+  useEffect(() => {
+    listBibleEntries()
+      .then(setBibleEntries)
+      .catch((error) => console.error('Failed to load Story Bible:', error));
+  }, []);
+
+  const changeProvider = (id: ProviderId) => {
+    saveProviderId(id);
+    setProviderId(id);
+  };
+
+  const saveEntry = async (entry: BibleEntry) => {
+    setBibleEntries((prev) =>
+      prev.some((item) => item.id === entry.id)
+        ? prev.map((item) => (item.id === entry.id ? entry : item))
+        : [...prev, entry],
+    );
+    try {
+      await saveBibleEntry(entry);
+    } catch (error) {
+      console.error('Failed to save bible entry:', error);
+    }
+  };
+
+  const removeEntry = async (id: string) => {
+    setBibleEntries((prev) => prev.filter((item) => item.id !== id));
+    try {
+      await deleteBibleEntry(id);
+    } catch (error) {
+      console.error('Failed to delete bible entry:', error);
+    }
+  };
+
+  const showProposals = (proposals: BibleProposal[]) => {
+    setBibleProposals(proposals);
+    setShowBible(true);
+  };
+
+  const approveProposal = (proposal: BibleProposal) => {
+    saveEntry({ ...proposal, id: crypto.randomUUID(), active: true, createdAt: Date.now() });
+    setBibleProposals((prev) => prev.filter((item) => item !== proposal));
+  };
+
+  const rejectProposal = (proposal: BibleProposal) => {
+    setBibleProposals((prev) => prev.filter((item) => item !== proposal));
+  };
+
+  const continuePinInChat = (pin: PinnedPassage) => {
+    dispatchWorkspace({
+      type: 'send-to-chat',
+      session: openingSession(provider, pin.title, pin.prompt ?? 'Carry on from this passage.', pin.text),
+    });
+  };
+
+  return (
+    <div className="stories-in-the-sky">
+      <header className="app-header">
+        <h1>Stories in the Sky</h1>
+        <div className="header-actions">
+          <button
+            onClick={() => setShowBible(true)}
+            aria-label="Open Story Bible"
+            title="Story Bible"
+          >
+            📖
+          </button>
+          <button
+            onClick={() => setShowScratchpad(true)}
+            aria-label="Open scratchpad"
+            title={`Scratchpad: ${workspaceState.pins.length} pinned`}
+          >
+            📌
+          </button>
+          <button
+            onClick={() => {
+              setDailyUsage(loadDailyUsage()); // Rolls over to a new day if needed
+              setShowUsage(true);
+            }}
+            aria-label="Open usage and budget"
+            title={`Today: ${formatCost(dailyUsage.cost)}`}
+          >
+            💰
+          </button>
+          <button
+            onClick={() => setShowSettings(true)}
+            aria-label="Open settings"
+            title={`Provider: ${provider.label}`}
+          >
+            ⚙
+          </button>
+        </div>
+        <nav className="tabs" role="tablist">
+          <button
+            className={activeTab === 'chat' ? 'active' : ''}
+            onClick={() => setActiveTab('chat')}
+            role="tab"
+            aria-selected={activeTab === 'chat'}
+            aria-controls="chat-panel"
+            id="chat-tab"
+          >
+            Storyteller Chat
+          </button>
+          <button
+            className={activeTab === 'mood-weaver' ? 'active' : ''}
+            onClick={() => setActiveTab('mood-weaver')}
+            role="tab"
+            aria-selected={activeTab === 'mood-weaver'}
+            aria-controls="mood-weaver-panel"
+            id="mood-weaver-tab"
+          >
+            Mood Weaver
+          </button>
+          <button
+            className={activeTab === 'book-builder' ? 'active' : ''}
+            onClick={() => setActiveTab('book-builder')}
+            role="tab"
+            aria-selected={activeTab === 'book-builder'}
+            aria-controls="book-builder-panel"
+            id="book-builder-tab"
+          >
+            Book Builder
+          </button>
+        </nav>
+      </header>
+
+      <StoryWorkspaceContext.Provider value={workspace}>
+        <main className="tab-content">
+          <div
+            id="chat-panel"
+            role="tabpanel"
+            aria-labelledby="chat-tab"
+            hidden={activeTab !== 'chat'}
+            className="panel"
+          >
+            <ChatComponent provider={provider} bible={bibleEntries} usage={usage} onBibleProposals={showProposals} />
+          </div>
+          <div
+            id="mood-weaver-panel"
+            role="tabpanel"
+            aria-labelledby="mood-weaver-tab"
+            hidden={activeTab !== 'mood-weaver'}
+            className="panel"
+          >
+            <CreativeGenerator provider={provider} bible={bibleEntries} usage={usage} />
+          </div>
+          <div
+            id="book-builder-panel"
+            role="tabpanel"
+            aria-labelledby="book-builder-tab"
+            hidden={activeTab !== 'book-builder'}
+            className="panel"
+          >
+            <BookBuilder provider={provider} bible={bibleEntries} usage={usage} />
+          </div>
+        </main>
+      </StoryWorkspaceContext.Provider>
+
+      {showSettings && (
+        <SettingsPanel
+          providerId={providerId}
+          onProviderChange={changeProvider}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+      {showBible && (
+        <BiblePanel
+          entries={bibleEntries}
+          proposals={bibleProposals}
+          onSave={saveEntry}
+          onDelete={removeEntry}
+          onApprove={approveProposal}
+          onReject={rejectProposal}
+          onClose={() => setShowBible(false)}
+        />
+      )}
+      {showUsage && (
+        <UsagePanel
+          settings={usageSettings}
+          today={dailyUsage}
+          onChange={changeUsageSettings}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+      {showScratchpad && (
+        <ScratchpadDrawer
+          pins={workspaceState.pins}
+          onContinueInChat={continuePinInChat}
+          onRewrite={(pin) => dispatchWorkspace({ type: 'send-to-mood-weaver', title: pin.title, text: pin.text })}
+          onRemove={(id) => dispatchWorkspace({ type: 'unpin', id })}
+          onClose={() => setShowScratchpad(false)}
+        />
+      )}
+
+      {/* Global Styles */}
+      <style jsx global>{`
+        :root {
+          --bg-color: #0d1117;
+          --text-color: #c9d1d9;
+          --primary-color: #58a6ff;
+          --secondary-color: #8b949e;
+          --border-color: #30363d;
+          --chat-user-bg: #21262d;
+          --chat-model-bg: #161b22;
+          --button-hover-bg: #1f6feb;
+          --active-tab-bg: #161b22;
+        }
+
+        body {
+          margin: 0;
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          background-color: var(--bg-color);
+          color: var(--text-color);
+          display: flex;
+          justify-content: center;
+          align-items: flex-start;
+          min-height: 100vh;
+          padding: 20px;
+          box-sizing: border-box;
+        }
+
+        #root {
+          width: 100%;
+          max-width: 1100px;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+        }
+
+        .stories-in-the-sky {
+          background-color: #161b22; /* Darker background for the main app container */
+          border-radius: 12px;
+          box-shadow: 0 4px 20px rgba(0, 0, 0, 0.5);
+          width: 100%;
+          overflow: hidden;
+          display: flex;
+          flex-direction: column;
+          min-height: 700px; /* Minimum height for the app */
+        }
+
+        .app-header {
+          background-color: #0d1117;
+          padding: 20px 30px;
+          border-bottom: 1px solid var(--border-color);
+          text-align: center;
+          position: relative;
+        }
+
+        .app-header h1 {
+          margin: 0;
+          color: var(--primary-color);
+          font-size: 2.2em;
+          text-shadow: 0 0 8px rgba(88, 166, 255, 0.4);
+          font-weight: 600;
+        }
+
+        .header-actions {
+          position: absolute;
+          top: 20px;
+          right: 20px;
+          display: flex;
+          gap: 8px;
+        }
+
+        .header-actions button {
+          background: none;
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+          color: var(--secondary-color);
+          font-size: 1.2em;
+          padding: 4px 10px;
+          cursor: pointer;
+        }
+
+        .header-actions button:hover {
+          color: var(--primary-color);
+          border-color: var(--primary-color);
+        }
+
+        .drawer-overlay {
+          position: fixed;
+          inset: 0;
+          background-color: rgba(0, 0, 0, 0.6);
+          display: flex;
+          justify-content: flex-end;
+          z-index: 10;
+        }
+
+        .drawer {
+          width: 360px;
+          max-width: 100%;
+          height: 100%;
+          overflow-y: auto;
+          box-sizing: border-box;
+          background-color: #161b22;
+          border-left: 1px solid var(--border-color);
+          padding: 20px;
+          display: flex;
+          flex-direction: column;
+          gap: 20px;
+        }
+
+        .drawer-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+        }
+
+        .drawer-header h2 {
+          margin: 0;
+          color: var(--primary-color);
+        }
+
+        .drawer-header button {
+          background: none;
+          border: none;
+          color: var(--secondary-color);
+          font-size: 1.1em;
+          cursor: pointer;
+        }
+
+        .drawer-section {
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+          padding: 12px;
+          margin: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+        }
+
+        .drawer-section legend,
+        .drawer-section h3 {
+          color: var(--text-color);
+          font-weight: 600;
+          font-size: 0.95em;
+          margin: 0;
+          padding: 0 4px;
+        }
+
+        .bible-entry {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          padding: 8px 0;
+          border-top: 1px solid var(--border-color);
+        }
+
+        .bible-entry:first-of-type {
+          border-top: none;
+        }
+
+        .bible-entry.inactive {
+          opacity: 0.5;
+        }
+
+        .bible-entry p {
+          margin: 0;
+          font-size: 0.9em;
+          color: var(--secondary-color);
+          white-space: pre-wrap;
+        }
+
+        .bible-entry-heading {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .bible-active {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          cursor: pointer;
+        }
+
+        .bible-kind {
+          font-size: 0.7em;
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+          padding: 2px 6px;
+          border-radius: 4px;
+          background-color: var(--chat-user-bg);
+          color: var(--primary-color);
+        }
+
+        .bible-entry-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 6px;
+        }
+
+        .bible-entry-actions button {
+          background: none;
+          border: 1px solid var(--border-color);
+          border-radius: 6px;
+          color: var(--secondary-color);
+          padding: 3px 10px;
+          cursor: pointer;
+          font-size: 0.85em;
+        }
+
+        .bible-entry-actions button:hover:not(:disabled) {
+          color: var(--primary-color);
+          border-color: var(--primary-color);
+        }
+
+        .bible-entry-actions button[type="submit"] {
+          background-color: var(--primary-color);
+          border-color: var(--primary-color);
+          color: var(--bg-color);
+          font-weight: 600;
+        }
+
+        .bible-entry-actions button:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .bible-proposals {
+          border-color: var(--primary-color);
+        }
+
+        .bible-form select,
+        .bible-form input,
+        .bible-form textarea {
+          padding: 8px 10px;
+          border-radius: 6px;
+          border: 1px solid var(--border-color);
+          background-color: #21262d;
+          color: var(--text-color);
+          font: inherit;
+          font-size: 0.9em;
+          outline: none;
+        }
+
+        .bible-form textarea {
+          resize: vertical;
+        }
+
+        .bible-form select:focus,
+        .bible-form input:focus,
+        .bible-form textarea:focus {
+          border-color: var(--primary-color);
+        }
+
+        .settings-option {
+          display: flex;
+          gap: 10px;
+          align-items: flex-start;
+          cursor: pointer;
+        }
+
+        .settings-option > span {
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+        }
+
+        .drawer-hint {
+          color: var(--secondary-color);
+          font-size: 0.85em;
+        }
+
+        .settings-warning {
+          color: #ff7b72;
+          font-size: 0.85em;
+        }
+
+        .settings-models {
+          margin: 0;
+          padding-left: 18px;
+          font-size: 0.9em;
+        }
+
+        .settings-models code {
+          color: var(--secondary-color);
+          font-size: 0.85em;
+        }
+
+        .tabs {
+          display: flex;
+          justify-content: center;
+          margin-top: 15px;
+          border-radius: 8px;
+          overflow: hidden;
+        }
+
+        .tabs button {
+          background-color: var(--chat-model-bg);
+          color: var(--secondary-color);
+          border: none;
+          padding: 12px 25px;
+          cursor: pointer;
+          font-size: 1em;
+          font-weight: 500;
+          transition: background-color 0.3s ease, color 0.3s ease, box-shadow 0.3s ease;
+          flex-grow: 1;
+          text-align: center;
+          outline: none;
+        }
+
+        .tabs button:hover:not(.active) {
+          background-color: #1f2732;
+          color: var(--text-color);
+        }
+
+        .tabs button.active {
+          background-color: var(--primary-color);
+          color: var(--bg-color);
+          font-weight: 700;
+          box-shadow: inset 0 3px 8px rgba(0, 0, 0, 0.3);
+        }
+
+        .tab-content {
+          flex-grow: 1;
+          padding: 20px;
+          display: flex;
+          flex-direction: column;
+          position: relative; /* For absolute positioning of panels */
+        }
+
+        .panel {
+          width: 100%;
+          height: 100%;
+          display: flex;
+          flex-direction: column;
+          opacity: 1;
+          transition: opacity 0.3s ease-in-out;
+        }
+
+        .panel[hidden] {
+          display: none;
+          opacity: 0;
+        }
+
+        /* Chat Component */
+        .chat-layout {
+          display: flex;
+          flex-grow: 1;
+          gap: 15px;
+          min-height: 500px;
+        }
+
+        .story-library {
+          width: 220px;
+          flex-shrink: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+          background-color: var(--bg-color);
+          padding: 12px;
+          max-height: 600px;
+        }
+
+        .library-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+        }
+
+        .library-header h2 {
+          margin: 0;
+          font-size: 1.1em;
+          color: var(--primary-color);
+        }
+
+        .library-header button {
+          background-color: var(--primary-color);
+          color: var(--bg-color);
+          border: none;
+          border-radius: 6px;
+          padding: 5px 10px;
+          cursor: pointer;
+          font-weight: 600;
+        }
+
+        .library-header button:disabled {
+          background-color: #4a5461;
+          cursor: not-allowed;
+        }
+
+        .library-search,
+        .library-rename {
+          width: 100%;
+          box-sizing: border-box;
+          padding: 8px 10px;
+          border-radius: 6px;
+          border: 1px solid var(--border-color);
+          background-color: #21262d;
+          color: var(--text-color);
+          font-size: 0.9em;
+          outline: none;
+        }
+
+        .library-search:focus,
+        .library-rename:focus {
+          border-color: var(--primary-color);
+        }
+
+        .library-list {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          overflow-y: auto;
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+        }
+
+        .library-empty {
+          color: var(--secondary-color);
+          font-style: italic;
+          font-size: 0.9em;
+          padding: 8px 4px;
+        }
+
+        .library-item {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          border-radius: 6px;
+          padding: 2px;
+        }
+
+        .library-item.active {
+          background-color: var(--chat-user-bg);
+          box-shadow: inset 3px 0 0 var(--primary-color);
+        }
+
+        .library-open {
+          flex-grow: 1;
+          min-width: 0;
+          display: flex;
+          flex-direction: column;
+          align-items: flex-start;
+          background: none;
+          border: none;
+          color: var(--text-color);
+          padding: 6px 8px;
+          cursor: pointer;
+          text-align: left;
+        }
+
+        .library-open:disabled {
+          cursor: not-allowed;
+        }
+
+        .library-title {
+          width: 100%;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+          font-size: 0.95em;
+        }
+
+        .library-meta {
+          color: var(--secondary-color);
+          font-size: 0.75em;
+        }
+
+        .library-actions {
+          display: flex;
+          flex-shrink: 0;
+        }
+
+        .library-actions button {
+          background: none;
+          border: none;
+          color: var(--secondary-color);
+          cursor: pointer;
+          padding: 4px;
+          font-size: 0.85em;
+        }
+
+        .library-actions button:hover:not(:disabled) {
+          color: var(--primary-color);
+        }
+
+        .chat-container {
+          display: flex;
+          flex-direction: column;
+          flex-grow: 1;
+          min-height: 500px; /* Ensure chat container has height */
+          min-width: 0;
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+          overflow: hidden;
+          background-color: var(--bg-color);
+        }
+
+        .messages {
+          flex-grow: 1;
+          padding: 15px;
+          overflow-y: auto;
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+        }
+
+        .message-list {
+          position: relative;
+          flex-shrink: 0;
+        }
+
+        .message-slot {
+          position: absolute;
+          left: 0;
+          right: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+        }
+
+        .initial-message {
+          text-align: center;
+          color: var(--secondary-color);
+          padding: 20px;
+          font-style: italic;
+        }
+
+        .message {
+          max-width: 80%;
+          padding: 10px 15px;
+          border-radius: 18px;
+          line-height: 1.5;
+          word-wrap: break-word;
+          box-shadow: 0 2px 5px rgba(0, 0, 0, 0.2);
+        }
+
+        .message.user {
+          align-self: flex-end;
+          background-color: var(--primary-color);
+          color: var(--bg-color);
+          border-bottom-right-radius: 4px;
+        }
+
+        .message.model {
+          align-self: flex-start;
+          background-color: var(--chat-model-bg);
+          color: var(--text-color);
+          border: 1px solid var(--border-color);
+          border-bottom-left-radius: 4px;
+        }
+
+        .message.model.loading {
+          background-color: var(--chat-model-bg);
+          color: var(--secondary-color);
+          font-style: italic;
+          display: inline-flex;
+          align-items: center;
+        }
+
+        .message.model.loading .dot {
+          animation: blink 1s infinite steps(1, start);
+        }
+        .message.model.loading .dot:nth-child(1) { animation-delay: 0s; }
+        .message.model.loading .dot:nth-child(2) { animation-delay: 0.3s; }
+        .message.model.loading .dot:nth-child(3) { animation-delay: 0.6s; }
+
+        @keyframes blink {
+          0%, 100% { opacity: 0.3; }
+          50% { opacity: 1; }
+        }
+
+        .message-row {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          max-width: 80%;
+        }
+
+        .message-row.user {
+          align-self: flex-end;
+          align-items: flex-end;
+        }
+
+        .message-row.model {
+          align-self: flex-start;
+          align-items: flex-start;
+        }
+
+        .message-row .message {
+          max-width: 100%;
+        }
+
+        .message-toolbar {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          font-size: 0.8em;
+          color: var(--secondary-color);
+          opacity: 0.6;
+          transition: opacity 0.2s ease;
+        }
+
+        .message-row:hover .message-toolbar,
+        .message-toolbar:focus-within {
+          opacity: 1;
+        }
+
+        .message-toolbar button {
+          background: none;
+          border: none;
+          color: var(--secondary-color);
+          cursor: pointer;
+          padding: 2px 4px;
+          font-size: 1em;
+        }
+
+        .message-toolbar button:hover:not(:disabled) {
+          color: var(--primary-color);
+        }
+
+        .message-toolbar button:disabled {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+
+        .branch-switcher {
+          display: inline-flex;
+          align-items: center;
+          gap: 2px;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .message-edit {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          min-width: 260px;
+        }
+
+        .message-edit textarea {
+          width: 100%;
+          box-sizing: border-box;
+          padding: 8px;
+          border-radius: 8px;
+          border: 1px solid var(--border-color);
+          background-color: #21262d;
+          color: var(--text-color);
+          font: inherit;
+          resize: vertical;
+        }
+
+        .message-edit-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 6px;
+        }
+
+        .message-edit-actions button {
+          border: none;
+          border-radius: 6px;
+          padding: 4px 10px;
+          cursor: pointer;
+          background-color: var(--bg-color);
+          color: var(--text-color);
+        }
+
+        .chat-toolbar {
+          display: flex;
+          justify-content: flex-end;
+          gap: 8px;
+          padding: 8px 15px;
+          border-bottom: 1px solid var(--border-color);
+        }
+
+        .chat-toolbar button {
+          background: none;
+          border: 1px solid var(--border-color);
+          border-radius: 6px;
+          color: var(--secondary-color);
+          padding: 4px 10px;
+          cursor: pointer;
+          font-size: 0.85em;
+        }
+
+        .chat-toolbar button:hover,
+        .chat-toolbar button[aria-pressed="true"] {
+          color: var(--primary-color);
+          border-color: var(--primary-color);
+        }
+
+        .chat-toolbar .persona-picker {
+          background-color: var(--bg-color);
+          border: 1px solid var(--border-color);
+          border-radius: 6px;
+          color: var(--text-color);
+          padding: 4px 6px;
+          font-size: 0.85em;
+        }
+
+        .story-tree {
+          max-height: 240px;
+          overflow: auto;
+          padding: 10px 15px;
+          border-bottom: 1px solid var(--border-color);
+          background-color: #161b22;
+        }
+
+        .story-tree-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+        }
+
+        .story-tree-header h3 {
+          margin: 0 0 6px;
+          font-size: 0.95em;
+          color: var(--primary-color);
+        }
+
+        .story-tree-header button {
+          background: none;
+          border: none;
+          color: var(--secondary-color);
+          cursor: pointer;
+        }
+
+        .tree-branch {
+          list-style: none;
+          margin: 0;
+          padding-left: 14px;
+          border-left: 1px dashed var(--border-color);
+        }
+
+        .story-tree > .tree-branch {
+          padding-left: 0;
+          border-left: none;
+        }
+
+        .tree-node {
+          display: block;
+          width: 100%;
+          background: none;
+          border: none;
+          border-radius: 4px;
+          color: var(--secondary-color);
+          text-align: left;
+          padding: 3px 6px;
+          cursor: pointer;
+          font-size: 0.85em;
+        }
+
+        .tree-node:hover:not(:disabled) {
+          background-color: var(--chat-user-bg);
+        }
+
+        .tree-node.active {
+          color: var(--text-color);
+          font-weight: 600;
+        }
+
+        .tree-sender {
+          color: var(--primary-color);
+          margin-right: 6px;
+        }
+
+        .message.model.error {
+          color: #ff7b72;
+          border-color: #ff7b72;
+        }
+
+        .message a {
+          color: var(--primary-color);
+          text-decoration: underline;
+        }
+
+        .message strong {
+          font-weight: 700;
+        }
+
+        .message em {
+          font-style: italic;
+        }
+
+        .markdown > :first-child {
+          margin-top: 0;
+        }
+
+        .markdown > :last-child {
+          margin-bottom: 0;
+        }
+
+        .markdown p,
+        .markdown ul,
+        .markdown ol,
+        .markdown blockquote,
+        .markdown pre {
+          margin: 0 0 0.75em;
+        }
+
+        .markdown h1,
+        .markdown h2,
+        .markdown h3,
+        .markdown h4,
+        .markdown h5,
+        .markdown h6 {
+          margin: 0.8em 0 0.4em;
+          line-height: 1.3;
+        }
+
+        .markdown h1 { font-size: 1.4em; }
+        .markdown h2 { font-size: 1.25em; }
+        .markdown h3 { font-size: 1.1em; }
+        .markdown h4,
+        .markdown h5,
+        .markdown h6 { font-size: 1em; }
+
+        .markdown ul,
+        .markdown ol {
+          padding-left: 1.5em;
+        }
+
+        .markdown li + li {
+          margin-top: 0.2em;
+        }
+
+        .markdown blockquote {
+          padding: 0.2em 0 0.2em 1em;
+          border-left: 3px solid var(--border-color);
+          color: var(--secondary-color);
+        }
+
+        .markdown code {
+          font-family: 'SFMono-Regular', Consolas, 'Liberation Mono', Menlo, monospace;
+          font-size: 0.9em;
+          padding: 0.1em 0.35em;
+          border-radius: 4px;
+          background-color: rgba(110, 118, 129, 0.3);
+        }
+
+        .markdown pre {
+          padding: 10px 12px;
+          border-radius: 6px;
+          background-color: #010409;
+          overflow-x: auto;
+        }
+
+        .markdown pre code {
+          padding: 0;
+          background: none;
+        }
+
+        .markdown hr {
+          border: none;
+          border-top: 1px solid var(--border-color);
+          margin: 1em 0;
+        }
+
+        .message.user .markdown blockquote {
+          color: inherit;
+          border-left-color: rgba(13, 17, 23, 0.4);
+        }
+
+        .message.user .markdown code {
+          background-color: rgba(13, 17, 23, 0.15);
+        }
+
+        .input-area {
+          display: flex;
+          padding: 15px;
+          border-top: 1px solid var(--border-color);
+          background-color: var(--bg-color);
+          gap: 10px;
+          align-items: flex-end;
+        }
+
+        .composer {
+          position: relative;
+          flex-grow: 1;
+          display: flex;
+        }
+
+        .composer textarea {
+          flex-grow: 1;
+          padding: 12px 15px;
+          border-radius: 20px;
+          border: 1px solid var(--border-color);
+          background-color: #21262d;
+          color: var(--text-color);
+          font-family: inherit;
+          font-size: 1em;
+          line-height: 1.4;
+          resize: none;
+          outline: none;
+          transition: border-color 0.3s ease, box-shadow 0.3s ease;
+        }
+
+        .composer textarea:focus {
+          border-color: var(--primary-color);
+          box-shadow: 0 0 0 2px rgba(88, 166, 255, 0.3);
+        }
+
+        .composer textarea::placeholder {
+          color: var(--secondary-color);
+        }
+
+        .slash-suggestions {
+          position: absolute;
+          bottom: calc(100% + 6px);
+          left: 0;
+          right: 0;
+          max-height: 240px;
+          overflow-y: auto;
+          margin: 0;
+          padding: 4px;
+          list-style: none;
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+          background-color: var(--chat-model-bg);
+          box-shadow: 0 8px 24px rgba(1, 4, 9, 0.6);
+          z-index: 5;
+        }
+
+        .slash-suggestions li {
+          display: flex;
+          gap: 10px;
+          align-items: baseline;
+          padding: 6px 10px;
+          border-radius: 6px;
+          cursor: pointer;
+        }
+
+        .slash-suggestions li.highlighted {
+          background-color: rgba(88, 166, 255, 0.15);
+        }
+
+        .slash-label {
+          font-family: 'SFMono-Regular', Consolas, 'Liberation Mono', Menlo, monospace;
+          font-size: 0.9em;
+          white-space: nowrap;
+        }
+
+        .slash-description {
+          color: var(--secondary-color);
+          font-size: 0.85em;
+        }
+
+        .input-area button {
+          background-color: var(--primary-color);
+          color: var(--bg-color);
+          border: none;
+          border-radius: 25px;
+          padding: 10px 20px;
+          cursor: pointer;
+          font-size: 1em;
+          font-weight: 600;
+          transition: background-color 0.3s ease, transform 0.2s ease;
+          outline: none;
+        }
+
+        .input-area button:hover:not(:disabled) {
+          background-color: var(--button-hover-bg);
+          transform: translateY(-1px);
+        }
+
+        .input-area button:disabled {
+          background-color: #4a5461;
+          cursor: not-allowed;
+        }
+
+        /* Creative Generator Component */
+        .creative-generator-container {
+          display: flex;
+          flex-direction: column;
+          flex-grow: 1;
+          gap: 20px;
+          min-height: 500px;
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+          background-color: var(--bg-color);
+          padding: 20px;
+        }
+
+        .creative-generator-container .input-section {
+          display: flex;
+          flex-direction: column;
+          gap: 15px;
+        }
+
+        .creative-generator-container textarea {
+          width: 100%;
+          padding: 15px;
+          border-radius: 8px;
+          border: 1px solid var(--border-color);
+          background-color: #21262d;
+          color: var(--text-color);
+          font-size: 1em;
+          resize: vertical;
+          min-height: 120px;
+          outline: none;
+          transition: border-color 0.3s ease, box-shadow 0.3s ease;
+        }
+
+        .creative-generator-container textarea:focus {
+          border-color: var(--primary-color);
+          box-shadow: 0 0 0 2px rgba(88, 166, 255, 0.3);
+        }
+
+        .creative-generator-container textarea::placeholder {
+          color: var(--secondary-color);
+        }
+
+        .creative-generator-container .controls {
+          display: flex;
+          gap: 15px;
+          align-items: center;
+          flex-wrap: wrap;
+        }
+
+        .creative-generator-container select {
+          padding: 10px 15px;
+          border-radius: 8px;
+          border: 1px solid var(--border-color);
+          background-color: #21262d;
+          color: var(--text-color);
+          font-size: 1em;
+          appearance: none; /* Remove default arrow */
+          background-image: url('data:image/svg+xml;charset=US-ASCII,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%22292.4%22%20height%3D%22292.4%22%3E%3Cpath%20fill%3D%22%23c9d1d9%22%20d%3D%22M287%2069.4a17.6%2017.6%200%200%200-13-5.4H18.4c-6.5%200-12.3%203.2-16.1%208.1-3.8%204.9-3.9%2011.6-1.5%2017.7l131.8%20188c3.8%205.1%209.6%208.2%2016.2%208.2s12.4-3.1%2016.2-8.2l131.9-188c2.4-6.2%202.3-12.8-1.5-17.7z%22%2F%3E%3C%2Fsvg%3E');
+          background-repeat: no-repeat;
+          background-position: right 10px center;
+          background-size: 12px;
+          cursor: pointer;
+          outline: none;
+          transition: border-color 0.3s ease, box-shadow 0.3s ease;
+        }
+
+        .creative-generator-container select:focus {
+          border-color: var(--primary-color);
+          box-shadow: 0 0 0 2px rgba(88, 166, 255, 0.3);
+        }
+
+        .creative-generator-container button {
+          background-color: var(--primary-color);
+          color: var(--bg-color);
+          border: none;
+          border-radius: 8px;
+          padding: 10px 20px;
+          cursor: pointer;
+          font-size: 1em;
+          font-weight: 600;
+          transition: background-color 0.3s ease, transform 0.2s ease;
+          outline: none;
+        }
+
+        .creative-generator-container button.secondary-button {
+          background: none;
+          border: 1px solid var(--border-color);
+          color: var(--secondary-color);
+        }
+
+        .creative-generator-container button.secondary-button:hover:not(:disabled) {
+          background: none;
+          color: var(--primary-color);
+          border-color: var(--primary-color);
+        }
+
+        .mood-mixer {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .mood-row {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+        }
+
+        .mood-row input[type="range"] {
+          width: 120px;
+          accent-color: var(--primary-color);
+        }
+
+        .creative-generator-container .mood-row button.mood-remove,
+        .creative-generator-container .mood-mixer-footer button.mood-add {
+          background: none;
+          color: var(--secondary-color);
+          padding: 4px 6px;
+          font-weight: 400;
+          font-size: 0.9em;
+        }
+
+        .creative-generator-container .mood-row button.mood-remove:hover:not(:disabled),
+        .creative-generator-container .mood-mixer-footer button.mood-add:hover:not(:disabled) {
+          background: none;
+          color: var(--primary-color);
+        }
+
+        .mood-mixer-footer {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+        }
+
+        .mood-summary {
+          color: var(--secondary-color);
+          font-size: 0.85em;
+        }
+
+        .mood-example {
+          font-style: italic;
+        }
+
+        .mood-sampling {
+          display: flex;
+          gap: 8px;
+        }
+
+        .mood-sampling label {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          flex: 1;
+          font-size: 0.8em;
+          color: var(--secondary-color);
+        }
+
+        .mood-sampling input {
+          width: 100%;
+          box-sizing: border-box;
+        }
+
+        .generation-settings .mood-sampling {
+          flex-wrap: wrap;
+        }
+
+        .generation-settings .mood-sampling label {
+          flex: 1 1 30%;
+        }
+
+        .generation-field {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          font-size: 0.8em;
+          color: var(--secondary-color);
+        }
+
+        .preset-form {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          padding-top: 8px;
+        }
+
+        .preset-form input {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .usage-summary {
+          margin-left: auto;
+          font-size: 0.8em;
+          color: var(--secondary-color);
+          white-space: nowrap;
+        }
+
+        .message-persona {
+          margin-bottom: 6px;
+          font-size: 0.75em;
+          font-weight: 600;
+          color: var(--secondary-color);
+        }
+
+        .persona-name-row {
+          display: flex;
+          gap: 8px;
+        }
+
+        .persona-name-row input {
+          flex-grow: 1;
+          min-width: 0;
+        }
+
+        .bible-form .persona-avatar-input {
+          width: 3em;
+          flex: none;
+          text-align: center;
+        }
+
+        .usage-note {
+          margin-top: 6px;
+          font-size: 0.75em;
+          color: var(--secondary-color);
+        }
+
+        .budget-notice {
+          margin: 0 0 8px;
+          padding: 8px 12px;
+          border-radius: 6px;
+          font-size: 0.85em;
+        }
+
+        .budget-notice.budget-warn {
+          border: 1px solid #d29922;
+          color: #e3b341;
+        }
+
+        .budget-notice.budget-blocked {
+          border: 1px solid #f85149;
+          color: #ff7b72;
+        }
+
+        .usage-summary.budget-warn,
+        .usage-totals .budget-warn {
+          color: #e3b341;
+        }
+
+        .usage-summary.budget-blocked,
+        .usage-totals .budget-blocked {
+          color: #ff7b72;
+        }
+
+        .usage-totals {
+          display: grid;
+          grid-template-columns: 1fr auto;
+          gap: 4px 12px;
+          margin: 0;
+          font-size: 0.9em;
+        }
+
+        .usage-totals dt {
+          color: var(--secondary-color);
+        }
+
+        .usage-totals dd {
+          margin: 0;
+          text-align: right;
+        }
+
+        .price-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 0.85em;
+        }
+
+        .price-table th {
+          text-align: left;
+          font-weight: normal;
+          color: var(--secondary-color);
+        }
+
+        .price-table td {
+          padding: 3px 4px 3px 0;
+        }
+
+        .price-table td code {
+          word-break: break-all;
+        }
+
+        .price-table input {
+          width: 70px;
+          box-sizing: border-box;
+        }
+
+        .bible-entry.active-preset strong {
+          color: var(--primary-color);
+        }
+
+        .creative-generator-container button:hover:not(:disabled) {
+          background-color: var(--button-hover-bg);
+          transform: translateY(-1px);
+        }
+
+        .creative-generator-container button:disabled {
+          background-color: #4a5461;
+          cursor: not-allowed;
+        }
+
+        .creative-generator-container .output-section {
+          flex-grow: 1;
+          background-color: #161b22;
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+          padding: 20px;
+          overflow-y: auto;
+          display: flex;
+          flex-direction: column;
+          align-items: center; /* Center content horizontally */
+          justify-content: center; /* Center content vertically initially */
+          text-align: left;
+        }
+
+        .creative-generator-container .output-section.has-content {
+          justify-content: flex-start; /* Align to top if content exists */
+        }
+
+        .loading-indicator {
+          color: var(--secondary-color);
+          font-style: italic;
+          display: flex;
+          align-items: center;
+          gap: 5px;
+        }
+
+        .loading-indicator .dot {
+          animation: blink 1s infinite steps(1, start);
+        }
+        .loading-indicator .dot:nth-child(1) { animation-delay: 0s; }
+        .loading-indicator .dot:nth-child(2) { animation-delay: 0.3s; }
+        .loading-indicator .dot:nth-child(3) { animation-delay: 0.6s; }
+
+
+        .error-message {
+          color: #ff7b72;
+          background-color: #3b1e22;
+          padding: 10px 15px;
+          border-radius: 8px;
+          border: 1px solid #ff7b72;
+        }
+
+        .generated-content {
+          width: 100%;
+        }
+
+        .tale-header {
+          display: flex;
+          flex-wrap: wrap;
+          justify-content: space-between;
+          align-items: center;
+          gap: 10px;
+          border-bottom: 1px solid var(--border-color);
+          padding-bottom: 10px;
+          margin-bottom: 1em;
+        }
+
+        .generated-content h3 {
+          color: var(--primary-color);
+          margin: 0;
+        }
+
+        .export-menu {
+          position: relative;
+        }
+
+        .chat-toolbar .export-menu button.export-toggle,
+        .creative-generator-container .export-menu button.export-toggle {
+          background: none;
+          border: 1px solid var(--border-color);
+          border-radius: 6px;
+          color: var(--secondary-color);
+          padding: 4px 10px;
+          cursor: pointer;
+          font-size: 0.85em;
+          font-weight: 500;
+        }
+
+        .export-menu button.export-toggle:hover:not(:disabled) {
+          color: var(--primary-color);
+          border-color: var(--primary-color);
+          transform: none;
+        }
+
+        .export-menu button.export-toggle:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .export-dropdown {
+          position: absolute;
+          right: 0;
+          top: calc(100% + 4px);
+          z-index: 5;
+          min-width: 190px;
+          display: flex;
+          flex-direction: column;
+          padding: 6px;
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+          background-color: #161b22;
+          box-shadow: 0 8px 24px rgba(0, 0, 0, 0.5);
+        }
+
+        .chat-toolbar .export-dropdown button,
+        .creative-generator-container .export-dropdown button {
+          background: none;
+          border: none;
+          border-radius: 4px;
+          color: var(--text-color);
+          text-align: left;
+          padding: 6px 8px;
+          font-size: 0.9em;
+          font-weight: 400;
+          cursor: pointer;
+        }
+
+        .chat-toolbar .export-dropdown button:hover,
+        .creative-generator-container .export-dropdown button:hover {
+          background-color: var(--chat-user-bg);
+          color: var(--primary-color);
+          transform: none;
+        }
+
+        .export-scope {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          padding: 4px 8px 8px;
+          margin-bottom: 4px;
+          border-bottom: 1px solid var(--border-color);
+          font-size: 0.85em;
+          color: var(--secondary-color);
+        }
+
+        .export-scope label {
+          display: flex;
+          gap: 6px;
+          align-items: center;
+          cursor: pointer;
+        }
+
+        .generated-content a {
+          color: var(--primary-color);
+          text-decoration: underline;
+        }
+
+        .generated-content strong {
+          font-weight: 700;
+        }
+
+        .generated-content em {
+          font-style: italic;
+        }
+
+        .retry-notice {
+          margin: 0 0 8px;
+          color: var(--secondary-color);
+          font-size: 0.85em;
+          font-style: italic;
+        }
+
+        .message .retry-button,
+        .creative-generator-container .error-message .retry-button {
+          display: block;
+          margin-top: 8px;
+          padding: 4px 12px;
+          background: none;
+          border: 1px solid currentColor;
+          border-radius: 6px;
+          color: inherit;
+          font-size: 0.85em;
+          font-weight: normal;
+          cursor: pointer;
+          transform: none;
+        }
+
+        .message .retry-button:hover:not(:disabled),
+        .creative-generator-container .error-message .retry-button:hover:not(:disabled) {
+          background-color: rgba(255, 123, 114, 0.15);
+          transform: none;
+        }
+
+        .truncated-note {
+          margin-top: 8px;
+          color: var(--secondary-color);
+          font-size: 0.85em;
+          font-style: italic;
+        }
+
+        .input-area button.stop-button,
+        .creative-generator-container button.stop-button {
+          background-color: #da3633;
+          color: #ffffff;
+        }
+
+        .input-area button.stop-button:hover,
+        .creative-generator-container button.stop-button:hover {
+          background-color: #b62324;
+        }
+
+        .book-builder {
+          display: flex;
+          flex-direction: column;
+          gap: 15px;
+        }
+
+        .book-builder .chat-toolbar {
+          justify-content: flex-start;
+          align-items: center;
+          padding: 0 0 10px;
+        }
+
+        .book-builder select,
+        .book-builder input,
+        .book-builder textarea {
+          padding: 6px 10px;
+          border-radius: 6px;
+          border: 1px solid var(--border-color);
+          background-color: #21262d;
+          color: var(--text-color);
+          font: inherit;
+          font-size: 0.9em;
+          outline: none;
+        }
+
+        .book-builder input:focus,
+        .book-builder textarea:focus {
+          border-color: var(--primary-color);
+        }
+
+        .book-builder button {
+          background: none;
+          border: 1px solid var(--border-color);
+          border-radius: 6px;
+          color: var(--text-color);
+          padding: 6px 12px;
+          cursor: pointer;
+          font-size: 0.85em;
+        }
+
+        .book-builder button:hover:not(:disabled) {
+          color: var(--primary-color);
+          border-color: var(--primary-color);
+        }
+
+        .book-builder button:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .book-premise {
+          display: flex;
+          flex-direction: column;
           align-items: flex-start;
-          min-height: 100vh;
-          padding: 20px;
-          box-sizing: border-box;
+          gap: 10px;
         }
 
-        #root {
+        .book-premise textarea {
           width: 100%;
-          max-width: 900px;
+          box-sizing: border-box;
+          resize: vertical;
+        }
+
+        .book-layout {
+          display: grid;
+          grid-template-columns: minmax(260px, 1fr) 2fr;
+          gap: 20px;
+          align-items: start;
+        }
+
+        .outline-editor {
           display: flex;
           flex-direction: column;
+          gap: 12px;
+          max-height: 70vh;
+          overflow-y: auto;
+        }
+
+        .outline-editor .outline-title {
+          font-size: 1.1em;
+          font-weight: 600;
+        }
+
+        .outline-act {
+          border-left: 2px solid var(--border-color);
+          padding-left: 10px;
+        }
+
+        .outline-row {
+          display: flex;
           align-items: center;
+          gap: 4px;
         }
 
-        .stories-in-the-sky {
-          background-color: #161b22; /* Darker background for the main app container */
-          border-radius: 12px;
-          box-shadow: 0 4px 20px rgba(0, 0, 0, 0.5);
-          width: 100%;
-          overflow: hidden;
+        .outline-row input {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .outline-editor .outline-row button {
+          padding: 2px 6px;
+        }
+
+        .outline-label {
+          color: var(--secondary-color);
+          font-size: 0.8em;
+          white-space: nowrap;
+        }
+
+        .outline-chapters {
+          list-style: none;
+          margin: 8px 0;
+          padding: 0 0 0 10px;
           display: flex;
           flex-direction: column;
-          min-height: 700px; /* Minimum height for the app */
+          gap: 8px;
         }
 
-        .app-header {
-          background-color: #0d1117;
-          padding: 20px 30px;
-          border-bottom: 1px solid var(--border-color);
-          text-align: center;
-          position: relative;
+        .outline-chapter textarea {
+          width: 100%;
+          box-sizing: border-box;
+          margin-top: 4px;
+          resize: vertical;
+          font-size: 0.8em;
         }
 
-        .app-header h1 {
-          margin: 0;
+        .outline-chapter.selected .outline-status {
           color: var(--primary-color);
-          font-size: 2.2em;
-          text-shadow: 0 0 8px rgba(88, 166, 255, 0.4);
-          font-weight: 600;
+          border-color: var(--primary-color);
         }
 
-        .tabs {
+        .outline-editor .outline-add {
+          align-self: flex-start;
+          color: var(--secondary-color);
+        }
+
+        .book-progress {
           display: flex;
-          justify-content: center;
-          margin-top: 15px;
-          border-radius: 8px;
-          overflow: hidden;
+          align-items: center;
+          gap: 8px;
+          margin-bottom: 10px;
+          color: var(--secondary-color);
+          font-size: 0.9em;
         }
 
-        .tabs button {
-          background-color: var(--chat-model-bg);
+        .book-progress span {
+          flex: 1;
+        }
+
+        .book-builder button.stop-button {
+          background-color: #da3633;
+          border-color: #da3633;
+          color: #ffffff;
+        }
+
+        .chapter-summary {
+          margin-top: 12px;
           color: var(--secondary-color);
-          border: none;
-          padding: 12px 25px;
+          font-size: 0.85em;
+        }
+
+        .chapter-summary summary {
           cursor: pointer;
-          font-size: 1em;
-          font-weight: 500;
-          transition: background-color 0.3s ease, color 0.3s ease, box-shadow 0.3s ease;
-          flex-grow: 1;
-          text-align: center;
-          outline: none;
         }
 
-        .tabs button:hover:not(.active) {
-          background-color: #1f2732;
+        .tool-cards {
+          display: flex;
+          flex-direction: column;
+          align-items: flex-start;
+          gap: 4px;
+        }
+
+        .tool-card {
+          max-width: 100%;
+          border: 1px solid var(--border-color);
+          border-radius: 6px;
+          background-color: var(--bg-color);
+          font-size: 0.8em;
+        }
+
+        .tool-card.failed {
+          border-color: #f85149;
+        }
+
+        .tool-card summary {
+          display: flex;
+          gap: 6px;
+          align-items: baseline;
+          padding: 4px 10px;
+          cursor: pointer;
+          color: var(--secondary-color);
+        }
+
+        .tool-name {
+          font-weight: 600;
+          white-space: nowrap;
+        }
+
+        .tool-summary {
           color: var(--text-color);
         }
 
-        .tabs button.active {
-          background-color: var(--primary-color);
-          color: var(--bg-color);
-          font-weight: 700;
-          box-shadow: inset 0 3px 8px rgba(0, 0, 0, 0.3);
+        .tool-card dl {
+          margin: 0;
+          padding: 0 10px 6px;
         }
 
-        .tab-content {
-          flex-grow: 1;
-          padding: 20px;
+        .tool-card dt {
+          color: var(--secondary-color);
+        }
+
+        .tool-card dd {
+          margin: 0 0 4px;
+          overflow-wrap: anywhere;
+        }
+
+        .adventure-choices {
           display: flex;
           flex-direction: column;
-          position: relative; /* For absolute positioning of panels */
+          align-items: flex-start;
+          gap: 6px;
+          margin: 8px 0 4px;
         }
 
-        .panel {
-          width: 100%;
+        .adventure-choices button {
+          background: none;
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+          color: var(--text-color);
+          padding: 6px 12px;
+          cursor: pointer;
+          text-align: left;
+          font: inherit;
+          font-size: 0.9em;
+        }
+
+        .adventure-choices button:hover:not(:disabled) {
+          border-color: var(--primary-color);
+          color: var(--primary-color);
+        }
+
+        .adventure-choices button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        .choice-key {
+          font-weight: 600;
+          color: var(--primary-color);
+          margin-right: 4px;
+        }
+
+        .adventure-panel {
+          width: 220px;
+          flex-shrink: 0;
+          padding: 15px;
+          border-left: 1px solid var(--border-color);
+          background-color: var(--chat-model-bg);
+          overflow-y: auto;
+        }
+
+        .adventure-panel h2 {
+          margin: 0 0 10px;
+          font-size: 1.1em;
+        }
+
+        .adventure-panel h3 {
+          margin: 12px 0 4px;
+          color: var(--secondary-color);
+          font-size: 0.8em;
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+        }
+
+        .adventure-panel p,
+        .adventure-panel ul {
+          margin: 0;
+          font-size: 0.9em;
+        }
+
+        .adventure-panel ul {
+          padding-left: 18px;
+        }
+
+        .health-bar {
+          height: 8px;
+          border-radius: 4px;
+          background-color: var(--border-color);
+          overflow: hidden;
+          margin-bottom: 4px;
+        }
+
+        .health-bar span {
+          display: block;
           height: 100%;
+          background-color: #3fb950;
+          transition: width 0.3s ease;
+        }
+
+        .health-bar.low span {
+          background-color: #da3633;
+        }
+
+        .attachment-list {
           display: flex;
-          flex-direction: column;
-          opacity: 1;
-          transition: opacity 0.3s ease-in-out;
+          flex-wrap: wrap;
+          gap: 8px;
         }
 
-        .panel[hidden] {
-          display: none;
-          opacity: 0;
+        .chat-container > .attachment-list,
+        .chat-container > .attachment-error {
+          padding: 10px 15px 0;
         }
 
-        /* Chat Component */
-        .chat-container {
+        .message .attachment-list {
+          margin-top: 8px;
+        }
+
+        .attachment {
+          position: relative;
           display: flex;
-          flex-direction: column;
-          flex-grow: 1;
-          min-height: 500px; /* Ensure chat container has height */
+          align-items: center;
           border: 1px solid var(--border-color);
-          border-radius: 8px;
+          border-radius: 6px;
+          background-color: var(--chat-model-bg);
           overflow: hidden;
-          background-color: var(--bg-color);
         }
 
-        .messages {
-          flex-grow: 1;
-          padding: 15px;
-          overflow-y: auto;
+        .attachment.image img {
+          display: block;
+          width: 72px;
+          height: 72px;
+          object-fit: cover;
+        }
+
+        .attachment.file {
+          padding: 6px 10px;
+          font-size: 0.85em;
+        }
+
+        .attachment-name {
+          max-width: 180px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .attachment button {
+          background: none;
+          border: none;
+          color: var(--secondary-color);
+          cursor: pointer;
+          padding: 0 0 0 8px;
+        }
+
+        .attachment.image button {
+          position: absolute;
+          top: 2px;
+          right: 2px;
+          padding: 0 4px;
+          border-radius: 4px;
+          background-color: rgba(13, 17, 23, 0.8);
+        }
+
+        .attachment-error {
+          color: #f85149;
+          font-size: 0.85em;
+        }
+
+        .drop-active {
+          outline: 2px dashed var(--primary-color);
+          outline-offset: -4px;
+        }
+
+        .candidate-planner {
           display: flex;
-          flex-direction: column;
+          flex-wrap: wrap;
+          align-items: center;
           gap: 10px;
-          scroll-behavior: smooth;
+          font-size: 0.9em;
+          color: var(--secondary-color);
+        }
+
+        .candidate-planner label {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .candidate-plan {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+        }
+
+        .candidate-plan input {
+          width: 70px;
+          padding: 9px 8px;
+          border-radius: 8px;
+          border: 1px solid var(--border-color);
+          background-color: #21262d;
+          color: var(--text-color);
         }
 
-        .initial-message {
-          text-align: center;
-          color: var(--secondary-color);
-          padding: 20px;
-          font-style: italic;
+        .candidate-number {
+          font-weight: 600;
         }
 
-        .message {
-          max-width: 80%;
-          padding: 10px 15px;
-          border-radius: 18px;
-          line-height: 1.5;
-          word-wrap: break-word;
-          box-shadow: 0 2px 5px rgba(0, 0, 0, 0.2);
+        .candidate-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(260px, 1fr));
+          gap: 12px;
+          align-items: start;
         }
 
-        .message.user {
-          align-self: flex-end;
-          background-color: var(--primary-color);
-          color: var(--bg-color);
-          border-bottom-right-radius: 4px;
+        .candidate-card {
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+          padding: 12px;
+          background-color: var(--chat-model-bg);
+          min-width: 0;
         }
 
-        .message.model {
-          align-self: flex-start;
-          background-color: var(--chat-model-bg);
-          color: var(--text-color);
-          border: 1px solid var(--border-color);
-          border-bottom-left-radius: 4px;
+        .candidate-card.selected {
+          border-color: var(--primary-color);
         }
 
-        .message.model.loading {
-          background-color: var(--chat-model-bg);
-          color: var(--secondary-color);
-          font-style: italic;
-          display: inline-flex;
+        .candidate-header {
+          display: flex;
           align-items: center;
+          gap: 8px;
+          border-bottom: 1px solid var(--border-color);
+          padding-bottom: 8px;
         }
 
-        .message.model.loading .dot {
-          animation: blink 1s infinite steps(1, start);
+        .creative-generator-container .candidate-header button {
+          background: none;
+          color: var(--secondary-color);
+          padding: 2px 4px;
+          font-weight: 400;
+          font-size: 0.9em;
         }
-        .message.model.loading .dot:nth-child(1) { animation-delay: 0s; }
-        .message.model.loading .dot:nth-child(2) { animation-delay: 0.3s; }
-        .message.model.loading .dot:nth-child(3) { animation-delay: 0.6s; }
 
-        @keyframes blink {
-          0%, 100% { opacity: 0.3; }
-          50% { opacity: 1; }
+        .creative-generator-container .candidate-header button.candidate-pick {
+          flex: 1;
+          text-align: left;
         }
 
-        .message a {
+        .creative-generator-container .candidate-header button[aria-pressed="true"],
+        .creative-generator-container .candidate-header button:hover:not(:disabled) {
+          background: none;
           color: var(--primary-color);
-          text-decoration: underline;
+          transform: none;
         }
 
-        .message strong {
-          font-weight: 700;
+        .creative-generator-container .candidate-header button.candidate-favourite {
+          font-size: 1.2em;
         }
 
-        .message em {
-          font-style: italic;
+        .creative-generator-container .candidate-header button.candidate-favourite.active {
+          color: #f4c66b;
         }
 
-        .input-area {
-          display: flex;
-          padding: 15px;
-          border-top: 1px solid var(--border-color);
-          background-color: var(--bg-color);
-          gap: 10px;
+        .candidate-words {
+          font-size: 0.8em;
+          color: var(--secondary-color);
+          white-space: nowrap;
         }
 
-        .input-area input {
-          flex-grow: 1;
-          padding: 12px 15px;
-          border-radius: 25px;
-          border: 1px solid var(--border-color);
-          background-color: #21262d;
-          color: var(--text-color);
-          font-size: 1em;
-          outline: none;
-          transition: border-color 0.3s ease, box-shadow 0.3s ease;
+        .run-entry.current strong {
+          color: var(--primary-color);
         }
 
-        .input-area input:focus {
-          border-color: var(--primary-color);
-          box-shadow: 0 0 0 2px rgba(88, 166, 255, 0.3);
+        .run-candidates {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
         }
 
-        .input-area input::placeholder {
-          color: var(--secondary-color);
+        .run-candidates li {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 8px;
         }
 
-        .input-area button {
-          background-color: var(--primary-color);
-          color: var(--bg-color);
+        .run-candidates button {
+          background: none;
           border: none;
-          border-radius: 25px;
-          padding: 10px 20px;
+          padding: 2px 0;
+          color: var(--text-color);
+          text-align: left;
           cursor: pointer;
-          font-size: 1em;
-          font-weight: 600;
-          transition: background-color 0.3s ease, transform 0.2s ease;
-          outline: none;
         }
 
-        .input-area button:hover:not(:disabled) {
-          background-color: var(--button-hover-bg);
-          transform: translateY(-1px);
+        .run-candidates button:hover:not(:disabled) {
+          color: var(--primary-color);
         }
 
-        .input-area button:disabled {
-          background-color: #4a5461;
-          cursor: not-allowed;
+        .drawer.wide {
+          width: 720px;
         }
 
-        /* Creative Generator Component */
-        .creative-generator-container {
-          display: flex;
-          flex-direction: column;
-          flex-grow: 1;
-          gap: 20px;
-          min-height: 500px;
-          border: 1px solid var(--border-color);
-          border-radius: 8px;
-          background-color: var(--bg-color);
-          padding: 20px;
+        .tale-diff {
+          white-space: pre-wrap;
+          line-height: 1.6;
         }
 
-        .creative-generator-container .input-section {
-          display: flex;
-          flex-direction: column;
-          gap: 15px;
+        .tale-diff ins {
+          background-color: rgba(46, 160, 67, 0.3);
+          text-decoration: none;
         }
 
-        .creative-generator-container textarea {
-          width: 100%;
-          padding: 15px;
-          border-radius: 8px;
+        .tale-diff del {
+          background-color: rgba(248, 81, 73, 0.3);
+          color: var(--secondary-color);
+        }
+
+        .rewrite-source {
           border: 1px solid var(--border-color);
-          background-color: #21262d;
-          color: var(--text-color);
-          font-size: 1em;
-          resize: vertical;
-          min-height: 120px;
-          outline: none;
-          transition: border-color 0.3s ease, box-shadow 0.3s ease;
+          border-left: 3px solid var(--primary-color);
+          border-radius: 6px;
+          padding: 8px 12px;
+          background-color: var(--chat-model-bg);
         }
 
-        .creative-generator-container textarea:focus {
-          border-color: var(--primary-color);
-          box-shadow: 0 0 0 2px rgba(88, 166, 255, 0.3);
+        .rewrite-source-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 8px;
         }
 
-        .creative-generator-container textarea::placeholder {
+        .rewrite-source-header button {
+          background: none;
+          border: none;
           color: var(--secondary-color);
+          cursor: pointer;
         }
 
-        .creative-generator-container .controls {
-          display: flex;
-          gap: 15px;
-          align-items: center;
+        .rewrite-source p {
+          margin: 6px 0 0;
+          max-height: 8em;
+          overflow-y: auto;
+          font-size: 0.9em;
+          color: var(--secondary-color);
+          white-space: pre-wrap;
+        }
+
+        .scratchpad-pin p {
+          max-height: 10em;
+          overflow-y: auto;
+        }
+
+        .scratchpad-pin .bible-entry-actions {
           flex-wrap: wrap;
         }
 
-        .creative-generator-container select {
-          padding: 10px 15px;
-          border-radius: 8px;
-          border: 1px solid var(--border-color);
-          background-color: #21262d;
-          color: var(--text-color);
-          font-size: 1em;
-          appearance: none; /* Remove default arrow */
-          background-image: url('data:image/svg+xml;charset=US-ASCII,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%22292.4%22%20height%3D%22292.4%22%3E%3Cpath%20fill%3D%22%23c9d1d9%22%20d%3D%22M287%2069.4a17.6%2017.6%200%200%200-13-5.4H18.4c-6.5%200-12.3%203.2-16.1%208.1-3.8%204.9-3.9%2011.6-1.5%2017.7l131.8%20188c3.8%205.1%209.6%208.2%2016.2%208.2s12.4-3.1%2016.2-8.2l131.9-188c2.4-6.2%202.3-12.8-1.5-17.7z%22%2F%3E%3C%2Fsvg%3E');
-          background-repeat: no-repeat;
-          background-position: right 10px center;
-          background-size: 12px;
-          cursor: pointer;
-          outline: none;
-          transition: border-color 0.3s ease, box-shadow 0.3s ease;
+        .summary-divider {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          margin: 4px 0;
         }
 
-        .creative-generator-container select:focus {
-          border-color: var(--primary-color);
-          box-shadow: 0 0 0 2px rgba(88, 166, 255, 0.3);
+        .summary-divider::before,
+        .summary-divider::after {
+          content: '';
+          flex: 1;
+          border-top: 1px dashed var(--border-color);
         }
 
-        .creative-generator-container button {
-          background-color: var(--primary-color);
-          color: var(--bg-color);
+        .summary-divider button {
+          background: none;
           border: none;
-          border-radius: 8px;
-          padding: 10px 20px;
+          padding: 0;
+          color: var(--secondary-color);
+          font-size: 0.8em;
           cursor: pointer;
-          font-size: 1em;
-          font-weight: 600;
-          transition: background-color 0.3s ease, transform 0.2s ease;
-          outline: none;
-        }
-
-        .creative-generator-container button:hover:not(:disabled) {
-          background-color: var(--button-hover-bg);
-          transform: translateY(-1px);
         }
 
-        .creative-generator-container button:disabled {
-          background-color: #4a5461;
-          cursor: not-allowed;
+        .summary-divider button:hover {
+          text-decoration: underline;
         }
 
-        .creative-generator-container .output-section {
-          flex-grow: 1;
-          background-color: #161b22;
+        .narration-bar {
           border: 1px solid var(--border-color);
           border-radius: 8px;
-          padding: 20px;
-          overflow-y: auto;
+          padding: 8px 12px;
+          margin: 8px 0;
+          background-color: var(--chat-model-bg);
+        }
+
+        .narration-controls {
           display: flex;
-          flex-direction: column;
-          align-items: center; /* Center content horizontally */
-          justify-content: center; /* Center content vertically initially */
-          text-align: left;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
         }
 
-        .creative-generator-container .output-section.has-content {
-          justify-content: flex-start; /* Align to top if content exists */
+        .narration-controls label {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          font-size: 0.85em;
+          color: var(--secondary-color);
         }
 
-        .loading-indicator {
+        .narration-controls button,
+        .narration-controls select {
+          padding: 4px 10px;
+          font-size: 0.85em;
+        }
+
+        .narration-notice {
+          margin-top: 6px;
           color: var(--secondary-color);
+          font-size: 0.85em;
           font-style: italic;
-          display: flex;
-          align-items: center;
-          gap: 5px;
         }
 
-        .loading-indicator .dot {
-          animation: blink 1s infinite steps(1, start);
+        .message.narrating,
+        .narration-passage.narrating {
+          box-shadow: 0 0 0 2px var(--primary-color);
         }
-        .loading-indicator .dot:nth-child(1) { animation-delay: 0s; }
-        .loading-indicator .dot:nth-child(2) { animation-delay: 0.3s; }
-        .loading-indicator .dot:nth-child(3) { animation-delay: 0.6s; }
 
+        .narration-passage {
+          border-radius: 6px;
+          padding: 0 6px;
+          transition: box-shadow 0.2s;
+        }
 
-        .error-message {
-          color: #ff7b72;
-          background-color: #3b1e22;
-          padding: 10px 15px;
+        .illustration {
+          margin: 12px 0 0;
+        }
+
+        .illustration img {
+          display: block;
+          max-width: 100%;
           border-radius: 8px;
-          border: 1px solid #ff7b72;
+          border: 1px solid var(--border-color);
         }
 
-        .generated-content {
-          width: 100%;
+        .tale-header h3 {
+          flex: 1;
         }
 
-        .generated-content h3 {
-          color: var(--primary-color);
-          margin-top: 0;
-          border-bottom: 1px solid var(--border-color);
-          padding-bottom: 10px;
+        .gallery-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fill, minmax(140px, 1fr));
+          gap: 10px;
         }
 
-        .generated-content a {
-          color: var(--primary-color);
-          text-decoration: underline;
+        .gallery-item {
+          margin: 0;
         }
 
-        .generated-content strong {
-          font-weight: 700;
+        .gallery-item button {
+          display: block;
+          width: 100%;
+          padding: 0;
+          border: 1px solid var(--border-color);
+          border-radius: 6px;
+          overflow: hidden;
+          background: none;
+          cursor: pointer;
         }
 
-        .generated-content em {
-          font-style: italic;
+        .gallery-item img {
+          display: block;
+          width: 100%;
+          aspect-ratio: 1;
+          object-fit: cover;
+        }
+
+        .gallery-item figcaption {
+          margin-top: 4px;
+          color: var(--secondary-color);
+          font-size: 0.75em;
         }
 
         .placeholder-message {
@@ -767,6 +4421,18 @@ const StoriesInTheSky: React.FC = () => {
           .tab-content {
             padding: 15px;
           }
+          .chat-layout {
+            flex-direction: column;
+          }
+          .story-library,
+          .adventure-panel {
+            width: auto;
+            max-height: 220px;
+          }
+          .adventure-panel {
+            border-left: none;
+            border-top: 1px solid var(--border-color);
+          }
           .input-area {
             flex-direction: column;
             gap: 10px;
@@ -783,6 +4449,9 @@ const StoriesInTheSky: React.FC = () => {
           .creative-generator-container button {
             width: 100%;
           }
+          .book-layout {
+            grid-template-columns: 1fr;
+          }
         }
       `}</style>
     </div>
@@ -0,0 +1,255 @@
+// The API's routes, apart from the process around them, so tests can serve them
+// in-process. server/index.ts reads the settings and starts listening.
+import { createReadStream, existsSync, statSync } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+import { toUpstreamError } from './gemini.ts';
+import type { ChatBody, CountTokensBody, Gemini, GenerateBody, ImageBody, SpeechBody } from './gemini.ts';
+import { createRateLimiter } from './rateLimit.ts';
+import { isRecord } from '../services/guards.ts';
+import type { StoryErrorKind } from '../services/providers/errors.ts';
+import type { StoryChunk } from '../services/providers/types.ts';
+
+export interface AppOptions {
+  gemini: Gemini;
+  hasKey: boolean; // False turns model requests away before they reach Gemini
+  rateLimitPerMinute: number; // 0 for none
+  trustProxy: boolean; // Take the client address from X-Forwarded-For
+  staticDir: string; // The production build served outside /api
+}
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024; // Room for inline images
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const clientId = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large.');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON.');
+  }
+};
+
+// What a body field must hold. `name` is text that cannot be empty, such as a model id.
+type FieldKind = 'name' | 'text' | 'list' | 'object' | 'files';
+
+const FIELD_CHECKS: Record<FieldKind, [(value: unknown) => boolean, string]> = {
+  name: [(value) => typeof value === 'string' && value.trim() !== '', 'a non-empty string'],
+  text: [(value) => typeof value === 'string', 'a string'],
+  list: [Array.isArray, 'an array'],
+  object: [isRecord, 'an object'],
+  files: [
+    (value) =>
+      Array.isArray(value) &&
+      value.every((file) => isRecord(file) && typeof file.mimeType === 'string' && typeof file.data === 'string'),
+    'a list of files with mimeType and data',
+  ],
+};
+
+// The fields a route needs before its body may go to Gemini; optional ones are
+// checked only when present.
+interface BodyShape {
+  required: Record<string, FieldKind>;
+  optional?: Record<string, FieldKind>;
+}
+
+const CHAT_BODY: BodyShape = {
+  required: { model: 'name', systemInstruction: 'text', history: 'list', message: 'text' },
+  optional: { attachments: 'files', toolResults: 'list', tools: 'list', sampling: 'object', responseSchema: 'object' },
+};
+
+const GENERATE_BODY: BodyShape = {
+  required: { model: 'name', prompt: 'text' },
+  optional: { systemInstruction: 'text', attachments: 'files', sampling: 'object', responseSchema: 'object' },
+};
+
+const COUNT_TOKENS_BODY: BodyShape = {
+  required: { model: 'name', history: 'list' },
+  optional: { systemInstruction: 'text', message: 'text' },
+};
+
+const IMAGE_BODY: BodyShape = { required: { model: 'name', prompt: 'text' } };
+
+const SPEECH_BODY: BodyShape = { required: { model: 'name', text: 'text', voice: 'name' } };
+
+const readBody = async <T,>(req: IncomingMessage, { required, optional = {} }: BodyShape): Promise<T> => {
+  const body = await readJson(req);
+  if (!isRecord(body)) throw new HttpError(400, 'Request body must be a JSON object.');
+  const fields = [...Object.entries(required), ...Object.entries(optional).filter(([field]) => body[field] != null)];
+  for (const [field, kind] of fields) {
+    const [check, expected] = FIELD_CHECKS[kind];
+    if (!check(body[field])) throw new HttpError(400, `"${field}" must be ${expected}.`);
+  }
+  return body as T;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// Errors share one shape, { error: { kind, message, detail } }, whether they are
+// sent as JSON or as the `error` event of a stream.
+const errorBody = (error: unknown) => {
+  const { kind, message, detail } = toUpstreamError(error);
+  return { error: { kind, message, detail } };
+};
+
+const STATUS_BY_KIND: Partial<Record<StoryErrorKind, number>> = {
+  'rate-limit': 429,
+  quota: 429,
+  'invalid-key': 401,
+  safety: 422,
+  empty: 422,
+};
+
+const streamEvents = async (res: ServerResponse, chunks: AsyncGenerator<StoryChunk>) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  try {
+    for await (const chunk of chunks) {
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    }
+    res.write('event: done\ndata: {}\n\n');
+  } catch (error) {
+    if (!res.destroyed) {
+      console.error('Stream failed:', error);
+      res.write(`event: error\ndata: ${JSON.stringify(errorBody(error))}\n\n`);
+    }
+  }
+  res.end();
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+// Serves the production build, if there is one, so a deployment is a single process.
+const serveStatic = (res: ServerResponse, pathname: string, staticDir: string) => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    throw new HttpError(400, 'Malformed request path.');
+  }
+  let file = path.join(staticDir, path.normalize(decoded));
+  if (!file.startsWith(staticDir) || !existsSync(file) || statSync(file).isDirectory()) {
+    file = path.join(staticDir, 'index.html');
+  }
+  if (!existsSync(file)) {
+    sendJson(res, 404, { error: { kind: 'unknown', message: 'No build found. Run `npm run build` first.' } });
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+  createReadStream(file)
+    .on('error', (error) => {
+      // The file went away between the check and the read; the headers are already sent.
+      console.error('Static file failed:', error);
+      res.destroy();
+    })
+    .pipe(res);
+};
+
+// Builds the request handler for the API server.
+export const createApp = ({ gemini, hasKey, rateLimitPerMinute, trustProxy, staticDir }: AppOptions) => {
+  const takeToken = createRateLimiter(rateLimitPerMinute, 60_000);
+
+  const requireKey = () => {
+    if (!hasKey) throw new HttpError(401, 'GEMINI_API_KEY is not set on the server.');
+  };
+
+  const handleApi = async (req: IncomingMessage, res: ServerResponse, pathname: string, signal: AbortSignal) => {
+    if (req.method === 'GET' && pathname === '/api/status') {
+      sendJson(res, 200, { hasKey });
+      return;
+    }
+    if (req.method === 'GET' && pathname === '/api/models') {
+      requireKey();
+      sendJson(res, 200, { models: await gemini.listModels() });
+      return;
+    }
+    if (req.method !== 'POST') throw new HttpError(404, 'Not found.');
+
+    const limit = takeToken(clientId(req, trustProxy));
+    if (!limit.allowed) {
+      res.setHeader('Retry-After', String(Math.ceil(limit.retryAfterMs / 1000)));
+      sendJson(res, 429, { error: { kind: 'rate-limit', message: 'Too many requests from this client.' } });
+      return;
+    }
+    requireKey();
+
+    switch (pathname) {
+      case '/api/chat/stream':
+        await streamEvents(res, gemini.streamChat(await readBody<ChatBody>(req, CHAT_BODY), signal));
+        return;
+      case '/api/generate':
+        sendJson(res, 200, await gemini.generate(await readBody<GenerateBody>(req, GENERATE_BODY), signal));
+        return;
+      case '/api/generate/stream':
+        await streamEvents(res, gemini.generateStream(await readBody<GenerateBody>(req, GENERATE_BODY), signal));
+        return;
+      case '/api/count-tokens':
+        sendJson(res, 200, await gemini.countTokens(await readBody<CountTokensBody>(req, COUNT_TOKENS_BODY), signal));
+        return;
+      case '/api/image':
+        sendJson(res, 200, await gemini.generateImage(await readBody<ImageBody>(req, IMAGE_BODY), signal));
+        return;
+      case '/api/speech':
+        sendJson(res, 200, await gemini.speak(await readBody<SpeechBody>(req, SPEECH_BODY), signal));
+        return;
+      default:
+        throw new HttpError(404, 'Not found.');
+    }
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    // Abort the upstream call if the browser goes away, e.g. when the reader presses Stop.
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    try {
+      if (pathname.startsWith('/api/')) await handleApi(req, res, pathname, controller.signal);
+      else serveStatic(res, pathname, staticDir);
+    } catch (error) {
+      if (controller.signal.aborted || res.headersSent) return;
+      if (error instanceof HttpError) {
+        const kind = error.status === 401 ? 'invalid-key' : 'unknown';
+        sendJson(res, error.status, { error: { kind, message: error.message } });
+        return;
+      }
+      console.error('Request failed:', error);
+      const body = errorBody(error);
+      sendJson(res, STATUS_BY_KIND[body.error.kind] ?? 502, body);
+    }
+  };
+};
@@ -0,0 +1,173 @@
+// Records Gemini traffic to a JSON "cassette" and plays it back later, for offline
+// demos and tests. Each exchange is keyed by its request, so a replay answers exactly
+// the calls that were recorded, chunk by chunk and with the original timing.
+import { GenerateContentResponse } from '@google/genai';
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+export type CassetteMode = 'record' | 'replay';
+export type CassetteMethod = 'sendMessageStream' | 'generateContent' | 'generateContentStream';
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  file: string;
+}
+
+export interface RecordedChunk {
+  delayMs: number; // Since the previous chunk, or since the request for the first one
+  response: unknown;
+}
+
+export interface CassetteEntry {
+  key: string;
+  method: CassetteMethod;
+  request: unknown; // Kept for reading; the key is what replay matches on
+  chunks: RecordedChunk[];
+}
+
+export interface CassetteFile {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+// Plain data with sorted keys and without abort signals, so equal requests
+// always serialize, and hash, the same way.
+const normalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(normalize);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .filter((key) => {
+        const item = (value as Record<string, unknown>)[key];
+        return item !== undefined && typeof item !== 'function' && !(item instanceof AbortSignal);
+      })
+      .map((key) => [key, normalize((value as Record<string, unknown>)[key])]),
+  );
+};
+
+export const requestKey = (method: CassetteMethod, request: unknown) =>
+  createHash('sha256').update(JSON.stringify(normalize({ method, request }))).digest('hex').slice(0, 16);
+
+// The SDK attaches the raw HTTP response to each reply; only the reply itself is kept.
+const toRecorded = (response: GenerateContentResponse) => {
+  const { sdkHttpResponse, ...rest } = response;
+  return normalize(rest);
+};
+
+const toResponse = (recorded: unknown) => Object.assign(new GenerateContentResponse(), recorded);
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const readCassette = (file: string): CassetteEntry[] => {
+  const cassette = JSON.parse(readFileSync(file, 'utf8')) as CassetteFile;
+  if (cassette.version !== 1 || !Array.isArray(cassette.entries)) throw new Error(`${file} is not a cassette.`);
+  return cassette.entries;
+};
+
+export const createCassette = ({ mode, file }: CassetteOptions) => {
+  if (mode === 'replay' && !existsSync(file)) throw new Error(`No cassette at ${file} to replay.`);
+  // Recording adds to an existing cassette; delete the file to start afresh.
+  const entries = existsSync(file) ? readCassette(file) : [];
+  // How many recordings of each key have been played, so repeated requests
+  // get their replies in recorded order. The last one repeats once they run out.
+  const played = new Map<string, number>();
+
+  const save = (entry: CassetteEntry) => {
+    entries.push(entry);
+    mkdirSync(path.dirname(file), { recursive: true });
+    const cassette: CassetteFile = { version: 1, entries };
+    writeFileSync(file, `${JSON.stringify(cassette, null, 2)}\n`);
+  };
+
+  const take = (method: CassetteMethod, request: unknown) => {
+    const key = requestKey(method, request);
+    const matches = entries.filter((entry) => entry.key === key);
+    if (matches.length === 0) throw new Error(`The cassette has no ${method} recording for this request (key ${key}).`);
+    const count = played.get(key) ?? 0;
+    played.set(key, count + 1);
+    return matches[Math.min(count, matches.length - 1)];
+  };
+
+  async function* replayChunks(entry: CassetteEntry, signal?: AbortSignal): AsyncGenerator<GenerateContentResponse> {
+    for (const chunk of entry.chunks) {
+      await wait(chunk.delayMs, signal);
+      yield toResponse(chunk.response);
+    }
+  }
+
+  // Passes the live stream through, keeping each chunk; the exchange is saved
+  // only once the stream has finished.
+  async function* recordChunks(
+    method: CassetteMethod,
+    request: unknown,
+    stream: AsyncGenerator<GenerateContentResponse>,
+    startedAt: number,
+  ): AsyncGenerator<GenerateContentResponse> {
+    const chunks: RecordedChunk[] = [];
+    let last = startedAt;
+    for await (const response of stream) {
+      const now = Date.now();
+      chunks.push({ delayMs: now - last, response: toRecorded(response) });
+      last = now;
+      yield response;
+    }
+    save({ key: requestKey(method, request), method, request: normalize(request), chunks });
+  }
+
+  return {
+    mode,
+    file,
+
+    async stream(
+      method: CassetteMethod,
+      request: unknown,
+      signal: AbortSignal | undefined,
+      live: () => Promise<AsyncGenerator<GenerateContentResponse>>,
+    ): Promise<AsyncGenerator<GenerateContentResponse>> {
+      if (mode === 'replay') return replayChunks(take(method, request), signal);
+      const startedAt = Date.now();
+      return recordChunks(method, request, await live(), startedAt);
+    },
+
+    async call(
+      method: CassetteMethod,
+      request: unknown,
+      signal: AbortSignal | undefined,
+      live: () => Promise<GenerateContentResponse>,
+    ): Promise<GenerateContentResponse> {
+      if (mode === 'replay') {
+        const [chunk] = take(method, request).chunks;
+        await wait(chunk.delayMs, signal);
+        return toResponse(chunk.response);
+      }
+      const startedAt = Date.now();
+      const response = await live();
+      save({
+        key: requestKey(method, request),
+        method,
+        request: normalize(request),
+        chunks: [{ delayMs: Date.now() - startedAt, response: toRecorded(response) }],
+      });
+      return response;
+    },
+  };
+};
+
+export type Cassette = ReturnType<typeof createCassette>;
@@ -0,0 +1,300 @@
+import { ApiError, FinishReason, GoogleGenAI, HarmProbability, Modality } from '@google/genai';
+import type { GenerateContentParameters, GenerateContentResponse } from '@google/genai';
+import type { Cassette } from './cassette.ts';
+import type { StoryErrorKind } from '../services/providers/errors.ts';
+import type {
+  ChatStreamRequest,
+  CountTokensRequest,
+  GenerateRequest,
+  GeneratedAudio,
+  GeneratedImage,
+  ImageRequest,
+  ModelInfo,
+  PromptAttachment,
+  SpeechRequest,
+  StoryChunk,
+  ToolCall,
+  ToolResult,
+} from '../services/providers/types.ts';
+
+export type ChatBody = Omit<ChatStreamRequest, 'signal'>;
+export type GenerateBody = Omit<GenerateRequest, 'signal'>;
+export type CountTokensBody = Omit<CountTokensRequest, 'signal'>;
+export type ImageBody = Omit<ImageRequest, 'signal'>;
+export type SpeechBody = Omit<SpeechRequest, 'signal'>;
+
+export interface GeminiOptions {
+  apiKey: string;
+  baseUrl?: string; // Points the SDK at a stand-in, e.g. a local fake during tests
+  cassette?: Cassette; // Records model replies, or answers from a recording instead of the API
+}
+
+// A failure already sorted into the kinds the browser understands.
+export class UpstreamError extends Error {
+  readonly kind: StoryErrorKind;
+  readonly detail?: string;
+
+  constructor(kind: StoryErrorKind, message: string, detail?: string) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.kind = kind;
+    this.detail = detail;
+  }
+}
+
+const FALLBACK_MODELS: ModelInfo[] = [
+  { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro (preview)' },
+  { id: 'gemini-3-flash-preview', label: 'Gemini 3 Flash (preview)' },
+];
+
+const BLOCKING_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.RECITATION,
+];
+
+// "HARM_CATEGORY_DANGEROUS_CONTENT" -> "dangerous content"
+const categoryLabel = (category = '') => category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+// Throws when the prompt or the reply was blocked, naming the categories that tripped.
+const checkBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    const flagged = (response.promptFeedback?.safetyRatings ?? []).filter((rating) => rating.blocked);
+    throw new UpstreamError('safety', `Prompt blocked: ${blockReason}`, flagged.map((rating) => categoryLabel(rating.category)).join(', ') || 'your message');
+  }
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason && BLOCKING_FINISH_REASONS.includes(candidate.finishReason)) {
+    const flagged = (candidate.safetyRatings ?? []).filter(
+      (rating) => rating.blocked || rating.probability === HarmProbability.HIGH || rating.probability === HarmProbability.MEDIUM,
+    );
+    const detail = candidate.finishReason === FinishReason.RECITATION
+      ? 'it repeated copyrighted text'
+      : flagged.map((rating) => categoryLabel(rating.category)).join(', ') || candidate.finishReason.toLowerCase();
+    throw new UpstreamError('safety', `Reply blocked: ${candidate.finishReason}`, detail);
+  }
+};
+
+const emptyResponseError = (finishReason?: string) =>
+  new UpstreamError(
+    'empty',
+    `Empty response${finishReason ? ` (${finishReason})` : ''}`,
+    finishReason === FinishReason.MAX_TOKENS ? 'it hit the output limit before writing anything' : undefined,
+  );
+
+// The first inline image or audio part of a reply.
+const inlinePart = (response: GenerateContentResponse) =>
+  response.candidates?.[0]?.content?.parts?.find((part) => part.inlineData?.data)?.inlineData;
+
+// Images go to the model as inline data; text files as text, named so the model
+// can tell them apart from the prompt.
+const toParts = (text: string, attachments: PromptAttachment[] = []) => [
+  ...(text ? [{ text }] : []),
+  ...attachments.map((file) =>
+    file.mimeType.startsWith('image/')
+      ? { inlineData: { mimeType: file.mimeType, data: file.data } }
+      : { text: `Attached file "${file.name}":\n${file.data}` },
+  ),
+];
+
+// Results go back as the next turn, one function response per call.
+const toResultParts = (results: ToolResult[]) =>
+  results.map(({ id, name, response }) => ({ functionResponse: { ...(id && { id }), name, response } }));
+
+const replyParts = (response: GenerateContentResponse) => response.candidates?.[0]?.content?.parts ?? [];
+
+// Read from the parts rather than `response.text`, which warns whenever a reply
+// also holds function calls.
+const replyText = (response: GenerateContentResponse) =>
+  replyParts(response)
+    .filter((part) => part.text && !part.thought)
+    .map((part) => part.text)
+    .join('');
+
+const toolCallsOf = (response: GenerateContentResponse): ToolCall[] =>
+  replyParts(response)
+    .filter((part) => part.functionCall?.name)
+    .map(({ functionCall, thoughtSignature }) => ({
+      ...(functionCall!.id && { id: functionCall!.id }),
+      name: functionCall!.name!,
+      args: functionCall!.args ?? {},
+      ...(thoughtSignature && { thoughtSignature }),
+    }));
+
+const usageOf = ({ usageMetadata: usage }: GenerateContentResponse) =>
+  usage && {
+    promptTokens: usage.promptTokenCount ?? 0,
+    outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+  };
+
+const toChunk = (response: GenerateContentResponse): StoryChunk => {
+  const toolCalls = toolCallsOf(response);
+  return {
+    text: replyText(response),
+    ...(toolCalls.length > 0 && { toolCalls }),
+    usage: usageOf(response),
+  };
+};
+
+// Yields text, tool calls and usage from a response stream, raising blocks and
+// empty replies as UpstreamErrors. A reply of only tool calls is not empty.
+async function* readStream(stream: AsyncGenerator<GenerateContentResponse>): AsyncGenerator<StoryChunk> {
+  let hasContent = false;
+  let finishReason: string | undefined;
+  for await (const response of stream) {
+    checkBlocked(response);
+    finishReason = response.candidates?.[0]?.finishReason ?? finishReason;
+    const chunk = toChunk(response);
+    if (chunk.text || chunk.toolCalls) hasContent = true;
+    if (chunk.text || chunk.toolCalls || chunk.usage) yield chunk;
+  }
+  if (!hasContent) throw emptyResponseError(finishReason);
+}
+
+const classifyApiError = (error: ApiError): StoryErrorKind => {
+  const message = error.message.toLowerCase();
+  if (error.status === 429) {
+    // Per-minute limits clear by themselves; daily or billing quotas do not.
+    return /per ?day|billing/.test(message) ? 'quota' : 'rate-limit';
+  }
+  if (error.status === 401 || error.status === 403 || message.includes('api key not valid') || message.includes('api_key_invalid')) {
+    return 'invalid-key';
+  }
+  if (error.status >= 500) return 'server';
+  return 'unknown';
+};
+
+// Sorts anything the SDK throws into an UpstreamError.
+export const toUpstreamError = (error: unknown): UpstreamError => {
+  if (error instanceof UpstreamError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ApiError) return new UpstreamError(classifyApiError(error), message);
+  // fetch rejects with a TypeError when the upstream could not be reached.
+  if (error instanceof TypeError && /fetch/i.test(message)) return new UpstreamError('network', message);
+  return new UpstreamError('unknown', message);
+};
+
+export const createGemini = ({ apiKey, baseUrl, cassette }: GeminiOptions) => {
+  // Made on first use: the SDK refuses an empty key, and a replay never needs one.
+  let sdk: GoogleGenAI | undefined;
+  const client = () => (sdk ??= new GoogleGenAI({ apiKey, ...(baseUrl && { httpOptions: { baseUrl } }) }));
+  const replaying = cassette?.mode === 'replay';
+
+  // Every reply the model writes goes through the cassette, when there is one.
+  const generateContent = (params: GenerateContentParameters, signal: AbortSignal) =>
+    cassette
+      ? cassette.call('generateContent', params, signal, () => client().models.generateContent(params))
+      : client().models.generateContent(params);
+
+  const generateContentStream = (params: GenerateContentParameters, signal: AbortSignal) =>
+    cassette
+      ? cassette.stream('generateContentStream', params, signal, () => client().models.generateContentStream(params))
+      : client().models.generateContentStream(params);
+
+  const configFor = ({ systemInstruction, sampling, responseSchema }: GenerateBody, signal: AbortSignal) => ({
+    systemInstruction,
+    ...sampling,
+    ...(responseSchema && { responseMimeType: 'application/json', responseSchema }),
+    abortSignal: signal,
+  });
+
+  return {
+    async listModels(): Promise<ModelInfo[]> {
+      if (replaying) return FALLBACK_MODELS;
+      try {
+        const pager = await client().models.list({ config: { pageSize: 100 } });
+        const models = pager.page
+          .filter((model) => model.name && model.supportedActions?.includes('generateContent'))
+          .map((model) => {
+            const id = model.name!.replace(/^models\//, '');
+            return { id, label: model.displayName || id };
+          });
+        return models.length > 0 ? models : FALLBACK_MODELS;
+      } catch (error) {
+        console.error('Failed to list Gemini models:', error);
+        return FALLBACK_MODELS;
+      }
+    },
+
+    async *streamChat(
+      { model, systemInstruction, history, message, attachments, toolResults, tools, sampling, responseSchema }: ChatBody,
+      signal: AbortSignal,
+    ): AsyncGenerator<StoryChunk> {
+      const config = {
+        ...configFor({ model, systemInstruction, prompt: message, sampling, responseSchema }, signal),
+        ...(tools?.length && { tools: [{ functionDeclarations: tools }] }),
+      };
+      const parts = toolResults?.length ? toResultParts(toolResults) : toParts(message, attachments);
+      const send = () => client().chats.create({ model, config, history }).sendMessageStream({ message: parts });
+      yield* readStream(
+        await (cassette ? cassette.stream('sendMessageStream', { model, config, history, message: parts }, signal, send) : send()),
+      );
+    },
+
+    async generate(body: GenerateBody, signal: AbortSignal): Promise<StoryChunk> {
+      const response = await generateContent(
+        { model: body.model, contents: toParts(body.prompt, body.attachments), config: configFor(body, signal) },
+        signal,
+      );
+      checkBlocked(response);
+      if (!response.text) throw emptyResponseError(response.candidates?.[0]?.finishReason);
+      return toChunk(response);
+    },
+
+    async *generateStream(body: GenerateBody, signal: AbortSignal): AsyncGenerator<StoryChunk> {
+      const stream = await generateContentStream(
+        { model: body.model, contents: toParts(body.prompt, body.attachments), config: configFor(body, signal) },
+        signal,
+      );
+      yield* readStream(stream);
+    },
+
+    // The system instruction is counted as a leading turn, since the Gemini API
+    // does not take one when counting. Counts are not recorded, so a replay fails
+    // them at once and the app falls back to its own estimate.
+    async countTokens({ model, systemInstruction, history, message }: CountTokensBody, signal: AbortSignal) {
+      if (replaying) throw new UpstreamError('network', 'Token counts are not recorded in replay mode.');
+      const contents = [
+        ...(systemInstruction ? [{ role: 'user', parts: [{ text: systemInstruction }] }] : []),
+        ...history,
+        ...(message ? [{ role: 'user', parts: [{ text: message }] }] : []),
+      ];
+      const response = await client().models.countTokens({ model, contents, config: { abortSignal: signal } });
+      return { totalTokens: response.totalTokens ?? 0 };
+    },
+
+    async generateImage({ model, prompt }: ImageBody, signal: AbortSignal): Promise<GeneratedImage> {
+      const response = await generateContent(
+        { model, contents: prompt, config: { responseModalities: [Modality.IMAGE], abortSignal: signal } },
+        signal,
+      );
+      checkBlocked(response);
+      const image = inlinePart(response);
+      if (!image?.data) throw new UpstreamError('empty', 'No image returned', 'no image was drawn');
+      return { mimeType: image.mimeType ?? 'image/png', data: image.data, usage: usageOf(response) };
+    },
+
+    async speak({ model, text, voice }: SpeechBody, signal: AbortSignal): Promise<GeneratedAudio> {
+      const response = await generateContent(
+        {
+          model,
+          contents: text,
+          config: {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+            abortSignal: signal,
+          },
+        },
+        signal,
+      );
+      checkBlocked(response);
+      const audio = inlinePart(response);
+      if (!audio?.data) throw new UpstreamError('empty', 'No audio returned', 'nothing was read aloud');
+      return { mimeType: audio.mimeType ?? 'audio/L16;codec=pcm;rate=24000', data: audio.data, usage: usageOf(response) };
+    },
+  };
+};
+
+export type Gemini = ReturnType<typeof createGemini>;
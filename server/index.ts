@@ -0,0 +1,59 @@
+// A small API server that holds the Gemini key so it never reaches the browser.
+// The app talks to it over /api; streaming replies arrive as server-sent events.
+//
+//   npm run server
+//
+// Settings come from the environment or .env.local:
+//   GEMINI_API_KEY         required for live stories
+//   GEMINI_UPSTREAM_URL    send model calls somewhere other than Google, e.g. a local fake
+//   API_PORT, API_HOST     where to listen (default localhost:8787)
+//   RATE_LIMIT_PER_MINUTE  requests allowed per client per minute (default 30, 0 for none)
+//   TRUST_PROXY=1          take the client address from X-Forwarded-For
+//   GEMINI_CASSETTE        "record" saves every model reply to a cassette file;
+//                          "replay" answers from it, with no key and no network
+//   GEMINI_CASSETTE_FILE   the cassette (default cassettes/gemini.json)
+import { existsSync } from 'node:fs';
+import { createServer } from 'node:http';
+import path from 'node:path';
+import { createApp } from './app.ts';
+import { createCassette } from './cassette.ts';
+import type { CassetteMode } from './cassette.ts';
+import { createGemini } from './gemini.ts';
+
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const PORT = Number(process.env.API_PORT) || 8787;
+const HOST = process.env.API_HOST || 'localhost';
+const RATE_LIMIT = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 30);
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+const STATIC_DIR = path.resolve('dist');
+
+const apiKey = process.env.GEMINI_API_KEY ?? '';
+const upstreamUrl = process.env.GEMINI_UPSTREAM_URL || undefined;
+const cassetteMode = (process.env.GEMINI_CASSETTE || undefined) as CassetteMode | undefined;
+if (cassetteMode && cassetteMode !== 'record' && cassetteMode !== 'replay') {
+  throw new Error(`GEMINI_CASSETTE must be "record" or "replay", not "${cassetteMode}".`);
+}
+const cassette = cassetteMode
+  ? createCassette({ mode: cassetteMode, file: path.resolve(process.env.GEMINI_CASSETTE_FILE || 'cassettes/gemini.json') })
+  : undefined;
+const gemini = createGemini({ apiKey, baseUrl: upstreamUrl, cassette });
+
+const server = createServer(
+  createApp({
+    gemini,
+    hasKey: Boolean(apiKey) || cassette?.mode === 'replay',
+    rateLimitPerMinute: RATE_LIMIT,
+    trustProxy: TRUST_PROXY,
+    staticDir: STATIC_DIR,
+  }),
+);
+
+server.listen(PORT, HOST, () => {
+  console.log(`Stories in the Sky API listening on http://${HOST}:${PORT}`);
+  if (cassette) console.log(`${cassette.mode === 'record' ? 'Recording model replies to' : 'Replaying model replies from'} ${cassette.file}`);
+  if (!apiKey && cassette?.mode !== 'replay') console.warn('GEMINI_API_KEY is not set; model requests will fail until it is.');
+  if (upstreamUrl) console.log(`Sending model requests to ${upstreamUrl}`);
+});
@@ -0,0 +1,28 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // How long until the client's window resets; 0 when allowed
+}
+
+// A fixed-window limiter keyed by client. Each client may make `limit` requests
+// per `windowMs`; the window starts with its first request.
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  return (clientId: string, now = Date.now()): RateLimitResult => {
+    if (limit <= 0) return { allowed: true, retryAfterMs: 0 };
+    let window = windows.get(clientId);
+    if (!window || now - window.startedAt >= windowMs) {
+      window = { startedAt: now, count: 0 };
+      windows.set(clientId, window);
+    }
+    // Drop stale windows now and then so the map cannot grow without bound.
+    if (windows.size > 10_000) {
+      for (const [id, entry] of windows) {
+        if (now - entry.startedAt >= windowMs) windows.delete(id);
+      }
+    }
+    if (window.count >= limit) return { allowed: false, retryAfterMs: window.startedAt + windowMs - now };
+    window.count++;
+    return { allowed: true, retryAfterMs: 0 };
+  };
+};
@@ -0,0 +1,98 @@
+import { Schema, Type } from '@google/genai';
+import { AdventureState, AdventureTurn, Message } from '../types';
+import { isRecord } from './guards';
+
+export const ADVENTURE_INSTRUCTION = [
+  'This story is a choose-your-own-adventure game and the reader is the player.',
+  'Each turn, write a passage of about 100 to 250 words in the second person that resolves the player\'s action, then offer two to four short, distinct choices for what to do next.',
+  'Track the player\'s location, health from 0 to 100 and inventory, and report them after every turn. Only change them when the story gives a reason.',
+  'If health reaches 0 the adventure ends; say so in the passage and offer choices to start again.',
+].join(' ');
+
+export const ADVENTURE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    passage: { type: Type.STRING },
+    choices: { type: Type.ARRAY, minItems: '2', maxItems: '4', items: { type: Type.STRING } },
+    state: {
+      type: Type.OBJECT,
+      properties: {
+        location: { type: Type.STRING },
+        health: { type: Type.INTEGER, minimum: 0, maximum: 100 },
+        inventory: { type: Type.ARRAY, items: { type: Type.STRING } },
+      },
+      propertyOrdering: ['location', 'health', 'inventory'],
+    },
+  },
+  required: ['passage', 'choices'],
+  propertyOrdering: ['passage', 'choices', 'state'], // Passage first, so it can be shown while it streams
+};
+
+// The game state as of the end of `branch`, from the latest reply that reported one.
+export const latestAdventureState = (branch: Message[]): AdventureState | undefined =>
+  [...branch].reverse().find((msg) => msg.adventure?.state)?.adventure?.state;
+
+// The message actually sent for a player's action, carrying the state forward.
+export const withAdventureState = (action: string, state?: AdventureState) =>
+  state
+    ? `Current game state:\n${JSON.stringify(state)}\n\nPlayer action: ${action}`
+    : `The adventure begins. Player action: ${action}`;
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '', b: '', f: '', '"': '"', '\\': '\\', '/': '/' };
+
+// Pulls the passage out of a reply that is still streaming, so it can be shown
+// as it arrives instead of as raw JSON.
+export const streamingPassage = (json: string) => {
+  const start = json.match(/"passage"\s*:\s*"/);
+  if (!start) return '';
+  let passage = '';
+  for (let i = start.index! + start[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      passage += char;
+      continue;
+    }
+    const escaped = json[i + 1];
+    if (escaped === undefined) break;
+    if (escaped === 'u') {
+      const hex = json.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      passage += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      passage += ESCAPES[escaped] ?? escaped;
+      i++;
+    }
+  }
+  return passage;
+};
+
+const isText = (value: unknown): value is string => typeof value === 'string';
+
+// Also reads the state saved with an imported story.
+export const toAdventureState = (value: unknown): AdventureState | undefined => {
+  if (!isRecord(value)) return undefined;
+  const state: AdventureState = {};
+  if (isText(value.location) && value.location.trim()) state.location = value.location.trim();
+  if (typeof value.health === 'number') state.health = Math.max(0, Math.min(100, Math.round(value.health)));
+  if (Array.isArray(value.inventory)) state.inventory = value.inventory.filter(isText);
+  return state;
+};
+
+// Reads a finished reply. Returns null when it is not valid JSON, e.g. when the
+// reader stopped it part way.
+export const parseAdventureTurn = (text: string): (AdventureTurn & { passage: string }) | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    return null;
+  }
+  if (!isRecord(parsed) || !isText(parsed.passage)) return null;
+  const choices = (Array.isArray(parsed.choices) ? parsed.choices : [])
+    .filter((choice: unknown): choice is string => isText(choice) && choice.trim() !== '')
+    .map((choice) => choice.trim())
+    .slice(0, 4);
+  return { passage: parsed.passage.trim(), choices, state: toAdventureState(parsed.state) };
+};
@@ -0,0 +1,95 @@
+import { Part } from '@google/genai';
+import { Attachment } from '../types';
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+const TEXT_TYPES: Record<string, string> = { '.txt': 'text/plain', '.md': 'text/markdown', '.markdown': 'text/markdown' };
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_TEXT_BYTES = 200 * 1024;
+// Base64 grows images by a third, and the local API server takes 20 MB per request.
+const MAX_TOTAL_BYTES = 12 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 6;
+
+// For the file picker's `accept` attribute.
+export const ATTACHMENT_ACCEPT = [...IMAGE_TYPES, ...Object.keys(TEXT_TYPES)].join(',');
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const extensionOf = (name: string) => name.slice(name.lastIndexOf('.')).toLowerCase();
+
+const textTypeOf = (file: File) => (file.type.startsWith('image/') ? undefined : TEXT_TYPES[extensionOf(file.name)]);
+
+export const isImageAttachment = (attachment: Attachment) => attachment.mimeType.startsWith('image/');
+
+export const attachmentUrl = (attachment: Attachment) => `data:${attachment.mimeType};base64,${attachment.data}`;
+
+// Why a file cannot be attached, or null when it can.
+const checkFile = (file: File): string | null => {
+  if (IMAGE_TYPES.includes(file.type)) {
+    return file.size > MAX_IMAGE_BYTES ? `"${file.name}" is ${formatBytes(file.size)}; images can be up to ${formatBytes(MAX_IMAGE_BYTES)}.` : null;
+  }
+  if (textTypeOf(file)) {
+    return file.size > MAX_TEXT_BYTES ? `"${file.name}" is ${formatBytes(file.size)}; text files can be up to ${formatBytes(MAX_TEXT_BYTES)}.` : null;
+  }
+  return `"${file.name}" is not a supported file. Attach PNG, JPEG, WebP or HEIC images, or .txt and .md files.`;
+};
+
+const readDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read "${file.name}".`));
+    reader.readAsDataURL(file);
+  });
+
+const readFile = async (file: File): Promise<Attachment> => {
+  const textType = textTypeOf(file);
+  const data = textType ? await file.text() : (await readDataUrl(file)).replace(/^data:[^,]*,/, '');
+  return { id: crypto.randomUUID(), name: file.name, mimeType: textType ?? file.type, data, size: file.size };
+};
+
+// Reads the files that pass the size and type checks. Files that do not come
+// back as errors naming the file, before anything is uploaded.
+export const readAttachments = async (files: File[], existing: Attachment[]) => {
+  const attachments: Attachment[] = [];
+  const errors: string[] = [];
+  let total = existing.reduce((sum, attachment) => sum + attachment.size, 0);
+  for (const file of files) {
+    const problem = checkFile(file);
+    if (problem) {
+      errors.push(problem);
+    } else if (existing.length + attachments.length >= MAX_ATTACHMENTS) {
+      errors.push(`"${file.name}" was left out; a prompt can carry up to ${MAX_ATTACHMENTS} files.`);
+    } else if (total + file.size > MAX_TOTAL_BYTES) {
+      errors.push(`"${file.name}" was left out; attachments can add up to ${formatBytes(MAX_TOTAL_BYTES)} per prompt.`);
+    } else {
+      try {
+        attachments.push(await readFile(file));
+        total += file.size;
+      } catch (err) {
+        errors.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+  }
+  return { attachments, errors };
+};
+
+// The attachments as Gemini parts, matching what the API server sends for a new turn.
+export const attachmentParts = (attachments: Attachment[] = []): Part[] =>
+  attachments.map((attachment) =>
+    isImageAttachment(attachment)
+      ? { inlineData: { mimeType: attachment.mimeType, data: attachment.data } }
+      : { text: `Attached file "${attachment.name}":\n${attachment.data}` },
+  );
+
+// The attachments of an earlier turn. Images are only sent with their own turn:
+// the limit above is per prompt, and re-sending every picture with every turn
+// would soon pass what the API server accepts. Text files count as tokens, so
+// compaction keeps them in check.
+export const historyAttachmentParts = (attachments: Attachment[] = []): Part[] =>
+  attachments.map((attachment) =>
+    isImageAttachment(attachment)
+      ? { text: `[The reader attached the picture "${attachment.name}" here; it was shown to you with this turn.]` }
+      : { text: `Attached file "${attachment.name}":\n${attachment.data}` },
+  );
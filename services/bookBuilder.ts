@@ -0,0 +1,179 @@
+import { Schema, Type } from '@google/genai';
+import { BibleEntry, Book, BookAct, BookChapter, UsageRecord } from '../types';
+import { isRecord, recordsIn } from './guards';
+import { SamplingOptions, StoryProvider } from './providers';
+import { withBible } from './storyBible';
+import { toUsageRecord } from './usage';
+
+export const BOOK_INSTRUCTION =
+  'You are a novelist who plans carefully and writes vivid, well-paced long-form fiction. Every chapter stays true to the outline and to everything that has already happened.';
+
+const OUTLINE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    acts: {
+      type: Type.ARRAY,
+      minItems: '1',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          chapters: {
+            type: Type.ARRAY,
+            minItems: '1',
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                title: { type: Type.STRING },
+                beats: { type: Type.ARRAY, items: { type: Type.STRING } },
+              },
+              required: ['title', 'beats'],
+              propertyOrdering: ['title', 'beats'],
+            },
+          },
+        },
+        required: ['title', 'chapters'],
+        propertyOrdering: ['title', 'chapters'],
+      },
+    },
+  },
+  required: ['title', 'acts'],
+  propertyOrdering: ['title', 'acts'],
+};
+
+export const createChapter = (title = 'New chapter', beats: string[] = []): BookChapter => ({
+  id: crypto.randomUUID(),
+  title,
+  beats,
+});
+
+export const createAct = (title = 'New act', chapters: BookChapter[] = [createChapter()]): BookAct => ({
+  id: crypto.randomUUID(),
+  title,
+  chapters,
+});
+
+const asText = (value: unknown, fallback: string) => (typeof value === 'string' && value.trim() ? value.trim() : fallback);
+
+const parseOutline = (text: string, premise: string): Book => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    throw new Error('The model did not return a readable outline.');
+  }
+  const outline = isRecord(parsed) ? parsed : {};
+  const acts: BookAct[] = recordsIn(outline.acts).map((act, actIndex) =>
+    createAct(
+      asText(act.title, `Act ${actIndex + 1}`),
+      recordsIn(act.chapters).map((chapter, chapterIndex) =>
+        createChapter(
+          asText(chapter.title, `Chapter ${chapterIndex + 1}`),
+          (Array.isArray(chapter.beats) ? chapter.beats : []).filter(
+            (beat: unknown): beat is string => typeof beat === 'string' && beat.trim() !== '',
+          ),
+        ),
+      ),
+    ),
+  );
+  if (!acts.some((act) => act.chapters.length > 0)) throw new Error('The outline has no chapters.');
+  const now = Date.now();
+  return { id: crypto.randomUUID(), title: asText(outline.title, 'Untitled book'), premise, acts, createdAt: now, updatedAt: now };
+};
+
+interface OutlineOptions {
+  provider: StoryProvider;
+  model: string;
+  premise: string;
+  bible: BibleEntry[];
+  sampling?: SamplingOptions;
+  onUsage: (record: UsageRecord) => void; // Called once the model has answered, even if the outline cannot be read
+  signal?: AbortSignal;
+}
+
+// Asks for a structured outline of the whole book: acts, chapters and the beats of each.
+export const generateOutline = async ({ provider, model, premise, bible, sampling, onUsage, signal }: OutlineOptions): Promise<Book> => {
+  const prompt = [
+    'Plan a book from the premise below. Give it a title and divide it into acts, each with a few chapters.',
+    'For every chapter list three to five beats: the concrete events that must happen in it, in order. Build to a satisfying ending.',
+    `Premise:\n"""\n${premise}\n"""`,
+  ].join('\n\n');
+  const systemInstruction = withBible(BOOK_INSTRUCTION, bible);
+  const { text, usage } = await provider.generate({
+    model,
+    prompt,
+    systemInstruction,
+    responseSchema: OUTLINE_SCHEMA,
+    sampling,
+    signal,
+  });
+  onUsage(toUsageRecord(model, usage, `${systemInstruction}\n${prompt}`, text));
+  return parseOutline(text, premise);
+};
+
+// Every chapter in reading order, with its act and its number across the whole book.
+export const listChapters = (book: Book) =>
+  book.acts.flatMap((act) => act.chapters.map((chapter) => ({ act, chapter }))).map((entry, index) => ({ ...entry, number: index + 1 }));
+
+export const isWritten = (chapter: BookChapter) => Boolean(chapter.summary);
+
+// The first chapter still to write, which is where writing resumes.
+export const nextUnwritten = (book: Book) => listChapters(book).find(({ chapter }) => !isWritten(chapter))?.chapter;
+
+export const updateChapter = (book: Book, chapterId: string, patch: Partial<BookChapter>): Book => ({
+  ...book,
+  acts: book.acts.map((act) => ({
+    ...act,
+    chapters: act.chapters.map((chapter) => (chapter.id === chapterId ? { ...chapter, ...patch } : chapter)),
+  })),
+});
+
+export const formatOutline = (book: Book) => {
+  let number = 0;
+  return [
+    `# ${book.title}`,
+    ...book.acts.map((act, actIndex) =>
+      [
+        `## Act ${actIndex + 1}: ${act.title}`,
+        ...act.chapters.map((chapter) =>
+          [`### Chapter ${++number}: ${chapter.title}`, ...chapter.beats.map((beat) => `- ${beat}`)].join('\n'),
+        ),
+      ].join('\n\n'),
+    ),
+  ].join('\n\n');
+};
+
+// The prompt for one chapter: the whole outline, summaries of the chapters before
+// it (rather than their full text, which would soon outgrow the context) and its beats.
+export const buildChapterPrompt = (book: Book, chapterId: string) => {
+  const chapters = listChapters(book);
+  const index = chapters.findIndex(({ chapter }) => chapter.id === chapterId);
+  if (index === -1) throw new Error('That chapter is no longer in the outline.');
+  const { chapter, number } = chapters[index];
+  const storySoFar = chapters
+    .slice(0, index)
+    .map((entry) => `Chapter ${entry.number}, ${entry.chapter.title}: ${entry.chapter.summary ?? '(not written yet; follow its beats in the outline)'}`)
+    .join('\n\n');
+  return [
+    `Premise:\n"""\n${book.premise}\n"""`,
+    `Outline:\n\n${formatOutline(book)}`,
+    storySoFar ? `The story so far:\n\n${storySoFar}` : 'This is the first chapter.',
+    [
+      `Now write Chapter ${number}, "${chapter.title}", in full.`,
+      chapter.beats.length > 0 ? `It must cover these beats, in order:\n${chapter.beats.map((beat) => `- ${beat}`).join('\n')}` : '',
+      'Write only this chapter\'s prose in Markdown, with no heading. Pick up where the previous chapter left off and stop at the end of this chapter without starting the next.',
+    ].filter(Boolean).join('\n\n'),
+  ].join('\n\n');
+};
+
+// A short summary of a finished chapter, carried forward into later prompts, and what it cost.
+export const summarizeChapter = async (provider: StoryProvider, model: string, text: string, signal?: AbortSignal) => {
+  const prompt = [
+    'Summarise this chapter in four to six sentences for the writer of the next one.',
+    'Keep names, places, who knows what, unresolved threads and how the chapter ends.',
+    `Chapter:\n"""\n${text}\n"""`,
+  ].join('\n\n');
+  const { text: summary, usage } = await provider.generate({ model, prompt, sampling: { temperature: 0.2 }, signal });
+  return { summary: summary.trim(), usage: toUsageRecord(model, usage, prompt, summary) };
+};
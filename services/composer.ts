@@ -0,0 +1,29 @@
+// The chat composer's unsent draft and the turns typed into it, kept across reloads.
+const DRAFT_KEY = 'stories-in-the-sky:chat-draft';
+const HISTORY_KEY = 'stories-in-the-sky:chat-input-history';
+const MAX_HISTORY = 50;
+
+export const loadDraft = () => localStorage.getItem(DRAFT_KEY) ?? '';
+
+export const saveDraft = (text: string) => {
+  if (text.trim()) localStorage.setItem(DRAFT_KEY, text);
+  else localStorage.removeItem(DRAFT_KEY);
+};
+
+// Oldest first, as the up arrow walks back from the end.
+export const loadInputHistory = (): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((item) => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+// Adds `text` as the newest entry; typing the same thing again moves it to the end.
+export const rememberInput = (history: string[], text: string): string[] => {
+  if (!text.trim()) return history;
+  const next = [...history.filter((item) => item !== text), text].slice(-MAX_HISTORY);
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+  return next;
+};
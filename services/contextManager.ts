@@ -0,0 +1,143 @@
+import { Content } from '@google/genai';
+import { ContextSettings, Message, StorySummary, UsageRecord } from '../types';
+import { StoryProvider } from './providers';
+import { attachmentParts, historyAttachmentParts } from './attachments';
+import { estimateTokens, toUsageRecord } from './usage';
+import { isFailed } from './storyTree';
+
+const SETTINGS_KEY = 'stories-in-the-sky:context';
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = { tokenLimit: 32000, keepTurns: 4 };
+
+export const loadContextSettings = (): ContextSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_CONTEXT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CONTEXT_SETTINGS;
+  } catch {
+    return DEFAULT_CONTEXT_SETTINGS;
+  }
+};
+
+export const saveContextSettings = (settings: ContextSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// The turns of a branch the model should see, skipping error bubbles and the turns that caused them.
+const usableTurns = (messages: Message[]) =>
+  messages.filter((msg, index) => {
+    if (isFailed(msg) || (msg.text === '' && !msg.attachments?.length)) return false;
+    const reply = messages[index + 1];
+    return !(msg.sender === 'user' && isFailed(reply));
+  });
+
+const toContents = (messages: Message[], filesOf = historyAttachmentParts): Content[] =>
+  messages.map((msg) => ({
+    role: msg.sender,
+    parts: [...(msg.text ? [{ text: msg.text }] : []), ...filesOf(msg.attachments)],
+  }));
+
+// Rebuilds the Gemini chat history from a branch.
+export const toChatHistory = (messages: Message[]): Content[] => toContents(usableTurns(messages));
+
+// The reader's turn being sent, pictures included, as it goes into the history
+// of the same reply's later tool rounds.
+export const toPromptTurn = (message: Message): Content => toContents([message], attachmentParts)[0];
+
+// A summary only describes the branch it was written from.
+export const summaryAppliesTo = (summary: StorySummary | undefined, branch: Message[]): summary is StorySummary =>
+  Boolean(summary && branch.some((msg) => msg.id === summary.throughId));
+
+const withSummary = (systemInstruction: string, summary?: StorySummary) =>
+  summary
+    ? `${systemInstruction}\n\n## The story so far\nEarlier turns of this story are summarised below; the conversation picks up where it ends.\n\n${summary.text}`
+    : systemInstruction;
+
+const transcriptOf = (messages: Message[]) =>
+  messages
+    .map((msg) => {
+      const files = msg.attachments?.length ? ` [attached: ${msg.attachments.map((file) => file.name).join(', ')}]` : '';
+      return `${msg.sender === 'user' ? 'Reader' : 'Storyteller'}: ${msg.text}${files}`;
+    })
+    .join('\n\n');
+
+const summarize = async (provider: StoryProvider, model: string, previous: string | undefined, turns: Message[], signal?: AbortSignal) => {
+  const prompt = [
+    'You keep the running "story so far" summary for a long collaborative story. Fold the new turns below into the summary.',
+    'Keep every name, place, object and promise that may matter later, unresolved threads, how characters feel about each other, and the tone. Drop small talk. Stay under 400 words and write only the summary.',
+    `Summary so far:\n${previous ?? '(none yet)'}`,
+    `New turns:\n"""\n${transcriptOf(turns)}\n"""`,
+  ].join('\n\n');
+  const { text, usage } = await provider.generate({ model, prompt, sampling: { temperature: 0.2 }, signal });
+  return { text: text.trim(), usage: toUsageRecord(model, usage, prompt, text) };
+};
+
+export interface ContextRequest {
+  provider: StoryProvider;
+  model: string;
+  systemInstruction: string;
+  branch: Message[]; // Turns before the one being sent
+  message: string;
+  summary?: StorySummary;
+  settings: ContextSettings;
+  compact?: 'auto' | 'now' | 'never'; // "now" folds older turns even under the limit
+  onCompact?: () => void; // Called before the summary is written, which takes a model call
+  signal?: AbortSignal;
+}
+
+export interface PreparedContext {
+  systemInstruction: string; // Includes the summary, if one applies
+  history: Content[];
+  summary?: StorySummary;
+  tokens: number;
+  compacted: boolean; // A new summary was written for this request
+  usage?: UsageRecord; // What writing that summary cost
+}
+
+// Builds what the model sees for the next turn. Once the request would pass the
+// token limit, older turns are folded into the rolling summary and only the last
+// `keepTurns` exchanges stay verbatim. The branch itself is never changed.
+export const prepareContext = async ({
+  provider,
+  model,
+  systemInstruction,
+  branch,
+  message,
+  summary,
+  settings,
+  compact = 'auto',
+  onCompact,
+  signal,
+}: ContextRequest): Promise<PreparedContext> => {
+  const turns = usableTurns(branch);
+  const turnsAfter = (current?: StorySummary) =>
+    current ? turns.slice(turns.findIndex((msg) => msg.id === current.throughId) + 1) : turns;
+
+  const build = async (current?: StorySummary, usage?: UsageRecord): Promise<PreparedContext> => {
+    const instruction = withSummary(systemInstruction, current);
+    const history = toContents(turnsAfter(current));
+    let tokens: number;
+    try {
+      tokens = await provider.countTokens({ model, systemInstruction: instruction, history, message, signal });
+    } catch (err) {
+      console.error('Failed to count tokens:', err);
+      tokens = estimateTokens([instruction, transcriptOf(turnsAfter(current)), message].join('\n'));
+    }
+    return { systemInstruction: instruction, history, summary: current, tokens, compacted: Boolean(usage), usage };
+  };
+
+  const current = summaryAppliesTo(summary, branch) ? summary : undefined;
+  const context = await build(current);
+  if (compact === 'never' || (compact === 'auto' && context.tokens <= settings.tokenLimit)) return context;
+
+  // Fold everything but the last exchanges, ending on a whole exchange so the
+  // verbatim history still opens with a reader turn.
+  const pending = turnsAfter(current);
+  let cut = pending.length - settings.keepTurns * 2;
+  while (cut > 0 && cut < pending.length && pending[cut].sender !== 'user') cut++;
+  if (cut <= 0) return context;
+  const folded = pending.slice(0, cut);
+  onCompact?.();
+  const { text, usage } = await summarize(provider, model, current?.text, folded, signal);
+  const next: StorySummary = { text, throughId: folded[folded.length - 1].id, updatedAt: Date.now() };
+  return build(next, usage);
+};
@@ -0,0 +1,34 @@
+export interface FrameBatch<T> {
+  push: (value: T) => void; // Applied on the next animation frame; a later push replaces it
+  flush: () => void; // Applies a waiting value now
+  cancel: () => void; // Drops a waiting value
+}
+
+// Coalesces rapid updates, such as stream chunks or scroll events, into at most
+// one per animation frame. Only the latest value is applied.
+export const frameBatch = <T,>(apply: (value: T) => void): FrameBatch<T> => {
+  let frame: number | null = null;
+  let latest: T;
+
+  const cancel = () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    frame = null;
+  };
+
+  return {
+    push(value) {
+      latest = value;
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        apply(latest);
+      });
+    },
+    flush() {
+      if (frame === null) return;
+      cancel();
+      apply(latest);
+    },
+    cancel,
+  };
+};
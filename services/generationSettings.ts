@@ -0,0 +1,54 @@
+import { GenerationPreset, GenerationSettings, GenerationTab } from '../types';
+import { SamplingOptions, StoryProvider } from './providers';
+
+export const DEFAULT_SETTINGS: Record<GenerationTab, GenerationSettings> = {
+  chat: { model: '', sampling: {} },
+  'mood-weaver': { model: '', sampling: { maxOutputTokens: 500 } }, // Keep tales short for faster responses
+  'book-builder': { model: '', sampling: {} }, // Chapters need the model's full output length
+};
+
+const builtIn = (id: string, name: string, tab: GenerationTab, sampling: SamplingOptions): GenerationPreset => ({
+  id,
+  name,
+  tab,
+  settings: { model: '', sampling },
+  builtIn: true,
+  createdAt: 0,
+});
+
+export const BUILT_IN_PRESETS: GenerationPreset[] = [
+  builtIn('chat-bedtime', 'Bedtime story', 'chat', { temperature: 0.6, topP: 0.9, maxOutputTokens: 600 }),
+  builtIn('chat-brainstorm', 'Wild brainstorm', 'chat', { temperature: 1.4, topP: 0.98, topK: 100 }),
+  builtIn('mood-bedtime', 'Bedtime story', 'mood-weaver', { temperature: 0.6, topP: 0.9, maxOutputTokens: 400 }),
+  builtIn('mood-brainstorm', 'Wild brainstorm', 'mood-weaver', { temperature: 1.4, topP: 0.98, topK: 100, maxOutputTokens: 800 }),
+  builtIn('book-steady', 'Steady novelist', 'book-builder', { temperature: 0.8, topP: 0.95 }),
+  builtIn('book-bold', 'Bold storyteller', 'book-builder', { temperature: 1.2, topP: 0.97, topK: 80 }),
+];
+
+const storageKey = (tab: GenerationTab) => `stories-in-the-sky:settings:${tab}`;
+
+export const loadSettings = (tab: GenerationTab): GenerationSettings => {
+  try {
+    const stored = localStorage.getItem(storageKey(tab));
+    if (stored) return { ...DEFAULT_SETTINGS[tab], ...JSON.parse(stored) };
+  } catch (err) {
+    console.error('Failed to load generation settings:', err);
+  }
+  return DEFAULT_SETTINGS[tab];
+};
+
+export const saveSettings = (tab: GenerationTab, settings: GenerationSettings) => {
+  localStorage.setItem(storageKey(tab), JSON.stringify(settings));
+};
+
+// The chosen model only applies to the provider it was picked from.
+export const resolveModel = (settings: GenerationSettings, provider: StoryProvider, fallback: string) =>
+  settings.model && settings.providerId === provider.id ? settings.model : fallback;
+
+// Layers the settings over `base`, ignoring fields the reader left blank.
+export const applySampling = (base: SamplingOptions, settings: GenerationSettings): SamplingOptions => {
+  const overrides = Object.entries(settings.sampling).filter(([, value]) =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined,
+  );
+  return { ...base, ...Object.fromEntries(overrides) };
+};
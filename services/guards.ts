@@ -0,0 +1,7 @@
+// Narrowing for data from outside the app's types: imported files and model JSON.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The objects in `value` when it is an array; anything else in it is skipped.
+export const recordsIn = (value: unknown) => (Array.isArray(value) ? value.filter(isRecord) : []);
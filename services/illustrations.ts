@@ -0,0 +1,141 @@
+import { Schema, Type } from '@google/genai';
+import { BibleEntry, CharacterAppearance, Illustration, UsageRecord } from '../types';
+import { isRecord, recordsIn } from './guards';
+import { StoryProvider } from './providers';
+import { imageUsageRecord, toUsageRecord } from './usage';
+
+interface IllustrationPlan {
+  scene: string;
+  characters: CharacterAppearance[];
+}
+
+const PLAN_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    scene: { type: Type.STRING },
+    characters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          appearance: { type: Type.STRING },
+        },
+        required: ['name', 'appearance'],
+        propertyOrdering: ['name', 'appearance'],
+      },
+    },
+  },
+  required: ['scene', 'characters'],
+  propertyOrdering: ['scene', 'characters'],
+};
+
+const PLANNER_INSTRUCTION = 'You are an art director for an illustrated storybook. You turn passages into precise, visual scene descriptions.';
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Appearances the story has already settled on: earlier pictures first, then
+// Story Bible characters that have not been drawn yet.
+const knownAppearances = (sheet: CharacterAppearance[], bible: BibleEntry[]): CharacterAppearance[] => [
+  ...sheet,
+  ...bible
+    .filter((entry) => entry.active && entry.kind === 'character' && !sheet.some((item) => sameName(item.name, entry.name)))
+    .map((entry) => ({ name: entry.name, appearance: entry.description })),
+];
+
+// Adds newly described characters to the sheet. A character keeps the first
+// appearance it was drawn with, so later pictures cannot drift.
+const mergeCharacterSheet = (sheet: CharacterAppearance[], incoming: CharacterAppearance[]) =>
+  incoming.reduce(
+    (merged, character) =>
+      character.name.trim() === '' || merged.some((item) => sameName(item.name, character.name))
+        ? merged
+        : [...merged, { name: character.name.trim(), appearance: character.appearance.trim() }],
+    sheet,
+  );
+
+const parsePlan = (text: string): IllustrationPlan => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The model did not return a scene description.');
+  }
+  if (!isRecord(parsed) || typeof parsed.scene !== 'string' || parsed.scene.trim() === '') {
+    throw new Error('The model did not return a scene description.');
+  }
+  const characters = recordsIn(parsed.characters).flatMap((item): CharacterAppearance[] =>
+    typeof item.name === 'string' && typeof item.appearance === 'string' ? [{ name: item.name, appearance: item.appearance }] : [],
+  );
+  return { scene: parsed.scene.trim(), characters };
+};
+
+// Asks the text model which moment to draw and who is in it, reusing known appearances.
+const planIllustration = async (
+  provider: StoryProvider,
+  passage: string,
+  known: CharacterAppearance[],
+  onUsage: (record: UsageRecord) => void,
+  signal?: AbortSignal,
+): Promise<IllustrationPlan> => {
+  const knownList = known.map((item) => `- ${item.name}: ${item.appearance}`).join('\n') || '(none yet)';
+  const prompt = [
+    'Choose the single most striking moment in the passage below and describe it as an illustration: setting, lighting, composition and mood, in one paragraph. Do not include any text or lettering in the picture.',
+    'List every character who appears in it with a short description of how they look. For characters in the known list, copy their description exactly.',
+    `Known characters:\n${knownList}`,
+    `Passage:\n"""\n${passage}\n"""`,
+  ].join('\n\n');
+  const model = provider.defaultModels.creative;
+  const { text, usage } = await provider.generate({
+    model,
+    prompt,
+    systemInstruction: PLANNER_INSTRUCTION,
+    responseSchema: PLAN_SCHEMA,
+    sampling: { temperature: 0.4 },
+    signal,
+  });
+  onUsage(toUsageRecord(model, usage, `${PLANNER_INSTRUCTION}\n${prompt}`, text));
+  return parsePlan(text);
+};
+
+// The image prompt spells out each character's settled appearance, so the same
+// character looks the same from one picture to the next.
+const composeImagePrompt = (scene: string, characters: CharacterAppearance[]) =>
+  [
+    `A storybook illustration. ${scene}`,
+    characters.length > 0 && `Characters, drawn exactly as described:\n${characters.map((item) => `- ${item.name}: ${item.appearance}`).join('\n')}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+interface IllustrateOptions {
+  provider: StoryProvider;
+  passage: string;
+  sheet: CharacterAppearance[];
+  bible: BibleEntry[];
+  onUsage: (record: UsageRecord) => void; // Called for each model call: planning the picture, then drawing it
+  signal?: AbortSignal;
+}
+
+// Turns a passage into a picture. Returns the illustration and the character
+// sheet with anyone new added to it.
+export const illustratePassage = async ({ provider, passage, sheet, bible, onUsage, signal }: IllustrateOptions) => {
+  const known = knownAppearances(sheet, bible);
+  const plan = await planIllustration(provider, passage, known, onUsage, signal);
+  const settled = mergeCharacterSheet(known, plan.characters);
+  const cast = plan.characters.map((character) => settled.find((item) => sameName(item.name, character.name)) ?? character);
+  const prompt = composeImagePrompt(plan.scene, cast);
+  const model = provider.defaultModels.image;
+  const image = await provider.generateImage({ model, prompt, signal });
+  onUsage(imageUsageRecord(model, image.usage, prompt));
+  const illustration: Illustration = {
+    id: crypto.randomUUID(),
+    prompt,
+    mimeType: image.mimeType,
+    data: image.data,
+    createdAt: Date.now(),
+  };
+  return { illustration, sheet: mergeCharacterSheet(sheet, cast) };
+};
+
+export const illustrationUrl = (illustration: Illustration) => `data:${illustration.mimeType};base64,${illustration.data}`;
@@ -0,0 +1,349 @@
+// A small Markdown parser producing a plain syntax tree. Nothing in the input is
+// ever treated as HTML: renderers build their output from these nodes only, so
+// model text cannot inject markup or scripts.
+
+export type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+  | { type: 'code'; value: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' };
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; tight: boolean; items: BlockNode[][] }
+  | { type: 'code'; lang: string; value: string }
+  | { type: 'hr' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Returns the URL if it is safe to put in an href, or null. Relative URLs are
+// allowed; absolute ones must use an allow-listed scheme, which rules out
+// `javascript:`, `data:` and friends even when obfuscated with whitespace.
+export const sanitizeUrl = (url: string): string | null => {
+  const trimmed = url.trim();
+  const normalized = trimmed.replace(/[\u0000- \u007F-\u009F]+/g, '').toLowerCase();
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/);
+  if (scheme && !SAFE_PROTOCOLS.includes(`${scheme[1]}:`)) return null;
+  // A colon before any slash would be read as a scheme by some browsers.
+  if (!scheme && /^[^/?#]*:/.test(normalized)) return null;
+  return trimmed;
+};
+
+// ---- Inline parsing ----
+
+const ESCAPABLE = /[\\`*_{}\[\]()#+\-.!~>|]/;
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+const isSpace = (char: string | undefined) => !char || /\s/.test(char);
+
+const runLength = (text: string, index: number, char: string) => {
+  let length = 0;
+  while (text[index + length] === char) length++;
+  return length;
+};
+
+// Finds the closing delimiter for an emphasis run of `size` characters opened at
+// `start`. Runs of a different size are skipped so `*a **b** c*` nests properly.
+const findClosing = (text: string, start: number, char: string, size: number) => {
+  let index = start;
+  while (index < text.length) {
+    const found = text.indexOf(char, index);
+    if (found === -1) return -1;
+    const length = runLength(text, found, char);
+    const skip = size === 1 ? length === 2 : length === 1;
+    const close = found + length - size;
+    if (!skip && close > start && !isSpace(text[close - 1])) {
+      if (char !== '_' || !isWordChar(text[close + size])) return close;
+    }
+    index = found + length;
+  }
+  return -1;
+};
+
+const findMatchingBracket = (text: string, start: number, open: string, close: string) => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === open) {
+      depth++;
+    } else if (text[i] === close) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', value: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = runLength(text, i, '`');
+      const fence = '`'.repeat(ticks);
+      const end = text.indexOf(fence, i + ticks);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'code', value: text.slice(i + ticks, end).trim() });
+        i = end + ticks;
+        continue;
+      }
+      buffer += fence;
+      i += ticks;
+      continue;
+    }
+
+    if (char === '*' || char === '_' || (char === '~' && text[i + 1] === '~')) {
+      const run = runLength(text, i, char);
+      const size = char === '~' ? 2 : Math.min(run, 2);
+      const opensWord = !isSpace(text[i + size]) && !(char === '_' && isWordChar(text[i - 1]));
+      if (opensWord) {
+        const close = findClosing(text, i + size, char, size);
+        if (close !== -1) {
+          flush();
+          const type = char === '~' ? 'del' : size === 2 ? 'strong' : 'em';
+          nodes.push({ type, children: parseInline(text.slice(i + size, close)) });
+          i = close + size;
+          continue;
+        }
+      }
+      buffer += text.slice(i, i + run);
+      i += run;
+      continue;
+    }
+
+    if (char === '[') {
+      const labelEnd = findMatchingBracket(text, i, '[', ']');
+      if (labelEnd !== -1 && text[labelEnd + 1] === '(') {
+        const urlEnd = findMatchingBracket(text, labelEnd + 1, '(', ')');
+        if (urlEnd !== -1) {
+          flush();
+          // Drop an optional "title" after the URL.
+          const target = text.slice(labelEnd + 2, urlEnd).trim().replace(/\s+(["']).*\1$/, '');
+          const children = parseInline(text.slice(i + 1, labelEnd));
+          const href = sanitizeUrl(target.replace(/^<(.*)>$/, '$1'));
+          if (href !== null) {
+            nodes.push({ type: 'link', href, children });
+          } else {
+            nodes.push(...children); // Keep the label, lose the unsafe target
+          }
+          i = urlEnd + 1;
+          continue;
+        }
+      }
+    }
+
+    if (char === '<') {
+      const autolink = text.slice(i).match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i);
+      if (autolink) {
+        flush();
+        nodes.push({ type: 'link', href: autolink[1], children: [{ type: 'text', value: autolink[1] }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+// ---- Block parsing ----
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const HR = /^ {0,3}([-*_])( *\1){2,} *$/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])( +|$)(.*)$/;
+
+const isBlank = (line: string) => line.trim() === '';
+const indentOf = (line: string) => line.match(/^ */)![0].length;
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HR.test(line) || HEADING.test(line) || BLOCKQUOTE.test(line) || LIST_ITEM.test(line);
+
+const parseLines = (lines: string[]): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      i++;
+      // An unclosed fence runs to the end, which keeps half-streamed code readable.
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', lang: fence[2], value: body.join('\n') });
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] ?? '') });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && BLOCKQUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(BLOCKQUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseLines(quoted) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const items: BlockNode[][] = [];
+      let tight = true;
+
+      while (i < lines.length) {
+        const current = lines[i].match(LIST_ITEM);
+        if (!current || /\d/.test(current[2]) !== ordered) break;
+        const contentIndent = current[1].length + current[2].length + Math.max(1, current[3].length);
+        const body = [current[4]];
+        i++;
+        // Collect continuation lines: anything indented under the marker, with blank lines in between.
+        while (i < lines.length) {
+          if (isBlank(lines[i])) {
+            const next = lines.slice(i).find((candidate) => !isBlank(candidate));
+            if (next === undefined) break;
+            if (indentOf(next) >= contentIndent) {
+              body.push('');
+              i++;
+              continue;
+            }
+            if (LIST_ITEM.test(next)) tight = false;
+            break;
+          }
+          if (indentOf(lines[i]) >= contentIndent) {
+            body.push(lines[i].slice(contentIndent));
+          } else if (!startsBlock(lines[i])) {
+            body.push(lines[i].trim()); // Lazy paragraph continuation
+          } else {
+            break;
+          }
+          i++;
+        }
+        if (body.includes('')) tight = false;
+        items.push(parseLines(body));
+        while (i < lines.length && isBlank(lines[i])) i++;
+      }
+
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(item[2], 10) : 1, tight, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (markdown: string): BlockNode[] =>
+  parseLines(markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+
+// ---- Static HTML output ----
+
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const inlineToHtml = (nodes: InlineNode[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.value);
+        case 'break':
+          return '<br />';
+        case 'code':
+          return `<code>${escapeHtml(node.value)}</code>`;
+        case 'strong':
+        case 'em':
+        case 'del':
+          return `<${node.type}>${inlineToHtml(node.children)}</${node.type}>`;
+        case 'link':
+          return `<a href="${escapeHtml(node.href)}">${inlineToHtml(node.children)}</a>`;
+      }
+    })
+    .join('');
+
+const blocksToHtml = (blocks: BlockNode[], tight = false): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'heading':
+          return `<h${block.level}>${inlineToHtml(block.children)}</h${block.level}>`;
+        case 'paragraph':
+          return tight ? inlineToHtml(block.children) : `<p>${inlineToHtml(block.children)}</p>`;
+        case 'blockquote':
+          return `<blockquote>${blocksToHtml(block.children)}</blockquote>`;
+        case 'list': {
+          const items = block.items.map((item) => `<li>${blocksToHtml(item, block.tight)}</li>`).join('');
+          return block.ordered ? `<ol start="${block.start}">${items}</ol>` : `<ul>${items}</ul>`;
+        }
+        case 'code':
+          return `<pre><code>${escapeHtml(block.value)}</code></pre>`;
+        case 'hr':
+          return '<hr />';
+      }
+    })
+    .join('\n');
+
+// Serializes Markdown to escaped, well-formed markup that is also valid XHTML,
+// for exports that live outside the app.
+export const markdownToHtml = (markdown: string): string => blocksToHtml(parseMarkdown(markdown));
@@ -0,0 +1,46 @@
+import { CandidatePlan, GenerationSettings, Mood, MoodRun, MoodWeight, TaleCandidate } from '../types';
+import { SamplingOptions } from './providers';
+import { blendSampling, buildMoodInstruction, describeBlend } from './moods';
+import { applySampling } from './generationSettings';
+
+export const MAX_CANDIDATES = 4;
+const MAX_RUNS = 50; // Older runs are dropped from the history unless they hold a favourite
+
+export const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// The blend a candidate is written in: its own mood, or the blend on screen.
+const planBlend = (plan: CandidatePlan, blend: MoodWeight[], moods: Mood[]): MoodWeight[] =>
+  plan.moodId && moods.some((mood) => mood.id === plan.moodId) ? [{ moodId: plan.moodId, weight: 100 }] : blend;
+
+export const planInstruction = (plan: CandidatePlan, blend: MoodWeight[], moods: Mood[]) =>
+  buildMoodInstruction(planBlend(plan, blend, moods), moods);
+
+// Mood defaults, then the generation settings, then the plan's own temperature.
+export const planSampling = (plan: CandidatePlan, blend: MoodWeight[], moods: Mood[], settings: GenerationSettings): SamplingOptions => {
+  const sampling = applySampling(blendSampling(planBlend(plan, blend, moods), moods), settings);
+  return plan.temperature === undefined ? sampling : { ...sampling, temperature: plan.temperature };
+};
+
+export const createCandidate = (plan: CandidatePlan, blend: MoodWeight[], moods: Mood[]): TaleCandidate => ({
+  id: crypto.randomUUID(),
+  mood: describeBlend(planBlend(plan, blend, moods), moods),
+  ...(plan.temperature !== undefined && { temperature: plan.temperature }),
+  text: '',
+});
+
+// e.g. "Melancholy · temperature 1.2"
+export const describeCandidate = (candidate: TaleCandidate) =>
+  candidate.temperature === undefined ? candidate.mood : `${candidate.mood} · temperature ${candidate.temperature}`;
+
+// Names a candidate wherever runs are listed together, e.g. in the diff picker.
+export const versionLabel = (run: MoodRun, candidate: TaleCandidate) =>
+  `${run.title} · #${run.candidates.indexOf(candidate) + 1} ${describeCandidate(candidate)}`;
+
+export const updateCandidate = (run: MoodRun, candidateId: string, patch: Partial<TaleCandidate>): MoodRun => ({
+  ...run,
+  candidates: run.candidates.map((candidate) => (candidate.id === candidateId ? { ...candidate, ...patch } : candidate)),
+});
+
+// Keeps the newest runs, plus any older run with a favourite. Returns what to drop.
+export const overflowRuns = (runs: MoodRun[]) =>
+  runs.filter((run, index) => index >= MAX_RUNS && !run.candidates.some((candidate) => candidate.favourite));
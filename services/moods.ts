@@ -0,0 +1,138 @@
+import { Mood, MoodWeight } from '../types';
+import { isRecord } from './guards';
+import { SamplingOptions } from './providers';
+
+const DEFAULT_SAMPLING: SamplingOptions = { temperature: 0.9, topP: 0.95, topK: 64 };
+
+const builtIn = (id: string, label: string, description: string, examplePhrasing: string): Mood => ({
+  id,
+  label,
+  description,
+  examplePhrasing,
+  sampling: DEFAULT_SAMPLING,
+  builtIn: true,
+  createdAt: 0,
+});
+
+export const BUILT_IN_MOODS: Mood[] = [
+  builtIn('rebellious', 'Rebellious', 'Defiant, restless and hungry for change.', 'They told us the sky was closed. We built ladders anyway.'),
+  builtIn('calm', 'Calm', 'Gentle, unhurried and soothing.', 'The tide came in slowly, as if it had all the time in the world.'),
+  builtIn('adventurous', 'Adventurous', 'Bold, curious and full of momentum.', 'Beyond the last lighthouse, the map simply said: go and see.'),
+  builtIn('mysterious', 'Mysterious', 'Hushed, uncertain and full of half-seen things.', 'The letter was signed with a name no one in the village would say aloud.'),
+  builtIn('joyful', 'Joyful', 'Bright, warm and bubbling with delight.', 'Every window on the street flew open at once to hear the song.'),
+  builtIn('melancholy', 'Melancholy', 'Wistful, quiet and tinged with loss.', 'She kept setting two cups on the table long after the second chair was empty.'),
+];
+
+const percentages = (blend: MoodWeight[]) => {
+  const total = blend.reduce((sum, item) => sum + Math.max(0, item.weight), 0) || 1;
+  return blend.map((item) => Math.round((Math.max(0, item.weight) / total) * 100));
+};
+
+const resolve = (blend: MoodWeight[], moods: Mood[]) => {
+  const shares = percentages(blend);
+  return blend
+    .map((item, index) => ({ mood: moods.find((mood) => mood.id === item.moodId), share: shares[index] }))
+    .filter((item): item is { mood: Mood; share: number } => !!item.mood && item.share > 0);
+};
+
+export const isBlendUsable = (blend: MoodWeight[], moods: Mood[]) => resolve(blend, moods).length > 0;
+
+// A short label for the blend, e.g. "70% Melancholy + 30% Mysterious".
+export const describeBlend = (blend: MoodWeight[], moods: Mood[]) => {
+  const parts = resolve(blend, moods);
+  if (parts.length === 1) return parts[0].mood.label;
+  return parts.map(({ mood, share }) => `${share}% ${mood.label}`).join(' + ');
+};
+
+const moodDetails = (mood: Mood) =>
+  [mood.description.trim(), mood.examplePhrasing.trim() && `Example phrasing: "${mood.examplePhrasing.trim()}"`]
+    .filter(Boolean)
+    .join(' ');
+
+export const buildMoodInstruction = (blend: MoodWeight[], moods: Mood[]) => {
+  const parts = resolve(blend, moods);
+  if (parts.length === 1) {
+    const { mood } = parts[0];
+    return [
+      `You are a creative writer. Generate content in a ${mood.label.toLowerCase()} mood.`,
+      moodDetails(mood),
+      'The output should be engaging and reflect the chosen mood.',
+    ].filter(Boolean).join(' ');
+  }
+  return [
+    'You are a creative writer. Generate content that blends the following moods:',
+    ...parts.map(({ mood, share }) => `- ${share}% ${mood.label}: ${moodDetails(mood)}`),
+    'Let each mood shape the tone in proportion to its weight. The output should be engaging and reflect the blend.',
+  ].join('\n');
+};
+
+// Weighted average of each mood's default sampling parameters.
+export const blendSampling = (blend: MoodWeight[], moods: Mood[]): SamplingOptions => {
+  const parts = resolve(blend, moods);
+  const average = (key: 'temperature' | 'topP' | 'topK') => {
+    const weighted = parts.filter(({ mood }) => mood.sampling[key] !== undefined);
+    const total = weighted.reduce((sum, { share }) => sum + share, 0);
+    if (total === 0) return DEFAULT_SAMPLING[key];
+    return weighted.reduce((sum, { mood, share }) => sum + mood.sampling[key]! * share, 0) / total;
+  };
+  const topK = average('topK');
+  return {
+    temperature: average('temperature'),
+    topP: average('topP'),
+    topK: topK === undefined ? undefined : Math.round(topK),
+  };
+};
+
+// ---- JSON packs ----
+
+const MOOD_PACK_FORMAT = 'stories-in-the-sky/moods';
+const MOOD_PACK_VERSION = 1;
+
+export const serializeMoodPack = (moods: Mood[]) =>
+  JSON.stringify(
+    {
+      format: MOOD_PACK_FORMAT,
+      version: MOOD_PACK_VERSION,
+      moods: moods.map(({ label, description, examplePhrasing, sampling }) => ({ label, description, examplePhrasing, sampling })),
+    },
+    null,
+    2,
+  );
+
+const toNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+// Validates a shared pack and returns its moods with fresh ids, ready to save.
+export const parseMoodPack = (json: string): Mood[] => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isRecord(payload) || payload.format !== MOOD_PACK_FORMAT || !Array.isArray(payload.moods)) {
+    throw new Error('This file is not a Stories in the Sky mood pack.');
+  }
+  if (typeof payload.version === 'number' && payload.version > MOOD_PACK_VERSION) {
+    throw new Error('This mood pack was made by a newer version of the app.');
+  }
+  const moods: unknown[] = payload.moods;
+  const now = Date.now();
+  return moods
+    .filter((mood): mood is Record<string, unknown> & { label: string } =>
+      isRecord(mood) && typeof mood.label === 'string' && mood.label.trim() !== '')
+    .map((mood, index) => {
+      const sampling = isRecord(mood.sampling) ? mood.sampling : {};
+      return {
+        id: crypto.randomUUID(),
+        label: mood.label.trim(),
+        description: typeof mood.description === 'string' ? mood.description : '',
+        examplePhrasing: typeof mood.examplePhrasing === 'string' ? mood.examplePhrasing : '',
+        sampling: {
+          temperature: toNumber(sampling.temperature),
+          topP: toNumber(sampling.topP),
+          topK: toNumber(sampling.topK),
+        },
+        createdAt: now + index,
+      };
+    });
+};
@@ -0,0 +1,137 @@
+import { isRecord } from './guards';
+import { GeneratedAudio } from './providers';
+
+// A stretch of text read in one go. In an audio export each segment starts a
+// new chapter marker, named by its label.
+export interface NarrationSegment {
+  id: string;
+  label: string;
+  text: string;
+}
+
+export interface NarrationSettings {
+  voice: string; // A provider voice id, a BROWSER_VOICE_PREFIX id, or '' for the provider default
+  rate: number;
+}
+
+// Voices the browser speaks itself are stored with this prefix and their voiceURI.
+export const BROWSER_VOICE_PREFIX = 'browser:';
+
+export const NARRATION_SPEEDS = [0.75, 0.9, 1, 1.15, 1.3, 1.5];
+
+const SETTINGS_KEY = 'stories-in-the-sky:narration';
+const DEFAULT_NARRATION_SETTINGS: NarrationSettings = { voice: '', rate: 1 };
+
+// Each stored field falls back to its default on its own when it cannot be used.
+export const loadNarrationSettings = (): NarrationSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (!isRecord(parsed)) return DEFAULT_NARRATION_SETTINGS;
+    const { voice, rate } = parsed;
+    return {
+      voice: typeof voice === 'string' ? voice : DEFAULT_NARRATION_SETTINGS.voice,
+      rate: typeof rate === 'number' && NARRATION_SPEEDS.includes(rate) ? rate : DEFAULT_NARRATION_SETTINGS.rate,
+    };
+  } catch {
+    return DEFAULT_NARRATION_SETTINGS;
+  }
+};
+
+export const saveNarrationSettings = (settings: NarrationSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Drops Markdown syntax so it is not read out as punctuation.
+export const toSpeechText = (markdown: string) =>
+  markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~]+/g, '')
+    .replace(/\s+\n/g, '\n')
+    .trim();
+
+export const splitParagraphs = (text: string) => text.split(/\n\s*\n/).filter((paragraph) => paragraph.trim() !== '');
+
+// ---- Audio ----
+
+// Raw 16-bit little-endian mono samples.
+export interface PcmClip {
+  sampleRate: number;
+  samples: Uint8Array;
+}
+
+export const decodeSpeech = ({ mimeType, data }: GeneratedAudio): PcmClip => {
+  const [type, ...params] = mimeType.toLowerCase().split(';').map((part) => part.trim());
+  if (type !== 'audio/l16' && type !== 'audio/pcm') throw new Error(`Unsupported narration audio: ${mimeType}`);
+  const rate = params.find((param) => param.startsWith('rate='));
+  const binary = atob(data);
+  const samples = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) samples[i] = binary.charCodeAt(i);
+  return { sampleRate: rate ? Number(rate.slice(5)) : 24000, samples };
+};
+
+const writeText = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+// Joins the clips into one WAV file. With labels, each clip's start gets a cue
+// point and a label chunk, which audio editors show as chapter markers.
+export const encodeWav = (clips: PcmClip[], labels: string[] = []): Blob => {
+  const sampleRate = clips[0]?.sampleRate ?? 24000;
+  if (clips.some((clip) => clip.sampleRate !== sampleRate)) throw new Error('Narration clips use different sample rates.');
+  const dataSize = clips.reduce((total, clip) => total + clip.samples.length, 0);
+  const markers = labels.slice(0, clips.length).map((label) => new TextEncoder().encode(label));
+  const cueSize = markers.length > 0 ? 12 + markers.length * 24 : 0;
+  const labelSizes = markers.map((label) => 12 + label.length + 1 + ((label.length + 1) % 2)); // Chunks pad to even lengths
+  const listSize = markers.length > 0 ? 12 + labelSizes.reduce((total, size) => total + size, 0) : 0;
+
+  const header = new DataView(new ArrayBuffer(44));
+  writeText(header, 0, 'RIFF');
+  header.setUint32(4, 36 + dataSize + (dataSize % 2) + cueSize + listSize, true);
+  writeText(header, 8, 'WAVE');
+  writeText(header, 12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeText(header, 36, 'data');
+  header.setUint32(40, dataSize, true);
+
+  const parts: BlobPart[] = [header, ...clips.map((clip) => clip.samples)];
+  if (dataSize % 2) parts.push(new Uint8Array(1));
+  if (markers.length > 0) {
+    const cue = new DataView(new ArrayBuffer(cueSize));
+    writeText(cue, 0, 'cue ');
+    cue.setUint32(4, cueSize - 8, true);
+    cue.setUint32(8, markers.length, true);
+    let position = 0;
+    markers.forEach((_, index) => {
+      const offset = 12 + index * 24;
+      cue.setUint32(offset, index + 1, true);
+      cue.setUint32(offset + 4, position, true);
+      writeText(cue, offset + 8, 'data');
+      cue.setUint32(offset + 20, position, true);
+      position += clips[index].samples.length / 2;
+    });
+
+    const list = new DataView(new ArrayBuffer(listSize));
+    writeText(list, 0, 'LIST');
+    list.setUint32(4, listSize - 8, true);
+    writeText(list, 8, 'adtl');
+    let offset = 12;
+    markers.forEach((label, index) => {
+      writeText(list, offset, 'labl');
+      list.setUint32(offset + 4, 4 + label.length + 1, true);
+      list.setUint32(offset + 8, index + 1, true);
+      label.forEach((byte, i) => list.setUint8(offset + 12 + i, byte));
+      offset += labelSizes[index];
+    });
+    parts.push(cue, list);
+  }
+  return new Blob(parts, { type: 'audio/wav' });
+};
@@ -0,0 +1,63 @@
+import { Persona, PersonaTag } from '../types';
+import { SamplingOptions } from './providers';
+
+export const STORYTELLER_INSTRUCTION = 'You are a friendly and engaging storyteller. You focus on crafting imaginative narratives and encouraging the user to explore story possibilities.';
+
+export const DEFAULT_PERSONA_ID = 'storyteller';
+
+const builtIn = (id: string, name: string, avatar: string, instruction: string, sampling: SamplingOptions): Persona => ({
+  id,
+  name,
+  avatar,
+  instruction,
+  model: '',
+  sampling,
+  builtIn: true,
+  createdAt: 0,
+});
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  // Leaves sampling to the generation settings, as the chat did before personas.
+  builtIn(DEFAULT_PERSONA_ID, 'Storyteller', '📖', STORYTELLER_INSTRUCTION, {}),
+  builtIn(
+    'noir-narrator',
+    'Noir narrator',
+    '🕵️',
+    'You are a hard-boiled noir narrator. Tell the story in a weary first-person voice full of rain-slick streets, cigarette smoke and sharp similes. Keep sentences lean, let moral grey areas stand, and end each passage on a note of unease.',
+    { temperature: 0.8, topP: 0.95 },
+  ),
+  builtIn(
+    'childrens-author',
+    "Children's author",
+    '🧸',
+    "You are a warm children's author writing for readers aged five to nine. Use simple words, short sentences, gentle humour and a little repetition children can join in with. Keep everything kind and safe, and let every problem find a hopeful way through.",
+    { temperature: 0.7, topP: 0.9, maxOutputTokens: 600 },
+  ),
+  builtIn(
+    'gothic-poet',
+    'Gothic poet',
+    '🕯️',
+    'You are a gothic poet telling stories in rich, lyrical prose. Dwell on candlelight, ruined chapels, storms and longing; let dread build slowly and beauty sit beside decay. Slip into verse when a moment deserves it.',
+    { temperature: 1.1, topP: 0.97 },
+  ),
+  builtIn(
+    'dungeon-master',
+    'Dungeon master',
+    '🎲',
+    'You are a lively dungeon master running a tabletop adventure. Describe each scene vividly in the second person, voice the characters the players meet, and end every passage by asking the players what they do next. Reward clever ideas and keep the stakes clear.',
+    { temperature: 1, topP: 0.95 },
+  ),
+];
+
+// The persona with `id`, or the default storyteller when it has been deleted.
+export const findPersona = (id: string | undefined, personas: Persona[]) =>
+  personas.find((persona) => persona.id === id) ?? BUILT_IN_PERSONAS[0];
+
+export const personaTag = ({ id, name, avatar }: Persona): PersonaTag => ({ id, name, avatar });
+
+// New chat stories start with the persona picked last.
+const PERSONA_KEY = 'stories-in-the-sky:chat-persona';
+
+export const loadPersonaId = () => localStorage.getItem(PERSONA_KEY) ?? DEFAULT_PERSONA_ID;
+
+export const savePersonaId = (id: string) => localStorage.setItem(PERSONA_KEY, id);
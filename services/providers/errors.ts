@@ -0,0 +1,132 @@
+import { StoryChunk } from './types';
+
+export type StoryErrorKind =
+  | 'rate-limit'
+  | 'quota'
+  | 'invalid-key'
+  | 'network'
+  | 'server'
+  | 'safety'
+  | 'empty'
+  | 'unknown';
+
+export const STORY_ERROR_KINDS: StoryErrorKind[] = [
+  'rate-limit',
+  'quota',
+  'invalid-key',
+  'network',
+  'server',
+  'safety',
+  'empty',
+  'unknown',
+];
+
+const RETRYABLE: StoryErrorKind[] = ['rate-limit', 'network', 'server'];
+
+// A failure sorted into something the reader can act on. `detail` carries the
+// specifics for the message, e.g. the safety categories that blocked a reply.
+// `retryAfterMs` is set when the server said how long to wait.
+export class StoryError extends Error {
+  readonly kind: StoryErrorKind;
+  readonly detail?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: StoryErrorKind, message: string, detail?: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'StoryError';
+    this.kind = kind;
+    this.detail = detail;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable() {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+// Normalises anything a provider throws into a StoryError. Providers raise
+// StoryErrors for failures they understand; anything else is sorted here.
+export const classifyError = (error: unknown): StoryError => {
+  if (error instanceof StoryError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  // fetch rejects with a TypeError when the request never reached the server.
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return new StoryError('network', message);
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return new StoryError('network', message);
+  return new StoryError('unknown', message);
+};
+
+// What the reader sees, one sentence on what went wrong and one on what to do.
+export const describeError = (error: StoryError) => {
+  switch (error.kind) {
+    case 'rate-limit':
+      return 'The model is receiving too many requests right now. Wait a moment and try again.';
+    case 'quota':
+      return 'Your API quota is used up. Check your plan and billing, or switch to the offline mock in Settings.';
+    case 'invalid-key':
+      return 'The API key was rejected. Check GEMINI_API_KEY on the API server and restart it.';
+    case 'network':
+      return 'Could not reach the model. Check your connection and that the API server is running, then try again.';
+    case 'server':
+      return 'The model service had a problem. Try again in a little while.';
+    case 'safety':
+      return `The reply was blocked by safety filters${error.detail ? ` (${error.detail})` : ''}. Try rephrasing the turn.`;
+    case 'empty':
+      return `The model returned nothing${error.detail ? ` (${error.detail})` : ''}. Try again or rephrase.`;
+    default:
+      return `Something went wrong: ${error.message}`;
+  }
+};
+
+const BASE_DELAY_MS = 1000;
+const DEFAULT_RETRIES = 3;
+const MAX_RETRY_AFTER_MS = 30_000; // Longer than this and the reader is asked to try again later
+
+// e.g. "Rate limited. Retrying in 2s (attempt 1 of 3)…"
+export const describeRetry = (error: StoryError, attempt: number, delayMs: number, retries = DEFAULT_RETRIES) => {
+  const reason = error.kind === 'rate-limit' ? 'Rate limited' : error.kind === 'network' ? 'Connection problem' : 'Model service error';
+  return `${reason}. Retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt} of ${retries})…`;
+};
+
+interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  onRetry?: (error: StoryError, attempt: number, delayMs: number) => void;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// Restarts the stream with exponential backoff (1s, 2s, 4s plus jitter) when a
+// retryable error arrives before any text. Once text has been shown a retry would
+// repeat it, so later failures are passed on as they are. When the server says
+// how long to wait, e.g. for the API server's own rate limit, the retry waits
+// that long, and gives up at once if that is more than half a minute.
+export async function* streamWithRetry(
+  start: () => AsyncGenerator<StoryChunk>,
+  { signal, retries = DEFAULT_RETRIES, onRetry }: RetryOptions = {},
+): AsyncGenerator<StoryChunk> {
+  for (let attempt = 1; ; attempt++) {
+    let hasText = false;
+    try {
+      for await (const chunk of start()) {
+        if (chunk.text || chunk.toolCalls?.length) hasText = true;
+        yield chunk;
+      }
+      return;
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      const error = classifyError(err);
+      if (hasText || !error.retryable || attempt > retries) throw error;
+      if ((error.retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS) throw error;
+      const delayMs = Math.max(error.retryAfterMs ?? 0, BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 250);
+      onRetry?.(error, attempt, delayMs);
+      await wait(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { StoryError, StoryErrorKind } from './errors';
+import {
+  ChatStreamRequest,
+  CountTokensRequest,
+  GenerateRequest,
+  GeneratedAudio,
+  GeneratedImage,
+  ImageRequest,
+  ModelInfo,
+  SpeechRequest,
+  StoryChunk,
+  StoryProvider,
+} from './types';
+
+// Gemini is reached through the project's API server (server/index.ts), which holds
+// the key. In development Vite forwards /api to it.
+const API_BASE = '/api';
+
+const FALLBACK_MODELS: ModelInfo[] = [
+  { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro (preview)' },
+  { id: 'gemini-3-flash-preview', label: 'Gemini 3 Flash (preview)' },
+];
+
+interface ErrorBody {
+  error?: { kind?: StoryErrorKind; message?: string; detail?: string };
+}
+
+const toStoryError = (body: ErrorBody, fallback: string, fallbackKind: StoryErrorKind = 'unknown', retryAfterMs?: number) =>
+  new StoryError(body.error?.kind ?? fallbackKind, body.error?.message ?? fallback, body.error?.detail, retryAfterMs);
+
+// Retry-After in seconds, as the API server's rate limiter sends it.
+const retryAfterOf = (response: Response) => {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return response.headers.has('Retry-After') && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+// Sends a request without its abort signal, which stays behind to cancel the fetch.
+const post = async (endpoint: string, { signal, ...body }: ChatStreamRequest | GenerateRequest | CountTokensRequest | ImageRequest | SpeechRequest) => {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    // Without our error body the request never reached the API server, e.g. it is not running.
+    const errorBody: ErrorBody = await response.json().catch(() => ({}));
+    throw toStoryError(errorBody, `The API server answered ${response.status}.`, 'network', retryAfterOf(response));
+  }
+  return response;
+};
+
+// Reads the server's event stream: `data:` lines carry chunks, and the stream ends
+// with a `done` or `error` event.
+async function* readEvents(response: Response): AsyncGenerator<StoryChunk> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) throw new StoryError('network', 'The connection to the API server closed early.');
+    buffer += value;
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const event = block.match(/^event: (.*)$/m)?.[1] ?? 'message';
+      const data = JSON.parse(block.match(/^data: (.*)$/m)?.[1] ?? '{}');
+      if (event === 'done') return;
+      if (event === 'error') throw toStoryError(data, 'The story stream failed.');
+      yield data as StoryChunk;
+    }
+  }
+}
+
+// Whether the API server has a key, so the app can fall back to the mock without one.
+export const hasGeminiApiKey = async () => {
+  try {
+    const response = await fetch(`${API_BASE}/status`);
+    return response.ok && Boolean((await response.json()).hasKey);
+  } catch {
+    return false;
+  }
+};
+
+export const geminiProvider: StoryProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  defaultModels: {
+    chat: 'gemini-3-pro-preview', // Complex text tasks
+    creative: 'gemini-3-flash-preview', // Fast text tasks, suitable for creative generation
+    image: 'gemini-2.5-flash-image', // Scene illustrations
+    speech: 'gemini-2.5-flash-preview-tts', // Narration
+  },
+  voices: [
+    { id: 'Sulafat', label: 'Sulafat (warm)' },
+    { id: 'Achernar', label: 'Achernar (soft)' },
+    { id: 'Aoede', label: 'Aoede (breezy)' },
+    { id: 'Vindemiatrix', label: 'Vindemiatrix (gentle)' },
+    { id: 'Charon', label: 'Charon (informative)' },
+    { id: 'Puck', label: 'Puck (upbeat)' },
+    { id: 'Fenrir', label: 'Fenrir (excitable)' },
+    { id: 'Enceladus', label: 'Enceladus (breathy)' },
+  ],
+
+  async listModels() {
+    try {
+      const response = await fetch(`${API_BASE}/models`);
+      if (!response.ok) return FALLBACK_MODELS;
+      const { models } = (await response.json()) as { models: ModelInfo[] };
+      return models.length > 0 ? models : FALLBACK_MODELS;
+    } catch (error) {
+      console.error('Failed to list Gemini models:', error);
+      return FALLBACK_MODELS;
+    }
+  },
+
+  async *streamChat(request: ChatStreamRequest): AsyncGenerator<StoryChunk> {
+    yield* readEvents(await post('/chat/stream', request));
+  },
+
+  async generate(request: GenerateRequest) {
+    const response = await post('/generate', request);
+    const { text, usage } = (await response.json()) as StoryChunk;
+    return { text, usage };
+  },
+
+  async *generateStream(request: GenerateRequest): AsyncGenerator<StoryChunk> {
+    yield* readEvents(await post('/generate/stream', request));
+  },
+
+  async countTokens(request: CountTokensRequest) {
+    const response = await post('/count-tokens', request);
+    return ((await response.json()) as { totalTokens: number }).totalTokens;
+  },
+
+  async generateImage(request: ImageRequest) {
+    const response = await post('/image', request);
+    return (await response.json()) as GeneratedImage;
+  },
+
+  async speak(request: SpeechRequest) {
+    const response = await post('/speech', request);
+    return (await response.json()) as GeneratedAudio;
+  },
+};
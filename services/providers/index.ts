@@ -0,0 +1,36 @@
+import { geminiProvider, hasGeminiApiKey } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+import { ProviderId, StoryProvider } from './types';
+
+export * from './types';
+export * from './errors';
+
+export const providers: Record<ProviderId, StoryProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const PROVIDER_STORAGE_KEY = 'stories-in-the-sky:provider';
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in providers;
+
+// The settings screen wins, then the STORY_PROVIDER environment variable.
+const getPreferredProviderId = (): ProviderId | null => {
+  const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  if (isProviderId(stored)) return stored;
+  if (isProviderId(process.env.STORY_PROVIDER)) return process.env.STORY_PROVIDER;
+  return null;
+};
+
+export const getInitialProviderId = (): ProviderId => getPreferredProviderId() ?? 'gemini';
+
+// Without a stated preference, falls back to the mock when the API server has no key.
+export const detectProviderId = async (): Promise<ProviderId> =>
+  getPreferredProviderId() ?? ((await hasGeminiApiKey()) ? 'gemini' : 'mock');
+
+export const saveProviderId = (id: ProviderId) => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+};
+
+export { hasGeminiApiKey };
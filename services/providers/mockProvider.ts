@@ -0,0 +1,326 @@
+import { Content, Schema, Type } from '@google/genai';
+import { StoryError, StoryErrorKind } from './errors';
+import {
+  ChatStreamRequest,
+  CountTokensRequest,
+  GenerateRequest,
+  ImageRequest,
+  PromptAttachment,
+  SamplingOptions,
+  SpeechRequest,
+  StoryChunk,
+  StoryProvider,
+  ToolCall,
+  ToolResult,
+} from './types';
+
+// An offline provider that needs no API key or network. Output depends only on
+// the request, so demos and tests see the same story every time.
+
+const MOCK_STORYTELLER = 'mock-storyteller';
+const MOCK_ECHO = 'mock-echo';
+const MOCK_PAINTER = 'mock-painter';
+const MOCK_NARRATOR = 'mock-narrator';
+const SPEECH_SAMPLE_RATE = 12000;
+const CHUNK_DELAY_MS = 15;
+
+const OPENINGS = [
+  'Once, beneath a sky stitched with silver,',
+  'Long ago, when the clouds still kept their secrets,',
+  'In a harbour town where the lanterns never went out,',
+  'At the edge of a map no one had finished drawing,',
+];
+
+const TWISTS = [
+  'a door appeared where no door had ever been.',
+  'the wind began to whisper a name nobody remembered.',
+  'a small fox offered a bargain too good to refuse.',
+  'the stars rearranged themselves into a question.',
+];
+
+const FALLBACK_NAMES = ['Wren', 'Harbourlight', 'The Lantern Guild', 'Old Mother Ash'];
+
+const ACTIONS = [
+  'Open the door',
+  'Follow the fox into the fog',
+  'Light the lantern',
+  'Ask the wind its name',
+  'Climb towards the stars',
+  'Turn back to the harbour',
+];
+
+const PLACES = ['The Silver Stair', 'A harbour of sleeping boats', 'The edge of the unfinished map', 'A lantern-lit alley'];
+
+const ITEMS = ['a brass lantern', 'a folded star chart', 'a fox-tooth charm', 'three copper coins', 'a key with no lock'];
+
+const CLOSINGS = [
+  'What should happen next?',
+  'Where would you like the story to wander now?',
+  'Shall we follow the thread a little further?',
+];
+
+// FNV-1a: a small, stable string hash for picking phrases.
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const pick = <T,>(items: T[], seed: number) => items[seed % items.length];
+
+const summarize = (text: string, maxWords = 12) => {
+  const words = text.trim().split(/\s+/);
+  return words.length > maxWords ? `${words.slice(0, maxWords).join(' ')}…` : words.join(' ');
+};
+
+// Capitalised words from the prompt stand in for the names a real model would pick up.
+const properNouns = (text: string) =>
+  Array.from(new Set(text.match(/(?<![.!?]\s)(?<!^)\b[A-Z][a-z]{2,}\b/g) ?? []));
+
+// Builds a value matching `schema`, so structured-output callers get well-formed JSON offline.
+const sampleFromSchema = (schema: Schema, seed: number, names: string[], key = ''): unknown => {
+  if (schema.enum?.length) return pick(schema.enum, seed);
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, property]) => [
+          name,
+          sampleFromSchema(property, hashString(`${seed}:${name}`), names, name),
+        ]),
+      );
+    case Type.ARRAY: {
+      const min = Number(schema.minItems ?? 2);
+      const max = Number(schema.maxItems ?? 3);
+      const count = Math.max(min, Math.min(max, 2 + (seed % 2)));
+      return Array.from({ length: count }, (_, index) =>
+        sampleFromSchema(schema.items ?? { type: Type.STRING }, hashString(`${seed}:${index}`), names, key),
+      );
+    }
+    case Type.INTEGER:
+    case Type.NUMBER:
+      return Math.min(schema.maximum ?? 10, Math.max(schema.minimum ?? 1, (seed % 10) + 1));
+    case Type.BOOLEAN:
+      return seed % 2 === 0;
+    default:
+      if (/name|title|label/i.test(key)) return pick(names.length > 0 ? names : FALLBACK_NAMES, seed);
+      if (/choice|action/i.test(key)) return pick(ACTIONS, seed);
+      if (/location|place/i.test(key)) return pick(PLACES, seed);
+      if (/inventory|item/i.test(key)) return pick(ITEMS, seed);
+      if (/passage|story/i.test(key)) return `${pick(OPENINGS, seed)} ${pick(TWISTS, seed >>> 3)}`;
+      return `Somewhere along the way, ${pick(TWISTS, seed)}`;
+  }
+};
+
+const composeJson = (schema: Schema, prompt: string) =>
+  JSON.stringify(sampleFromSchema(schema, hashString(prompt), properNouns(prompt)), null, 2);
+
+// The mock cannot look at attachments, so it names them in its tale instead.
+const withAttachmentNames = (prompt: string, attachments: PromptAttachment[] = []) =>
+  attachments.length > 0 ? `${prompt} (inspired by ${attachments.map((file) => file.name).join(', ')})`.trim() : prompt;
+
+// Tool results come back as user turns too; only the reader's own count.
+const countTurns = (history: Content[]) =>
+  history.filter((turn) => turn.role === 'user' && !turn.parts?.some((part) => part.functionResponse)).length;
+
+const composeStory = (model: string, prompt: string, systemInstruction = '', turn = 0, sampling?: SamplingOptions) => {
+  if (model === MOCK_ECHO) return `Echo: ${prompt}`;
+  const seed = hashString(`${sampling?.seed ?? ''}\n${systemInstruction}\n${prompt}`);
+  return [
+    `**Chapter ${turn + 1}.** ${pick(OPENINGS, seed)} a tale began about *${summarize(prompt)}* — and then ${pick(TWISTS, seed >>> 3)}`,
+    pick(CLOSINGS, seed >>> 5),
+  ].join('\n\n');
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Splits text into word-sized chunks, keeping the whitespace that follows each word.
+const toChunks = (text: string) => text.match(/\S+\s*/g) ?? [];
+
+// A prompt containing e.g. "[mock-error:safety]" fails the way a real model would,
+// so error handling can be tried out without an API key.
+const MOCK_ERROR_PATTERN = /\[mock-error:(rate-limit|quota|invalid-key|network|server|safety|empty)\]/;
+
+const failIfRequested = (prompt: string) => {
+  const kind = prompt.match(MOCK_ERROR_PATTERN)?.[1] as StoryErrorKind | undefined;
+  if (!kind) return;
+  throw new StoryError(kind, `Simulated ${kind} error`, kind === 'safety' ? 'dangerous content' : undefined);
+};
+
+// Roughly four characters per token.
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Yields `text` word by word at a steady pace, stopping as soon as `signal` aborts.
+// Like Gemini, usage for the whole request arrives with the final chunk.
+async function* streamWords(text: string, promptText: string, signal?: AbortSignal): AsyncGenerator<StoryChunk> {
+  for (const chunk of toChunks(text)) {
+    await delay(CHUNK_DELAY_MS);
+    signal?.throwIfAborted();
+    yield { text: chunk };
+  }
+  yield { text: '', usage: { promptTokens: countTokens(promptText), outputTokens: countTokens(text) } };
+}
+
+// Mentioning dice asks for a roll first, so tool calls can be tried without an API key.
+const DICE_PATTERN = /\b(roll|dice|die)\b/i;
+
+async function* callTool(call: ToolCall, signal?: AbortSignal): AsyncGenerator<StoryChunk> {
+  await delay(CHUNK_DELAY_MS);
+  signal?.throwIfAborted();
+  yield { text: '', toolCalls: [call] };
+}
+
+// After a tool round the reader's prompt is the last text they sent.
+const lastPrompt = (history: Content[]) =>
+  [...history].reverse().find((turn) => turn.role === 'user' && turn.parts?.some((part) => part.text))?.parts?.[0]?.text ?? '';
+
+const describeRolls = (results: ToolResult[]) => {
+  const totals = results.map((result) => result.response.total).filter((total) => typeof total === 'number');
+  return totals.length > 0 ? `The dice came up ${totals.join(' and ')}.\n\n` : '';
+};
+
+// Applies stop sequences and the output limit the way a real model would.
+const truncate = (text: string, sampling?: SamplingOptions) => {
+  let result = text;
+  for (const stop of sampling?.stopSequences ?? []) {
+    const index = stop ? result.indexOf(stop) : -1;
+    if (index !== -1) result = result.slice(0, index);
+  }
+  return sampling?.maxOutputTokens ? result.slice(0, sampling.maxOutputTokens * 4) : result;
+};
+
+const SKY_COLOURS = ['#0b1d3a', '#2d1b4e', '#123c3a', '#3a1f1f', '#1b2d4e'];
+const GLOW_COLOURS = ['#f4c66b', '#9ad1ff', '#f29bc2', '#b6f09c', '#ffd9a0'];
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"]/g, (char) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[char]!);
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const toBase64 = (text: string) => bytesToBase64(new TextEncoder().encode(text));
+
+// A night-sky placeholder picture drawn from the prompt: the same prompt always
+// gives the same picture, captioned with the start of the prompt.
+const drawScene = (prompt: string) => {
+  const seed = hashString(prompt);
+  const stars = Array.from({ length: 24 }, (_, index) => {
+    const starSeed = hashString(`${seed}:${index}`);
+    return `<circle cx="${starSeed % 512}" cy="${(starSeed >>> 9) % 300}" r="${1 + (starSeed % 3)}" fill="#fff" opacity="0.8"/>`;
+  }).join('');
+  return [
+    '<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">',
+    `<rect width="512" height="512" fill="${pick(SKY_COLOURS, seed)}"/>`,
+    stars,
+    `<circle cx="${120 + (seed % 270)}" cy="140" r="48" fill="${pick(GLOW_COLOURS, seed >>> 3)}"/>`,
+    `<path d="M0 420 Q128 ${340 + (seed % 60)} 256 400 T512 380 V512 H0 Z" fill="#000" opacity="0.55"/>`,
+    `<text x="256" y="490" font-family="sans-serif" font-size="16" fill="#fff" text-anchor="middle">${escapeXml(summarize(prompt, 8))}</text>`,
+    '</svg>',
+  ].join('');
+};
+
+// A soft tone per word stands in for a voice. Longer words hum longer and a
+// pause follows each one, so narration timing behaves roughly like speech.
+const humWords = (text: string, voice: string) => {
+  const pitch = voice === 'Moon' ? 170 : 290;
+  const words = text.split(/\s+/).filter(Boolean).map((word) => ({
+    frequency: pitch + (hashString(word) % 90),
+    length: Math.round(SPEECH_SAMPLE_RATE * (0.12 + Math.min(word.length, 12) * 0.02)),
+  }));
+  const gap = Math.round(SPEECH_SAMPLE_RATE * 0.08);
+  const pcm = new DataView(new ArrayBuffer(words.reduce((total, word) => total + word.length + gap, 0) * 2));
+  let offset = 0;
+  for (const { frequency, length } of words) {
+    for (let i = 0; i < length; i++) {
+      const envelope = Math.sin((Math.PI * i) / length); // Fade each tone in and out to avoid clicks
+      pcm.setInt16((offset + i) * 2, Math.round(Math.sin((2 * Math.PI * frequency * i) / SPEECH_SAMPLE_RATE) * envelope * 3000), true);
+    }
+    offset += length + gap;
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+export const mockProvider: StoryProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  defaultModels: {
+    chat: MOCK_STORYTELLER,
+    creative: MOCK_STORYTELLER,
+    image: MOCK_PAINTER,
+    speech: MOCK_NARRATOR,
+  },
+  voices: [
+    { id: 'Lark', label: 'Lark (bright hum)' },
+    { id: 'Moon', label: 'Moon (low hum)' },
+  ],
+
+  async listModels() {
+    return [
+      { id: MOCK_STORYTELLER, label: 'Mock storyteller' },
+      { id: MOCK_ECHO, label: 'Mock echo' },
+      { id: MOCK_PAINTER, label: 'Mock painter' },
+      { id: MOCK_NARRATOR, label: 'Mock narrator' },
+    ];
+  },
+
+  streamChat({ model, systemInstruction, history, message, attachments, toolResults, tools, sampling, responseSchema, signal }: ChatStreamRequest) {
+    failIfRequested(message);
+    if (!toolResults && tools?.some((tool) => tool.name === 'roll_dice') && DICE_PATTERN.test(message)) {
+      return callTool({ name: 'roll_dice', args: { notation: '1d20', reason: summarize(message, 4) } }, signal);
+    }
+    const prompt = toolResults ? lastPrompt(history) : message;
+    const text = responseSchema
+      ? composeJson(responseSchema, message)
+      : truncate(
+          (toolResults ? describeRolls(toolResults) : '') +
+            composeStory(model, withAttachmentNames(prompt, attachments), systemInstruction, countTurns(history) - (toolResults ? 1 : 0), sampling),
+          sampling,
+        );
+    const promptText = [systemInstruction, ...history.flatMap((turn) => turn.parts?.map((part) => part.text ?? '') ?? []), message].join('\n');
+    return streamWords(text, promptText, signal);
+  },
+
+  async generate({ model, systemInstruction, prompt, attachments, sampling, responseSchema, signal }: GenerateRequest) {
+    signal?.throwIfAborted();
+    failIfRequested(prompt);
+    const text = responseSchema
+      ? composeJson(responseSchema, prompt)
+      : truncate(composeStory(model, withAttachmentNames(prompt, attachments), systemInstruction, 0, sampling), sampling);
+    return { text, usage: { promptTokens: countTokens(`${systemInstruction ?? ''}\n${prompt}`), outputTokens: countTokens(text) } };
+  },
+
+  generateStream({ model, systemInstruction, prompt, attachments, sampling, responseSchema, signal }: GenerateRequest) {
+    failIfRequested(prompt);
+    const text = responseSchema
+      ? composeJson(responseSchema, prompt)
+      : truncate(composeStory(model, withAttachmentNames(prompt, attachments), systemInstruction, 0, sampling), sampling);
+    return streamWords(text, `${systemInstruction ?? ''}\n${prompt}`, signal);
+  },
+
+  async countTokens({ systemInstruction, history, message, signal }: CountTokensRequest) {
+    signal?.throwIfAborted();
+    const turns = history.flatMap((turn) => turn.parts?.map((part) => part.text ?? '') ?? []);
+    return countTokens([systemInstruction ?? '', ...turns, message ?? ''].join('\n'));
+  },
+
+  async generateImage({ prompt, signal }: ImageRequest) {
+    await delay(CHUNK_DELAY_MS * 10);
+    signal?.throwIfAborted();
+    failIfRequested(prompt);
+    return { mimeType: 'image/svg+xml', data: toBase64(drawScene(prompt)) };
+  },
+
+  async speak({ text, voice, signal }: SpeechRequest) {
+    await delay(CHUNK_DELAY_MS * 10);
+    signal?.throwIfAborted();
+    failIfRequested(text);
+    return { mimeType: `audio/L16;codec=pcm;rate=${SPEECH_SAMPLE_RATE}`, data: bytesToBase64(humWords(text, voice)) };
+  },
+};
@@ -0,0 +1,131 @@
+import { Content, FunctionDeclaration, Schema } from '@google/genai';
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+}
+
+export interface VoiceInfo {
+  id: string;
+  label: string;
+}
+
+export interface SamplingOptions {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  seed?: number;
+}
+
+// A file sent along with a prompt as inspiration.
+export interface PromptAttachment {
+  name: string;
+  mimeType: string; // image/* or text/*
+  data: string; // Base64 for images; the text itself for text files
+}
+
+// A function the model asked to have run before it carries on.
+export interface ToolCall {
+  id?: string; // Set when the API numbers its calls; sent back with the result
+  name: string;
+  args: Record<string, unknown>;
+  thoughtSignature?: string; // Must go back to the model with the call, unchanged
+}
+
+export interface ToolResult {
+  id?: string; // The call's id, if it had one
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface ChatStreamRequest {
+  model: string;
+  systemInstruction: string;
+  history: Content[]; // Turns before `message`, oldest first
+  message: string;
+  attachments?: PromptAttachment[]; // Sent with `message`
+  toolResults?: ToolResult[]; // Answers to the model's last tool calls, sent instead of `message`
+  tools?: FunctionDeclaration[]; // Functions the model may call; calls arrive on the chunks
+  sampling?: SamplingOptions;
+  responseSchema?: Schema; // When set, the reply is JSON matching this schema
+  signal?: AbortSignal; // Aborting ends the stream early; text already yielded stays valid
+}
+
+export interface GenerateRequest {
+  model: string;
+  systemInstruction?: string;
+  prompt: string;
+  attachments?: PromptAttachment[]; // Sent with `prompt`
+  sampling?: SamplingOptions;
+  responseSchema?: Schema; // When set, the reply is JSON matching this schema
+  signal?: AbortSignal;
+}
+
+export interface CountTokensRequest {
+  model: string;
+  systemInstruction?: string;
+  history: Content[];
+  message?: string; // The turn about to be sent, if any
+  signal?: AbortSignal;
+}
+
+export interface ImageRequest {
+  model: string;
+  prompt: string;
+  signal?: AbortSignal;
+}
+
+export interface GeneratedImage {
+  mimeType: string;
+  data: string; // Base64, without a data: URL prefix
+  usage?: TokenUsage; // Missing when the model did not report it
+}
+
+export interface SpeechRequest {
+  model: string;
+  text: string;
+  voice: string; // One of the provider's `voices`
+  signal?: AbortSignal;
+}
+
+export interface GeneratedAudio {
+  mimeType: string; // 16-bit mono PCM with its sample rate, e.g. audio/L16;codec=pcm;rate=24000
+  data: string; // Base64
+  usage?: TokenUsage; // Missing when the model did not report it
+}
+
+export interface GeneratedText {
+  text: string;
+  usage?: TokenUsage; // Missing when the model did not report it
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number; // Includes any thinking tokens, which are billed as output
+}
+
+export interface StoryChunk {
+  text: string;
+  toolCalls?: ToolCall[]; // The reply waits for their results
+  usage?: TokenUsage; // Running totals for the whole request; the last one reported wins
+}
+
+// Everything the UI needs from a model backend. Components only talk to this
+// interface, so any backend can be swapped in from the settings screen.
+export interface StoryProvider {
+  id: ProviderId;
+  label: string;
+  defaultModels: { chat: string; creative: string; image: string; speech: string };
+  voices: VoiceInfo[]; // Narration voices, the first being the default
+  listModels(): Promise<ModelInfo[]>;
+  streamChat(request: ChatStreamRequest): AsyncGenerator<StoryChunk>;
+  generate(request: GenerateRequest): Promise<GeneratedText>;
+  generateStream(request: GenerateRequest): AsyncGenerator<StoryChunk>;
+  countTokens(request: CountTokensRequest): Promise<number>;
+  generateImage(request: ImageRequest): Promise<GeneratedImage>;
+  speak(request: SpeechRequest): Promise<GeneratedAudio>;
+}
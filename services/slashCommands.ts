@@ -0,0 +1,164 @@
+import { Mood } from '../types';
+import { ExportFormat } from './storyExport';
+
+// What a command can see and do in Storyteller Chat.
+export interface ChatCommandContext {
+  moods: Mood[];
+  characters: string[]; // Named in the Story Bible
+  rewind: () => void;
+  summarize: () => void;
+  exportStory: (format: ExportFormat) => void;
+}
+
+interface CommandBase {
+  name: string; // Typed after the slash
+  argument?: string; // Shown in the autocomplete, e.g. "<character>"
+  description: string;
+  suggest?: (context: ChatCommandContext) => string[]; // Values offered for the argument
+}
+
+// Turns the typed argument into the reader's next turn.
+export interface PromptCommand extends CommandBase {
+  prompt: (argument: string, context: ChatCommandContext) => string;
+}
+
+// Does something in the app instead of sending a turn.
+export interface ActionCommand extends CommandBase {
+  action: (argument: string, context: ChatCommandContext) => void;
+}
+
+export type SlashCommand = PromptCommand | ActionCommand;
+
+// Thrown for a command that cannot run as typed; the message is shown to the reader.
+export class SlashCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SlashCommandError';
+  }
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'html', 'epub', 'json'];
+
+const findMood = (name: string, moods: Mood[]) => {
+  const wanted = name.trim().toLowerCase();
+  return moods.find((mood) => mood.label.toLowerCase() === wanted || mood.id === wanted);
+};
+
+const commands = new Map<string, SlashCommand>();
+
+// Adds a command, or replaces the one with the same name.
+export const registerSlashCommand = (command: SlashCommand) => {
+  commands.set(command.name, command);
+};
+
+export const listSlashCommands = () => [...commands.values()];
+
+registerSlashCommand({
+  name: 'continue',
+  argument: '[direction]',
+  description: 'Carry the story on from where it stopped',
+  prompt: (direction) =>
+    direction ? `Continue the story. In the next part, ${direction}` : 'Continue the story from where it left off.',
+});
+
+registerSlashCommand({
+  name: 'twist',
+  argument: '[hint]',
+  description: 'Throw in an unexpected turn of events',
+  prompt: (hint) =>
+    `Continue the story with an unexpected twist that changes what the characters believed${hint ? `, involving ${hint}` : ''}. Keep it consistent with everything so far.`,
+});
+
+registerSlashCommand({
+  name: 'mood',
+  argument: '<name>',
+  description: 'Write the next part in one of the Mood Weaver moods',
+  suggest: ({ moods }) => moods.map((mood) => mood.label),
+  prompt: (name, { moods }) => {
+    if (!name) throw new SlashCommandError('Name a mood, e.g. /mood Calm.');
+    const mood = findMood(name, moods);
+    if (!mood) throw new SlashCommandError(`There is no mood called "${name}".`);
+    return [
+      `Continue the story in a ${mood.label.toLowerCase()} mood.`,
+      mood.description.trim(),
+      mood.examplePhrasing.trim() && `For the feel of it: "${mood.examplePhrasing.trim()}"`,
+    ].filter(Boolean).join(' ');
+  },
+});
+
+registerSlashCommand({
+  name: 'pov',
+  argument: '<character>',
+  description: "Tell the next part from a character's point of view",
+  suggest: ({ characters }) => characters,
+  prompt: (character) => {
+    if (!character) throw new SlashCommandError('Name a character, e.g. /pov the lighthouse keeper.');
+    return `Continue the story from ${character}'s point of view, in their voice, showing what only they could know or feel.`;
+  },
+});
+
+registerSlashCommand({
+  name: 'rewind',
+  description: 'Step back before your last turn; it stays in the story tree',
+  action: (_, { rewind }) => rewind(),
+});
+
+registerSlashCommand({
+  name: 'summarize',
+  description: 'Fold the story so far into its summary',
+  action: (_, { summarize }) => summarize(),
+});
+
+registerSlashCommand({
+  name: 'export',
+  argument: '[markdown|html|epub|json]',
+  description: 'Download the story',
+  suggest: () => EXPORT_FORMATS,
+  action: (format, { exportStory }) => {
+    const chosen = (format || 'markdown').toLowerCase() as ExportFormat;
+    if (!EXPORT_FORMATS.includes(chosen)) throw new SlashCommandError(`Stories export as ${EXPORT_FORMATS.join(', ')}.`);
+    exportStory(chosen);
+  },
+});
+
+// "/pov Mara" -> the pov command and "Mara". Null when the text is not a
+// command; a misspelt command name is an error rather than a turn.
+export const parseSlashCommand = (text: string) => {
+  const match = text.trim().match(/^\/([a-z-]+)(?:\s+([\s\S]*))?$/i);
+  if (!match) return null;
+  const command = commands.get(match[1].toLowerCase());
+  if (!command) throw new SlashCommandError(`There is no /${match[1]} command. Type / to see them all.`);
+  return { command, argument: (match[2] ?? '').trim() };
+};
+
+export interface SlashSuggestion {
+  label: string; // What is shown
+  completion: string; // The composer text once picked
+  description?: string;
+}
+
+// What the autocomplete offers while a command is being typed: command names
+// first, then values for its argument.
+export const suggestSlashCommands = (text: string, context: ChatCommandContext): SlashSuggestion[] => {
+  if (!text.startsWith('/') || text.includes('\n')) return [];
+  const space = text.indexOf(' ');
+  if (space === -1) {
+    const typed = text.slice(1).toLowerCase();
+    return listSlashCommands()
+      .filter((command) => command.name.startsWith(typed))
+      .map((command) => ({
+        label: `/${command.name}${command.argument ? ` ${command.argument}` : ''}`,
+        completion: `/${command.name}${command.argument ? ' ' : ''}`,
+        description: command.description,
+      }));
+  }
+  const command = commands.get(text.slice(1, space).toLowerCase());
+  const typed = text.slice(space + 1).toLowerCase();
+  return (command?.suggest?.(context) ?? [])
+    .filter((value) => value.toLowerCase().startsWith(typed) && value.toLowerCase() !== typed)
+    .map((value) => ({ label: value, completion: `/${command!.name} ${value}` }));
+};
+
+export const isPromptCommand = (command: SlashCommand): command is PromptCommand => 'prompt' in command;
+
+export const isActionCommand = (command: SlashCommand): command is ActionCommand => 'action' in command;
@@ -0,0 +1,102 @@
+import { Schema, Type } from '@google/genai';
+import { BibleEntry, BibleEntryKind, UsageRecord } from '../types';
+import { recordsIn } from './guards';
+import { StoryProvider } from './providers';
+import { toUsageRecord } from './usage';
+
+export const BIBLE_KINDS: { value: BibleEntryKind; label: string; heading: string }[] = [
+  { value: 'character', label: 'Character', heading: 'Characters' },
+  { value: 'location', label: 'Location', heading: 'Locations' },
+  { value: 'faction', label: 'Faction', heading: 'Factions' },
+  { value: 'rule', label: 'Hard rule', heading: 'Hard rules' },
+];
+
+const isBibleKind = (value: unknown): value is BibleEntryKind =>
+  BIBLE_KINDS.some((kind) => kind.value === value);
+
+// Renders the active entries as a Markdown section for a system instruction,
+// grouped by kind so the model can find a character or rule quickly.
+export const formatBible = (entries: BibleEntry[]): string => {
+  const active = entries.filter((entry) => entry.active);
+  if (active.length === 0) return '';
+  const sections = BIBLE_KINDS.map(({ value, heading }) => {
+    const items = active.filter((entry) => entry.kind === value);
+    if (items.length === 0) return '';
+    return [`### ${heading}`, ...items.map((entry) => `- **${entry.name}**: ${entry.description.trim()}`)].join('\n');
+  }).filter(Boolean);
+  return [
+    '## Story Bible',
+    'These facts are canon. Keep every name, appearance, place and rule consistent with them, and never contradict a hard rule.',
+    ...sections,
+  ].join('\n\n');
+};
+
+export const withBible = (systemInstruction: string, entries: BibleEntry[]) => {
+  const bible = formatBible(entries);
+  return bible ? `${systemInstruction}\n\n${bible}` : systemInstruction;
+};
+
+export type BibleProposal = Pick<BibleEntry, 'kind' | 'name' | 'description'>;
+
+const PROPOSAL_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      kind: { type: Type.STRING, enum: BIBLE_KINDS.map((kind) => kind.value) },
+      name: { type: Type.STRING },
+      description: { type: Type.STRING },
+    },
+    required: ['kind', 'name', 'description'],
+    propertyOrdering: ['kind', 'name', 'description'],
+  },
+};
+
+const EXTRACTION_INSTRUCTION = 'You are a meticulous story editor who keeps a series bible. You only record facts that the story has clearly established.';
+
+// Asks the model for bible entries established in `transcript` that the bible
+// does not cover yet. The caller decides which proposals to keep.
+export const extractBibleProposals = async (
+  provider: StoryProvider,
+  model: string,
+  transcript: string,
+  existing: BibleEntry[],
+  onUsage: (record: UsageRecord) => void,
+): Promise<BibleProposal[]> => {
+  const known = existing.map((entry) => `- ${entry.kind}: ${entry.name}`).join('\n') || '(empty)';
+  const prompt = [
+    'Read the story below and propose new Story Bible entries for characters, locations, factions and hard rules of the world.',
+    'Describe appearance, personality and relationships for characters, and the exact constraint for rules. Skip anything already in the bible.',
+    `Current bible:\n${known}`,
+    `Story:\n"""\n${transcript}\n"""`,
+  ].join('\n\n');
+
+  const { text, usage } = await provider.generate({
+    model,
+    prompt,
+    systemInstruction: EXTRACTION_INSTRUCTION,
+    responseSchema: PROPOSAL_SCHEMA,
+    sampling: { temperature: 0.2 },
+  });
+  onUsage(toUsageRecord(model, usage, `${EXTRACTION_INSTRUCTION}\n${prompt}`, text));
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    throw new Error('The model did not return valid bible entries.');
+  }
+
+  const knownNames = new Set(existing.map((entry) => entry.name.trim().toLowerCase()));
+  return recordsIn(parsed)
+    .flatMap((item): BibleProposal[] =>
+      isBibleKind(item.kind) && typeof item.name === 'string' && typeof item.description === 'string'
+        ? [{ kind: item.kind, name: item.name.trim(), description: item.description.trim() }]
+        : [])
+    .filter((item) => {
+      const key = item.name.toLowerCase();
+      if (item.name === '' || knownNames.has(key)) return false;
+      knownNames.add(key);
+      return true;
+    });
+};
@@ -0,0 +1,168 @@
+import { BibleEntry, Book, GenerationPreset, Mood, MoodRun, Persona, StorySession } from '../types';
+
+const DB_NAME = 'stories-in-the-sky';
+const DB_VERSION = 7;
+const SESSIONS_STORE = 'sessions';
+const BIBLE_STORE = 'bible'; // Added in version 2
+const MOODS_STORE = 'moods'; // Added in version 3
+const PRESETS_STORE = 'presets'; // Added in version 4
+const BOOKS_STORE = 'books'; // Added in version 5
+const RUNS_STORE = 'moodRuns'; // Added in version 6
+const PERSONAS_STORE = 'personas'; // Added in version 7
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(BIBLE_STORE)) {
+          db.createObjectStore(BIBLE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(MOODS_STORE)) {
+          db.createObjectStore(MOODS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PRESETS_STORE)) {
+          db.createObjectStore(PRESETS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(BOOKS_STORE)) {
+          db.createObjectStore(BOOKS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(RUNS_STORE)) {
+          db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PERSONAS_STORE)) {
+          db.createObjectStore(PERSONAS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a later call to try again
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a single-store request in a promise that settles when its transaction does.
+const withStore = async <T,>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const listSessions = async (): Promise<StorySession[]> => {
+  const sessions = await withStore<StorySession[]>(SESSIONS_STORE, 'readonly', (store) => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = (id: string): Promise<StorySession | undefined> =>
+  withStore<StorySession | undefined>(SESSIONS_STORE, 'readonly', (store) => store.get(id));
+
+export const saveSession = async (session: StorySession): Promise<void> => {
+  await withStore(SESSIONS_STORE, 'readwrite', (store) => store.put(session));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore(SESSIONS_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+export const renameSession = async (id: string, title: string): Promise<void> => {
+  const session = await getSession(id);
+  if (!session) throw new Error(`Story ${id} not found.`);
+  await saveSession({ ...session, title, updatedAt: Date.now() });
+};
+
+export const listBibleEntries = async (): Promise<BibleEntry[]> => {
+  const entries = await withStore<BibleEntry[]>(BIBLE_STORE, 'readonly', (store) => store.getAll());
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveBibleEntry = async (entry: BibleEntry): Promise<void> => {
+  await withStore(BIBLE_STORE, 'readwrite', (store) => store.put(entry));
+};
+
+export const deleteBibleEntry = async (id: string): Promise<void> => {
+  await withStore(BIBLE_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+export const listMoods = async (): Promise<Mood[]> => {
+  const moods = await withStore<Mood[]>(MOODS_STORE, 'readonly', (store) => store.getAll());
+  return moods.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveMood = async (mood: Mood): Promise<void> => {
+  await withStore(MOODS_STORE, 'readwrite', (store) => store.put(mood));
+};
+
+export const deleteMood = async (id: string): Promise<void> => {
+  await withStore(MOODS_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+export const listPresets = async (): Promise<GenerationPreset[]> => {
+  const presets = await withStore<GenerationPreset[]>(PRESETS_STORE, 'readonly', (store) => store.getAll());
+  return presets.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const savePreset = async (preset: GenerationPreset): Promise<void> => {
+  await withStore(PRESETS_STORE, 'readwrite', (store) => store.put(preset));
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  await withStore(PRESETS_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+export const listBooks = async (): Promise<Book[]> => {
+  const books = await withStore<Book[]>(BOOKS_STORE, 'readonly', (store) => store.getAll());
+  return books.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveBook = async (book: Book): Promise<void> => {
+  await withStore(BOOKS_STORE, 'readwrite', (store) => store.put(book));
+};
+
+export const deleteBook = async (id: string): Promise<void> => {
+  await withStore(BOOKS_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+export const listMoodRuns = async (): Promise<MoodRun[]> => {
+  const runs = await withStore<MoodRun[]>(RUNS_STORE, 'readonly', (store) => store.getAll());
+  return runs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveMoodRun = async (run: MoodRun): Promise<void> => {
+  await withStore(RUNS_STORE, 'readwrite', (store) => store.put(run));
+};
+
+export const deleteMoodRun = async (id: string): Promise<void> => {
+  await withStore(RUNS_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+export const listPersonas = async (): Promise<Persona[]> => {
+  const personas = await withStore<Persona[]>(PERSONAS_STORE, 'readonly', (store) => store.getAll());
+  return personas.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const savePersona = async (persona: Persona): Promise<void> => {
+  await withStore(PERSONAS_STORE, 'readwrite', (store) => store.put(persona));
+};
+
+export const deletePersona = async (id: string): Promise<void> => {
+  await withStore(PERSONAS_STORE, 'readwrite', (store) => store.delete(id));
+};
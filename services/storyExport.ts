@@ -0,0 +1,562 @@
+import {
+  AdventureTurn,
+  Attachment,
+  Book,
+  CharacterAppearance,
+  Illustration,
+  Message,
+  MessageStatus,
+  PersonaTag,
+  StorySession,
+  StorySummary,
+  ToolCallRecord,
+  UsageRecord,
+} from '../types';
+import { toAdventureState } from './adventure';
+import { isRecord } from './guards';
+import { STORY_ERROR_KINDS } from './providers';
+import { escapeHtml, markdownToHtml } from './markdown';
+import { isFailed, normalizeSession } from './storyTree';
+import { createZip } from './zip';
+
+export type ExportFormat = 'markdown' | 'html' | 'epub' | 'json';
+export type ChatExportScope = 'transcript' | 'story';
+
+export interface ExportSection {
+  speaker?: string;
+  text: string; // Markdown
+}
+
+export interface ExportChapter {
+  title: string;
+  sections: ExportSection[];
+}
+
+// A format-neutral view of a story that every exporter renders from.
+export interface ExportDocument {
+  title: string;
+  subtitle?: string;
+  chapters: ExportChapter[];
+}
+
+const SPEAKERS: Record<Message['sender'], string> = { user: 'You', model: 'Storyteller' };
+
+// Builds a document from the branch on screen. "story" keeps only the storyteller's
+// turns, one chapter each; "transcript" keeps both sides, one chapter per exchange.
+export const buildChatDocument = (title: string, branch: Message[], scope: ChatExportScope): ExportDocument => {
+  const turns = branch.filter((msg) => !isFailed(msg) && msg.text.trim() !== '');
+  if (scope === 'story') {
+    return {
+      title,
+      chapters: turns
+        .filter((msg) => msg.sender === 'model')
+        .map((msg, index) => ({ title: `Chapter ${index + 1}`, sections: [{ text: msg.text }] })),
+    };
+  }
+
+  const chapters: ExportChapter[] = [];
+  for (const msg of turns) {
+    if (msg.sender === 'user' || chapters.length === 0) {
+      chapters.push({ title: `Chapter ${chapters.length + 1}`, sections: [] });
+    }
+    chapters[chapters.length - 1].sections.push({ speaker: SPEAKERS[msg.sender], text: msg.text });
+  }
+  return { title, subtitle: 'Full transcript', chapters };
+};
+
+export const buildPassageDocument = (title: string, text: string, subtitle?: string): ExportDocument => ({
+  title,
+  subtitle,
+  chapters: [{ title, sections: [{ text }] }],
+});
+
+// Written chapters only, numbered across the whole book and grouped under their acts.
+export const buildBookDocument = (book: Book): ExportDocument => {
+  let number = 0;
+  return {
+    title: book.title,
+    chapters: book.acts.flatMap((act) =>
+      act.chapters.flatMap((chapter) => {
+        number++;
+        return chapter.text ? [{ title: `Chapter ${number}: ${chapter.title}`, sections: [{ text: chapter.text }] }] : [];
+      }),
+    ),
+  };
+};
+
+// ---- Markdown ----
+
+export const toMarkdown = (doc: ExportDocument): string => {
+  const parts = [`# ${doc.title}`];
+  if (doc.subtitle) parts.push(`*${doc.subtitle}*`);
+  for (const chapter of doc.chapters) {
+    parts.push(`## ${chapter.title}`);
+    for (const section of chapter.sections) {
+      if (section.speaker) parts.push(`**${section.speaker}:**`);
+      parts.push(section.text.trim());
+    }
+  }
+  return `${parts.join('\n\n')}\n`;
+};
+
+// ---- HTML ----
+
+const BOOK_STYLES = `
+body { margin: 0; background: #0d1117; color: #c9d1d9; font-family: Georgia, 'Times New Roman', serif; line-height: 1.7; }
+main { max-width: 42em; margin: 0 auto; padding: 3em 1.5em; }
+h1 { color: #58a6ff; font-size: 2.2em; margin-bottom: 0.2em; }
+h2 { color: #58a6ff; border-bottom: 1px solid #30363d; padding-bottom: 0.3em; margin-top: 2em; }
+.subtitle { color: #8b949e; font-style: italic; margin-top: 0; }
+.speaker { color: #8b949e; font-size: 0.85em; letter-spacing: 0.05em; text-transform: uppercase; margin-bottom: 0.3em; }
+.turn { margin-bottom: 1.5em; }
+.turn.you { border-left: 3px solid #58a6ff; padding-left: 1em; }
+a { color: #58a6ff; }
+blockquote { border-left: 3px solid #30363d; margin-left: 0; padding-left: 1em; color: #8b949e; }
+pre, code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+pre { background: #010409; padding: 0.8em 1em; border-radius: 6px; overflow-x: auto; }
+hr { border: none; border-top: 1px solid #30363d; }
+`.trim();
+
+const sectionToHtml = (section: ExportSection) => {
+  const body = markdownToHtml(section.text);
+  if (!section.speaker) return body;
+  return [
+    `<div class="turn ${escapeHtml(section.speaker.toLowerCase())}">`,
+    `<p class="speaker">${escapeHtml(section.speaker)}</p>`,
+    body,
+    '</div>',
+  ].join('\n');
+};
+
+const chapterToHtml = (chapter: ExportChapter) =>
+  [`<h2>${escapeHtml(chapter.title)}</h2>`, ...chapter.sections.map(sectionToHtml)].join('\n');
+
+export const toHtml = (doc: ExportDocument): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(doc.title)}</title>
+<style>
+${BOOK_STYLES}
+</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(doc.title)}</h1>
+${doc.subtitle ? `<p class="subtitle">${escapeHtml(doc.subtitle)}</p>` : ''}
+${doc.chapters.map((chapter) => `<section>\n${chapterToHtml(chapter)}\n</section>`).join('\n')}
+</main>
+</body>
+</html>
+`;
+
+// ---- EPUB ----
+
+const xhtmlPage = (title: string, body: string) => `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const EPUB_STYLES = `
+body { font-family: serif; line-height: 1.6; }
+h1, h2 { text-align: center; }
+.subtitle { text-align: center; font-style: italic; }
+.speaker { font-variant: small-caps; margin-bottom: 0.2em; }
+.turn { margin-bottom: 1em; }
+blockquote { margin-left: 1em; font-style: italic; }
+`.trim();
+
+export const toEpub = (doc: ExportDocument): Blob => {
+  const bookId = `urn:uuid:${crypto.randomUUID()}`;
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const chapterFiles = doc.chapters.map((chapter, index) => ({
+    id: `chapter-${index + 1}`,
+    href: `chapter-${index + 1}.xhtml`,
+    chapter,
+  }));
+
+  const titlePage = xhtmlPage(
+    doc.title,
+    [
+      `<h1>${escapeHtml(doc.title)}</h1>`,
+      doc.subtitle ? `<p class="subtitle">${escapeHtml(doc.subtitle)}</p>` : '',
+    ].join('\n'),
+  );
+
+  const nav = xhtmlPage(
+    'Contents',
+    [
+      '<nav epub:type="toc" id="toc">',
+      '<h1>Contents</h1>',
+      '<ol>',
+      ...chapterFiles.map(({ href, chapter }) => `<li><a href="${href}">${escapeHtml(chapter.title)}</a></li>`),
+      '</ol>',
+      '</nav>',
+    ].join('\n'),
+  );
+
+  const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${bookId}</dc:identifier>
+<dc:title>${escapeHtml(doc.title)}</dc:title>
+<dc:language>en</dc:language>
+<dc:creator>Stories in the Sky</dc:creator>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+<item id="style" href="style.css" media-type="text/css" />
+<item id="title" href="title.xhtml" media-type="application/xhtml+xml" />
+${chapterFiles.map(({ id, href }) => `<item id="${id}" href="${href}" media-type="application/xhtml+xml" />`).join('\n')}
+</manifest>
+<spine>
+<itemref idref="title" />
+${chapterFiles.map(({ id }) => `<itemref idref="${id}" />`).join('\n')}
+</spine>
+</package>
+`;
+
+  const container = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+</rootfiles>
+</container>
+`;
+
+  return createZip([
+    { name: 'mimetype', data: 'application/epub+zip' }, // Must come first, uncompressed
+    { name: 'META-INF/container.xml', data: container },
+    { name: 'OEBPS/content.opf', data: opf },
+    { name: 'OEBPS/nav.xhtml', data: nav },
+    { name: 'OEBPS/style.css', data: EPUB_STYLES },
+    { name: 'OEBPS/title.xhtml', data: titlePage },
+    ...chapterFiles.map(({ href, chapter }) => ({
+      name: `OEBPS/${href}`,
+      data: xhtmlPage(chapter.title, chapterToHtml(chapter)),
+    })),
+  ]);
+};
+
+// ---- JSON sessions ----
+
+const SESSION_FORMAT = 'stories-in-the-sky/session';
+const SESSION_FORMAT_VERSION = 1;
+
+interface SessionExport {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: StorySession;
+}
+
+export const serializeSession = (session: StorySession): string => {
+  const payload: SessionExport = {
+    format: SESSION_FORMAT,
+    version: SESSION_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session,
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+// An import is only ever rebuilt from the fields checked here, so a crafted or
+// damaged file cannot smuggle anything else into the library.
+const isText = (value: unknown): value is string => typeof value === 'string';
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const listOf = <T,>(value: unknown, read: (item: unknown) => T | undefined): T[] =>
+  (Array.isArray(value) ? value : []).map(read).filter((item): item is T => item !== undefined);
+
+const toUsage = (value: unknown): UsageRecord | undefined => {
+  if (!isRecord(value) || !isText(value.model) || !isCount(value.promptTokens) || !isCount(value.outputTokens)) return undefined;
+  return {
+    model: value.model,
+    promptTokens: value.promptTokens,
+    outputTokens: value.outputTokens,
+    ...(value.estimated === true && { estimated: true }),
+  };
+};
+
+const toAttachment = (value: unknown): Attachment | undefined => {
+  if (!isRecord(value) || !isText(value.id) || !isText(value.name) || !isText(value.data)) return undefined;
+  if (!isText(value.mimeType) || !/^(image|text)\//.test(value.mimeType)) return undefined;
+  return {
+    id: value.id,
+    name: value.name,
+    mimeType: value.mimeType,
+    data: value.data,
+    size: isCount(value.size) ? value.size : value.data.length,
+  };
+};
+
+const toIllustration = (value: unknown): Illustration | undefined => {
+  if (!isRecord(value) || !isText(value.id) || !isText(value.prompt) || !isText(value.data)) return undefined;
+  if (!isText(value.mimeType) || !value.mimeType.startsWith('image/')) return undefined;
+  return {
+    id: value.id,
+    prompt: value.prompt,
+    mimeType: value.mimeType,
+    data: value.data,
+    createdAt: isCount(value.createdAt) ? value.createdAt : 0,
+  };
+};
+
+const toToolCall = (value: unknown): ToolCallRecord | undefined => {
+  if (!isRecord(value) || !isText(value.id) || !isText(value.name) || !isText(value.icon) || !isText(value.summary)) {
+    return undefined;
+  }
+  return {
+    id: value.id,
+    name: value.name,
+    icon: value.icon,
+    summary: value.summary,
+    args: isRecord(value.args) ? value.args : {},
+    result: isRecord(value.result) ? value.result : {},
+    ...(value.failed === true && { failed: true }),
+  };
+};
+
+const toPersona = (value: unknown): PersonaTag | undefined =>
+  isRecord(value) && isText(value.id) && isText(value.name) && isText(value.avatar)
+    ? { id: value.id, name: value.name, avatar: value.avatar }
+    : undefined;
+
+const toAdventureTurn = (value: unknown): AdventureTurn | undefined => {
+  if (!isRecord(value) || !Array.isArray(value.choices)) return undefined;
+  const choices: unknown[] = value.choices;
+  return { choices: choices.filter(isText), state: toAdventureState(value.state) };
+};
+
+const MESSAGE_STATUSES: MessageStatus[] = ['streaming', 'complete', 'error'];
+
+// Each parentId must name a message earlier in the list, which also rules out
+// cycles that would leave getPath walking forever.
+const toMessages = (value: unknown, now: number): Message[] => {
+  if (!Array.isArray(value) || value.length === 0) throw new Error('The exported story has no readable messages.');
+  const items: unknown[] = value;
+  const seen = new Set<string>();
+  return items.map((item) => {
+    if (!isRecord(item) || !isText(item.text) || (item.sender !== 'user' && item.sender !== 'model')) {
+      throw new Error('The exported story has a message that cannot be read.');
+    }
+    if (!isText(item.id) || !item.id || seen.has(item.id)) {
+      throw new Error('The exported story has a message without its own id.');
+    }
+    if (item.parentId != null && !(isText(item.parentId) && seen.has(item.parentId))) {
+      throw new Error('The exported story has a message whose earlier turn is missing.');
+    }
+    const parentId = isText(item.parentId) ? item.parentId : null;
+    seen.add(item.id);
+    const attachments = listOf(item.attachments, toAttachment);
+    const illustrations = listOf(item.illustrations, toIllustration);
+    const toolCalls = listOf(item.toolCalls, toToolCall);
+    const usage = toUsage(item.usage);
+    const persona = toPersona(item.persona);
+    const adventure = toAdventureTurn(item.adventure);
+    const status = MESSAGE_STATUSES.find((known) => known === item.status);
+    const errorKind = STORY_ERROR_KINDS.find((known) => known === item.errorKind);
+    return {
+      id: item.id,
+      parentId,
+      text: item.text,
+      sender: item.sender,
+      ...(attachments.length && { attachments }),
+      ...(status && { status }),
+      ...(status === 'error' && errorKind && { errorKind }),
+      ...(item.truncated === true && { truncated: true }),
+      ...(usage && { usage }),
+      ...(illustrations.length && { illustrations }),
+      ...(adventure && { adventure }),
+      ...(persona && { persona }),
+      ...(toolCalls.length && { toolCalls }),
+      createdAt: isCount(item.createdAt) ? item.createdAt : now,
+    };
+  });
+};
+
+const toSummary = (value: unknown, messages: Message[]): StorySummary | undefined => {
+  if (!isRecord(value) || !isText(value.text) || !isText(value.throughId)) return undefined;
+  const { throughId } = value;
+  if (!messages.some((msg) => msg.id === throughId)) return undefined;
+  return { text: value.text, throughId, updatedAt: isCount(value.updatedAt) ? value.updatedAt : 0 };
+};
+
+const toAppearance = (value: unknown): CharacterAppearance | undefined =>
+  isRecord(value) && isText(value.name) && isText(value.appearance) ? { name: value.name, appearance: value.appearance } : undefined;
+
+// Validates an exported session and returns it as a new story, ready to save and continue.
+export const parseSessionExport = (json: string): StorySession => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isRecord(payload) || payload.format !== SESSION_FORMAT || !isRecord(payload.session)) {
+    throw new Error('This file is not a Stories in the Sky export.');
+  }
+  if (typeof payload.version === 'number' && payload.version > SESSION_FORMAT_VERSION) {
+    throw new Error('This export was made by a newer version of the app.');
+  }
+  const session = payload.session;
+  const now = Date.now();
+  const messages = toMessages(session.messages, now);
+  const summary = toSummary(session.summary, messages);
+  const overheadUsage = listOf(session.overheadUsage, toUsage);
+  const characterSheet = listOf(session.characterSheet, toAppearance);
+
+  const imported = normalizeSession({
+    id: crypto.randomUUID(),
+    title: isText(session.title) && session.title.trim() ? session.title : 'Imported story',
+    model: isText(session.model) ? session.model : '',
+    ...((session.providerId === 'gemini' || session.providerId === 'mock') && { providerId: session.providerId }),
+    systemInstruction: isText(session.systemInstruction) ? session.systemInstruction : '',
+    ...(isText(session.personaId) && { personaId: session.personaId }),
+    messages,
+    activeLeafId: isText(session.activeLeafId) ? session.activeLeafId : null,
+    ...(characterSheet.length && { characterSheet }),
+    ...(session.adventure === true && { adventure: true }),
+    ...(summary && { summary }),
+    ...(overheadUsage.length && { overheadUsage }),
+    createdAt: isCount(session.createdAt) ? session.createdAt : now,
+    updatedAt: now,
+  });
+  const ids = new Set(imported.messages.map((msg) => msg.id));
+  if (!imported.activeLeafId || !ids.has(imported.activeLeafId)) {
+    imported.activeLeafId = imported.messages[imported.messages.length - 1]?.id ?? null;
+  }
+  return imported;
+};
+
+// ---- Downloads ----
+
+export const slugify = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'story';
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadDocument = (doc: ExportDocument, format: Exclude<ExportFormat, 'json'>) => {
+  const name = slugify(doc.title);
+  switch (format) {
+    case 'markdown':
+      downloadBlob(new Blob([toMarkdown(doc)], { type: 'text/markdown;charset=utf-8' }), `${name}.md`);
+      break;
+    case 'html':
+      downloadBlob(new Blob([toHtml(doc)], { type: 'text/html;charset=utf-8' }), `${name}.html`);
+      break;
+    case 'epub':
+      downloadBlob(toEpub(doc), `${name}.epub`);
+      break;
+  }
+};
+
+export const downloadSession = (session: StorySession) => {
+  downloadBlob(
+    new Blob([serializeSession(session)], { type: 'application/json' }),
+    `${slugify(session.title)}.story.json`,
+  );
+};
+
+interface PassageSessionOptions {
+  title: string;
+  prompt: string;
+  text: string;
+  model: string;
+  providerId: StorySession['providerId'];
+  systemInstruction: string;
+  attachments?: Attachment[]; // Files the passage was written from, kept on the prompt
+  illustrations?: Illustration[]; // Pictures of the passage, kept on the reply
+  characterSheet?: CharacterAppearance[];
+}
+
+// Wraps a one-off passage as a two-turn story, so it can be exported as JSON
+// and later imported into the chat to be continued.
+export const createPassageSession = ({
+  title,
+  prompt,
+  text,
+  model,
+  providerId,
+  systemInstruction,
+  attachments,
+  illustrations,
+  characterSheet,
+}: PassageSessionOptions): StorySession => {
+  const now = Date.now();
+  const userId = crypto.randomUUID();
+  const replyId = crypto.randomUUID();
+  return {
+    id: crypto.randomUUID(),
+    title,
+    model,
+    providerId,
+    systemInstruction,
+    messages: [
+      { id: userId, parentId: null, text: prompt, sender: 'user', attachments, createdAt: now },
+      { id: replyId, parentId: userId, text, sender: 'model', illustrations, createdAt: now },
+    ],
+    activeLeafId: replyId,
+    characterSheet,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+interface BookSessionOptions {
+  book: Book;
+  model: string;
+  providerId: StorySession['providerId'];
+  systemInstruction: string;
+}
+
+// Wraps a book as a story with one request and reply per written chapter, so the
+// chat can pick it up after the last one.
+export const createBookSession = ({ book, model, providerId, systemInstruction }: BookSessionOptions): StorySession => {
+  const now = Date.now();
+  const messages: Message[] = [];
+  let number = 0;
+  for (const chapter of book.acts.flatMap((act) => act.chapters)) {
+    number++;
+    if (!chapter.text) continue;
+    const userId = crypto.randomUUID();
+    messages.push(
+      { id: userId, parentId: messages[messages.length - 1]?.id ?? null, text: `Write chapter ${number}: ${chapter.title}`, sender: 'user', createdAt: now },
+      { id: crypto.randomUUID(), parentId: userId, text: chapter.text, sender: 'model', usage: chapter.usage, createdAt: now },
+    );
+  }
+  return {
+    id: crypto.randomUUID(),
+    title: book.title,
+    model,
+    providerId,
+    systemInstruction,
+    messages,
+    activeLeafId: messages[messages.length - 1]?.id ?? null,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
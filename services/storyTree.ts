@@ -0,0 +1,113 @@
+import { Illustration, Message, StorySession } from '../types';
+
+// A story is stored as a tree of messages linked by parentId. Each edit or
+// regeneration adds a sibling node, and the branch on screen is the path from
+// the root down to the active leaf.
+
+export const getChildren = (nodes: Message[], parentId: string | null): Message[] =>
+  nodes.filter((node) => node.parentId === parentId);
+
+export const getSiblings = (nodes: Message[], node: Message): Message[] =>
+  getChildren(nodes, node.parentId);
+
+// Returns the messages from the root down to (and including) `leafId`.
+export const getPath = (nodes: Message[], leafId: string | null): Message[] => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const path: Message[] = [];
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+// Follows the most recent child at every level to find the tip of a branch.
+export const getLatestLeaf = (nodes: Message[], nodeId: string): string => {
+  let leafId = nodeId;
+  let children = getChildren(nodes, leafId);
+  while (children.length > 0) {
+    leafId = children[children.length - 1].id;
+    children = getChildren(nodes, leafId);
+  }
+  return leafId;
+};
+
+export const updateNode = (nodes: Message[], id: string, changes: Partial<Message>): Message[] =>
+  nodes.map((node) => (node.id === id ? { ...node, ...changes } : node));
+
+export const isFailed = (message?: Message) => message?.status === 'error';
+
+// Replies saved before message states existed flag failures with `isError`, and a
+// reply still marked as streaming was cut off when the app closed.
+const normalizeStatus = (message: Message & { isError?: boolean }): Message => {
+  const { isError, ...rest } = message;
+  if (isError) return { ...rest, status: 'error' };
+  if (message.status === 'streaming') return { ...rest, status: 'complete', truncated: true };
+  return isError === undefined ? message : rest;
+};
+
+// Stories saved before branching existed hold a flat log without ids; chain it into a single branch.
+export const normalizeSession = (session: StorySession): StorySession => {
+  const normalized = { ...session, messages: session.messages.map(normalizeStatus) };
+  if (normalized.messages.every((msg) => msg.id)) return normalized;
+  let parentId: string | null = null;
+  const messages = normalized.messages.map((msg) => {
+    const node: Message = { ...msg, id: crypto.randomUUID(), parentId, createdAt: session.createdAt };
+    parentId = node.id;
+    return node;
+  });
+  return { ...normalized, messages, activeLeafId: parentId };
+};
+
+// ---- The tree on screen ----
+
+export interface MessageTreeState {
+  nodes: Message[]; // Every message of every branch
+  activeLeafId: string | null;
+}
+
+export type MessageTreeAction =
+  | { type: 'load'; nodes: Message[]; activeLeafId: string | null }
+  | { type: 'add'; message: Message } // A reader turn, shown once its reply starts
+  | { type: 'remove'; id: string }
+  | { type: 'select'; leafId: string | null }
+  | { type: 'start-reply'; reply: Message } // Added as streaming and shown at once
+  | { type: 'stream'; id: string; text: string } // The reply so far, not just the new chunk
+  | { type: 'complete'; id: string; changes?: Partial<Message> }
+  | { type: 'fail'; id: string; text: string; errorKind: Message['errorKind'] }
+  | { type: 'update'; id: string; changes: Partial<Message> }
+  | { type: 'add-illustration'; id: string; illustration: Illustration };
+
+export const initialMessageTree: MessageTreeState = { nodes: [], activeLeafId: null };
+
+export const messageTreeReducer = (state: MessageTreeState, action: MessageTreeAction): MessageTreeState => {
+  const update = (id: string, changes: Partial<Message>) => ({ ...state, nodes: updateNode(state.nodes, id, changes) });
+  switch (action.type) {
+    case 'load':
+      return { nodes: action.nodes, activeLeafId: action.activeLeafId };
+    case 'add':
+      return { ...state, nodes: [...state.nodes, action.message] };
+    case 'remove':
+      return { ...state, nodes: state.nodes.filter((node) => node.id !== action.id) };
+    case 'select':
+      return { ...state, activeLeafId: action.leafId };
+    case 'start-reply':
+      return { nodes: [...state.nodes, { ...action.reply, status: 'streaming' }], activeLeafId: action.reply.id };
+    case 'stream':
+      // A late frame must not reopen a reply that has already finished.
+      return state.nodes.some((node) => node.id === action.id && node.status === 'streaming')
+        ? update(action.id, { text: action.text })
+        : state;
+    case 'complete':
+      return update(action.id, { ...action.changes, status: 'complete' });
+    case 'fail':
+      return update(action.id, { text: action.text, status: 'error', errorKind: action.errorKind });
+    case 'update':
+      return update(action.id, action.changes);
+    case 'add-illustration': {
+      const current = state.nodes.find((node) => node.id === action.id);
+      return update(action.id, { illustrations: [...(current?.illustrations ?? []), action.illustration] });
+    }
+  }
+};
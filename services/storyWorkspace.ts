@@ -0,0 +1,88 @@
+import { GenerationTab, PinnedPassage, StorySession } from '../types';
+import { recordsIn } from './guards';
+
+// Work handed from one tab to another. The receiving tab takes it, which clears it.
+export type WorkspaceHandoff =
+  | { id: string; target: 'chat'; session: StorySession } // Opens as a new chat story
+  | { id: string; target: 'mood-weaver'; title: string; text: string }; // Rewritten in a mood
+
+export interface StoryWorkspaceState {
+  pins: PinnedPassage[]; // Newest first
+  handoff: WorkspaceHandoff | null;
+}
+
+export type StoryWorkspaceAction =
+  | { type: 'pin'; pin: PinnedPassage }
+  | { type: 'unpin'; id: string }
+  | { type: 'send-to-chat'; session: StorySession }
+  | { type: 'send-to-mood-weaver'; title: string; text: string }
+  | { type: 'take-handoff'; id: string };
+
+const PINS_KEY = 'stories-in-the-sky:scratchpad';
+
+const GENERATION_TABS: GenerationTab[] = ['chat', 'mood-weaver', 'book-builder'];
+
+// A stored pin, or undefined when it lacks what the scratchpad shows.
+const toPin = (value: Record<string, unknown>): PinnedPassage | undefined => {
+  const { id, title, text, prompt, source, createdAt } = value;
+  if (typeof id !== 'string' || typeof title !== 'string' || typeof text !== 'string') return undefined;
+  return {
+    id,
+    title,
+    text,
+    ...(typeof prompt === 'string' && { prompt }),
+    source: GENERATION_TABS.find((tab) => tab === source) ?? 'chat',
+    createdAt: typeof createdAt === 'number' ? createdAt : 0,
+  };
+};
+
+// Pins that cannot be read are dropped, so one bad entry cannot break the scratchpad.
+const loadPins = (): PinnedPassage[] => {
+  try {
+    const stored = localStorage.getItem(PINS_KEY);
+    return recordsIn(stored ? JSON.parse(stored) : []).flatMap((item) => toPin(item) ?? []);
+  } catch {
+    return [];
+  }
+};
+
+export const savePins = (pins: PinnedPassage[]) => {
+  localStorage.setItem(PINS_KEY, JSON.stringify(pins));
+};
+
+export const initStoryWorkspace = (): StoryWorkspaceState => ({ pins: loadPins(), handoff: null });
+
+export const storyWorkspaceReducer = (state: StoryWorkspaceState, action: StoryWorkspaceAction): StoryWorkspaceState => {
+  switch (action.type) {
+    case 'pin':
+      // Pinning the same text twice keeps a single copy.
+      return { ...state, pins: [action.pin, ...state.pins.filter((pin) => pin.text !== action.pin.text)] };
+    case 'unpin':
+      return { ...state, pins: state.pins.filter((pin) => pin.id !== action.id) };
+    case 'send-to-chat':
+      return { ...state, handoff: { id: crypto.randomUUID(), target: 'chat', session: action.session } };
+    case 'send-to-mood-weaver':
+      return { ...state, handoff: { id: crypto.randomUUID(), target: 'mood-weaver', title: action.title, text: action.text } };
+    case 'take-handoff':
+      return state.handoff?.id === action.id ? { ...state, handoff: null } : state;
+  }
+};
+
+export const createPin = (source: GenerationTab, title: string, text: string, prompt?: string): PinnedPassage => ({
+  id: crypto.randomUUID(),
+  title,
+  text: text.trim(),
+  ...(prompt && { prompt }),
+  source,
+  createdAt: Date.now(),
+});
+
+// Mood Weaver's prompt when it rewrites a passage instead of writing from an idea.
+export const buildRewritePrompt = (passage: string, notes: string) =>
+  [
+    'Rewrite the passage below in the mood you have been given. Keep its events, characters and point of view; change the voice, imagery and pacing.',
+    notes.trim() && `Notes from the writer: ${notes.trim()}`,
+    `Passage:\n"""\n${passage.trim()}\n"""`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
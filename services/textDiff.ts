@@ -0,0 +1,68 @@
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Longer texts are compared paragraph by paragraph instead of word by word,
+// keeping the comparison table small.
+const MAX_CELLS = 4_000_000;
+
+// Words keep the whitespace that follows them, so joined parts rebuild the text.
+const tokenize = (text: string) => text.match(/\S+\s*|\s+/g) ?? [];
+
+const paragraphs = (text: string) => text.split(/(?<=\n\s*\n)/);
+
+// Longest-common-subsequence table, filled from the end so the walk can go forwards.
+const lcsTable = (a: string[], b: string[]) => {
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i].trim() === b[j].trim()
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+  return (i: number, j: number) => table[i * width + j];
+};
+
+const push = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) last.text += text;
+  else parts.push({ type, text });
+};
+
+const diffTokens = (a: string[], b: string[]): DiffPart[] => {
+  const lcs = lcsTable(a, b);
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push(parts, 'same', b[j]);
+      i++;
+      j++;
+    } else if (lcs(i + 1, j) >= lcs(i, j + 1)) {
+      push(parts, 'removed', a[i++]);
+    } else {
+      push(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) push(parts, 'removed', a[i++]);
+  while (j < b.length) push(parts, 'added', b[j++]);
+  return parts;
+};
+
+// What changed from `before` to `after`, word by word.
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if ((a.length + 1) * (b.length + 1) <= MAX_CELLS) return diffTokens(a, b);
+  return diffTokens(paragraphs(before), paragraphs(after));
+};
+
+export const countChangedWords = (parts: DiffPart[]) => {
+  const words = (type: DiffPart['type']) =>
+    parts.filter((part) => part.type === type).reduce((total, part) => total + part.text.split(/\s+/).filter(Boolean).length, 0);
+  return { added: words('added'), removed: words('removed') };
+};
@@ -0,0 +1,435 @@
+import { Content, FunctionDeclaration, Schema, Type } from '@google/genai';
+import { Message, ToolCallRecord } from '../types';
+import { ToolCall, ToolResult } from './providers';
+import { isRecord } from './guards';
+
+// What a tool can see and change while the storyteller writes a reply.
+export interface ToolContext {
+  random: () => number; // Seeded, in [0, 1)
+  facts: Record<string, string>; // The facts on this branch; see branchFacts
+}
+
+export type ToolResponse = Record<string, unknown>;
+
+// Everything needed to offer a tool to the model, run it and show it as a card.
+export interface StoryTool<Args> {
+  name: string; // As the model calls it
+  description: string; // Tells the model when to call it
+  icon: string;
+  parameters: Schema;
+  parse: (args: unknown) => Args; // Checks the model's arguments, throwing ToolError for ones it cannot use
+  run: (args: Args, context: ToolContext) => ToolResponse;
+  summarize: (args: Args, result: ToolResponse) => string; // One line for the card
+}
+
+// Thrown for arguments a tool cannot work with; the message goes back to the model.
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+// How many times one reply may go back to the model with tool results.
+export const MAX_TOOL_ROUNDS = 5;
+
+// Each tool only ever runs on what its own parse returned, so the registry can
+// forget the argument types.
+const tools = new Map<string, StoryTool<unknown>>();
+
+// Adds a tool, or replaces the one with the same name.
+export const registerStoryTool = <Args,>(tool: StoryTool<Args>) => {
+  tools.set(tool.name, tool as StoryTool<unknown>);
+};
+
+export const listStoryTools = () => [...tools.values()];
+
+export const toolDeclarations = (): FunctionDeclaration[] =>
+  listStoryTools().map(({ name, description, parameters }) => ({ name, description, parameters }));
+
+// FNV-1a, so the same seed text always gives the same numbers.
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and good enough for dice.
+export const seededRandom = (seed: string) => {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T,>(items: T[], random: () => number) => items[Math.floor(random() * items.length)];
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Readers for the parse steps. The model may leave out optional arguments or
+// send null for them; anything else of the wrong type is refused.
+const argsOf = (args: unknown) => {
+  if (args === undefined || args === null) return {};
+  if (!isRecord(args)) throw new ToolError('Arguments must be an object.');
+  return args;
+};
+
+const optionalText = (args: Record<string, unknown>, key: string) => {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new ToolError(`"${key}" must be text.`);
+  return value;
+};
+
+const requiredText = (args: Record<string, unknown>, key: string) => {
+  const value = optionalText(args, key);
+  if (value === undefined) throw new ToolError(`"${key}" is required.`);
+  return value;
+};
+
+const optionalNumber = (args: Record<string, unknown>, key: string) => {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new ToolError(`"${key}" must be a number.`);
+  return value;
+};
+
+// Runs the model's calls in order. A failing call is answered with its error, so
+// the model can correct itself, and the rest still run.
+export const runToolCalls = (calls: ToolCall[], context: ToolContext) => {
+  const results: ToolResult[] = [];
+  const records: ToolCallRecord[] = [];
+  for (const call of calls) {
+    const tool = tools.get(call.name);
+    let response: ToolResponse;
+    let summary: string;
+    let failed = false;
+    try {
+      if (!tool) throw new ToolError(`There is no tool called ${call.name}.`);
+      const args = tool.parse(call.args);
+      response = tool.run(args, context);
+      summary = tool.summarize(args, response);
+    } catch (error) {
+      if (!(error instanceof ToolError)) console.error(`Tool ${call.name} failed:`, error);
+      response = { error: describeError(error) };
+      summary = describeError(error);
+      failed = true;
+    }
+    results.push({ ...(call.id && { id: call.id }), name: call.name, response });
+    records.push({
+      id: crypto.randomUUID(),
+      name: call.name,
+      icon: tool?.icon ?? '🛠',
+      summary,
+      args: call.args,
+      result: response,
+      ...(failed && { failed: true }),
+    });
+  }
+  return { results, records };
+};
+
+// The model's turn that asked for `calls`, as it goes back into the history.
+export const toolCallTurn = (text: string, calls: ToolCall[]): Content => ({
+  role: 'model',
+  parts: [
+    ...(text ? [{ text }] : []),
+    ...calls.map(({ id, name, args, thoughtSignature }) => ({
+      functionCall: { ...(id && { id }), name, args },
+      ...(thoughtSignature && { thoughtSignature }),
+    })),
+  ],
+});
+
+// The answers to those calls, sent as the next turn.
+export const toolResultTurn = (results: ToolResult[]): Content => ({
+  role: 'user',
+  parts: results.map(({ id, name, response }) => ({ functionResponse: { ...(id && { id }), name, response } })),
+});
+
+// ---- Dice ----
+
+interface DiceArgs {
+  notation: string;
+  reason?: string;
+}
+
+const MAX_DICE = 100;
+
+registerStoryTool<DiceArgs>({
+  name: 'roll_dice',
+  description:
+    'Rolls dice in standard notation such as "1d20", "2d6+3" or "4d8-1". Call it whenever chance decides an outcome, and narrate the result honestly.',
+  icon: '🎲',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      notation: { type: Type.STRING, description: 'Dice notation, e.g. "2d6+1".' },
+      reason: { type: Type.STRING, description: 'What the roll decides, e.g. "sneaking past the guard".' },
+    },
+    required: ['notation'],
+  },
+  parse: (raw) => {
+    const args = argsOf(raw);
+    return { notation: requiredText(args, 'notation'), reason: optionalText(args, 'reason') };
+  },
+  run: ({ notation }, { random }) => {
+    const match = notation.replace(/\s+/g, '').match(/^(\d*)d(\d+)([+-]\d+)?$/i);
+    if (!match) throw new ToolError(`"${notation}" is not dice notation; use something like "2d6+1".`);
+    const count = Number(match[1] || 1);
+    const sides = Number(match[2]);
+    const modifier = Number(match[3] ?? 0);
+    if (count < 1 || count > MAX_DICE || sides < 2) throw new ToolError(`Roll between 1 and ${MAX_DICE} dice of at least 2 sides.`);
+    const rolls = Array.from({ length: count }, () => 1 + Math.floor(random() * sides));
+    return { notation, rolls, modifier, total: rolls.reduce((sum, roll) => sum + roll, 0) + modifier };
+  },
+  summarize: ({ notation, reason }, { rolls, total }) =>
+    `${reason ? `${reason}: ` : ''}${notation} → ${total} (${(rolls as number[]).join(', ')})`,
+});
+
+// ---- Names ----
+
+interface NameStyle {
+  starts: string[];
+  ends: string[];
+  surnames?: string[];
+}
+
+const NAME_STYLES: Record<string, NameStyle> = {
+  norse: {
+    starts: ['Bjor', 'Sig', 'Ulf', 'Thor', 'Ast', 'Ing', 'Hal', 'Eir', 'Rag', 'Frey'],
+    ends: ['n', 'rid', 'a', 'vald', 'hild', 'gar', 'dis', 'mund', 'ulf', 'ny'],
+  },
+  celtic: {
+    starts: ['Bran', 'Ail', 'Cai', 'Mor', 'Fio', 'Ros', 'Dei', 'Eil', 'Tad', 'Gwen'],
+    ends: ['wen', 'lin', 'ra', 'dh', 'an', 'nna', 'ric', 'mhor', 'ith', 'og'],
+  },
+  latin: {
+    starts: ['Aur', 'Cass', 'Luc', 'Marc', 'Sev', 'Oct', 'Jul', 'Val', 'Flav', 'Tib'],
+    ends: ['ius', 'ia', 'ian', 'us', 'illa', 'ina', 'or', 'ena', 'ilia', 'o'],
+  },
+  elvish: {
+    starts: ['Ae', 'Cel', 'Ela', 'Fae', 'Gal', 'Ith', 'Lir', 'Sil', 'Thal', 'Yav'],
+    ends: ['riel', 'orn', 'wen', 'ion', 'dil', 'neth', 'las', 'ithil', 'ara', 'andir'],
+  },
+  dwarvish: {
+    starts: ['Bal', 'Dur', 'Gim', 'Kor', 'Thr', 'Bor', 'Dvar', 'Grun', 'Hal', 'Nor'],
+    ends: ['in', 'ek', 'ur', 'grim', 'dain', 'rak', 'bek', 'ok', 'li', 'dun'],
+    surnames: ['Ironfoot', 'Stonehelm', 'Deepdelver', 'Coalbeard', 'Anvilborn'],
+  },
+  'sci-fi': {
+    starts: ['Zar', 'Kae', 'Vex', 'Ny', 'Ori', 'Jax', 'Tal', 'Rho', 'Xen', 'Sol'],
+    ends: ['on', 'ix', 'a', 'ek', 'yra', 'us', 'en', 'is', 'o', 'ara'],
+    surnames: ['Voss', 'Kade', 'Halloran', 'Quill', 'Okafor', 'Ishida', 'Marr'],
+  },
+  noir: {
+    starts: ['Jack', 'Vera', 'Sam', 'Lola', 'Frank', 'Rita', 'Eddie', 'Mae', 'Nick', 'Dolores'],
+    ends: [''],
+    surnames: ['Malone', 'Shade', 'Carver', 'Doyle', 'Kowalski', 'Benedetti', 'Crane'],
+  },
+};
+
+interface NameArgs {
+  style: string;
+  count?: number;
+}
+
+registerStoryTool<NameArgs>({
+  name: 'generate_names',
+  description: 'Suggests fresh names for new characters in a culture or genre. Call it instead of reusing common names.',
+  icon: '🏷️',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      style: { type: Type.STRING, enum: Object.keys(NAME_STYLES), description: 'The culture or genre the names belong to.' },
+      count: { type: Type.INTEGER, description: 'How many names, 1 to 10. Defaults to 3.' },
+    },
+    required: ['style'],
+  },
+  parse: (raw) => {
+    const args = argsOf(raw);
+    return { style: requiredText(args, 'style'), count: optionalNumber(args, 'count') };
+  },
+  run: ({ style, count = 3 }, { random }) => {
+    const table = NAME_STYLES[style];
+    if (!table) throw new ToolError(`Names come in these styles: ${Object.keys(NAME_STYLES).join(', ')}.`);
+    const names = Array.from({ length: Math.min(10, Math.max(1, Math.round(count))) }, () => {
+      const given = pick(table.starts, random) + pick(table.ends, random);
+      return table.surnames ? `${given} ${pick(table.surnames, random)}` : given;
+    });
+    return { style, names };
+  },
+  summarize: ({ style }, { names }) => `${style}: ${(names as string[]).join(', ')}`,
+});
+
+// ---- Encounters ----
+
+// Ordered from harmless to deadly, so the danger level shifts the roll along the table.
+const ENCOUNTERS: Record<string, string[]> = {
+  forest: [
+    'A lost child following a trail of painted stones',
+    'A travelling tinker with a cart of clockwork birds',
+    'A white stag that watches and does not flee',
+    'Woodcutters arguing over a tree that hums',
+    'A pack of grey wolves trailing at a distance',
+    'A hermit who knows more than they should',
+    'Bandits waiting in the branches above the path',
+    'Something vast moving just beyond the firelight',
+  ],
+  mountains: [
+    'A goatherd with news from the far valley',
+    'A shrine with fresh offerings and no keeper',
+    'An avalanche-scarred pass with a hidden cave',
+    'Pilgrims roped together against the wind',
+    'A rockslide loosened by something above',
+    'A wounded griffin guarding its nest',
+    'Raiders who have claimed the only bridge',
+    'A giant asleep across the path, or pretending to be',
+  ],
+  coast: [
+    'A message in a bottle, addressed to one of the party',
+    'Fishers hauling in a net of silver glass',
+    'A shipwreck bared by the low tide',
+    'Smugglers unloading crates by lantern light',
+    'A sea fog that whispers names',
+    'Crabs the size of shields guarding a cove',
+    'A press gang looking for new hands',
+    'Something in the deep water pacing the boat',
+  ],
+  city: [
+    'A street performer who asks for a secret instead of a coin',
+    'A lamplighter who never seems to age',
+    'A festival procession blocking every street',
+    'A pickpocket with an apologetic note',
+    'The city watch looking for someone who matches the party',
+    'A guild feud spilling into the market',
+    'An alley where the shadows move on their own',
+    'Assassins who have mistaken the party for their mark',
+  ],
+  dungeon: [
+    'A friendly rat that leads somewhere interesting',
+    'An abandoned camp with a half-finished map',
+    'A door that answers riddles',
+    'Another adventuring party, worse for wear',
+    'A pressure plate, already triggered once',
+    'Skeletons still standing guard at their posts',
+    'A mimic pretending to be the treasure',
+    'The thing the dungeon was built to hold',
+  ],
+  desert: [
+    'A caravan happy to trade water for stories',
+    'Ruins whose shadow points the wrong way',
+    'An oasis that appears on no map',
+    'A sandstorm on the horizon, coming fast',
+    'Nomad scouts who demand a toll',
+    'Scorpions swarming from a cracked tomb',
+    'A mirage that fights back',
+    'A sand wyrm surfacing beneath the dunes',
+  ],
+};
+
+const DANGER_SHIFT: Record<string, number> = { low: -2, medium: 0, high: 2 };
+
+interface EncounterArgs {
+  terrain: string;
+  danger?: string;
+}
+
+registerStoryTool<EncounterArgs>({
+  name: 'roll_encounter',
+  description: 'Rolls on a random encounter table when the characters travel or explore, so surprises are not always convenient.',
+  icon: '🗺️',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      terrain: { type: Type.STRING, enum: Object.keys(ENCOUNTERS), description: 'Where the characters are.' },
+      danger: { type: Type.STRING, enum: Object.keys(DANGER_SHIFT), description: 'How dangerous the area is. Defaults to medium.' },
+    },
+    required: ['terrain'],
+  },
+  parse: (raw) => {
+    const args = argsOf(raw);
+    return { terrain: requiredText(args, 'terrain'), danger: optionalText(args, 'danger') };
+  },
+  run: ({ terrain, danger = 'medium' }, { random }) => {
+    const table = ENCOUNTERS[terrain];
+    if (!table) throw new ToolError(`Encounters are tabled for: ${Object.keys(ENCOUNTERS).join(', ')}.`);
+    const roll = 1 + Math.floor(random() * table.length);
+    const index = Math.min(table.length, Math.max(1, roll + (DANGER_SHIFT[danger] ?? 0))) - 1;
+    return { terrain, danger, roll, encounter: table[index] };
+  },
+  summarize: ({ terrain }, { roll, encounter }) => `${terrain} (d8 ${roll}): ${encounter}`,
+});
+
+// ---- Story facts ----
+
+const factKey = (key: string) => key.trim().toLowerCase();
+
+// Facts belong to a branch: they are replayed from the writes recorded on the
+// replies along it, so a fact written on an abandoned branch stays there.
+export const branchFacts = (branch: Message[]) => {
+  const facts: Record<string, string> = {};
+  for (const call of branch.flatMap((msg) => msg.toolCalls ?? [])) {
+    if (call.name !== 'write_story_fact' || call.failed) continue;
+    const { key, value } = call.result as { key: string; value: string | null };
+    if (value === null) delete facts[key];
+    else facts[key] = value;
+  }
+  return facts;
+};
+
+registerStoryTool<{ key?: string }>({
+  name: 'read_story_facts',
+  description: 'Looks up facts saved earlier in this story, such as who holds an item or what a place is called. Leave out the key to read them all.',
+  icon: '📒',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      key: { type: Type.STRING, description: 'The fact to read, e.g. "sword.owner".' },
+    },
+  },
+  parse: (raw) => ({ key: optionalText(argsOf(raw), 'key') }),
+  run: ({ key }, { facts }) => {
+    // A copy, so a later write cannot change what this call answered.
+    if (!key) return { facts: { ...facts } };
+    const wanted = factKey(key);
+    return { key: wanted, value: facts[wanted] ?? null };
+  },
+  summarize: ({ key }, result) =>
+    key ? `${result.key} = ${result.value ?? 'not set'}` : `all facts (${Object.keys(result.facts as object).length})`,
+});
+
+registerStoryTool<{ key: string; value: string }>({
+  name: 'write_story_fact',
+  description: 'Saves a fact to remember for the rest of this story, such as a name, a debt or a secret. An empty value forgets it.',
+  icon: '📒',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      key: { type: Type.STRING, description: 'A short, stable name for the fact, e.g. "innkeeper.name".' },
+      value: { type: Type.STRING },
+    },
+    required: ['key', 'value'],
+  },
+  parse: (raw) => {
+    const args = argsOf(raw);
+    return { key: requiredText(args, 'key'), value: optionalText(args, 'value') ?? '' };
+  },
+  run: ({ key, value }, { facts }) => {
+    const name = factKey(key);
+    if (!name) throw new ToolError('A fact needs a key.');
+    const previous = facts[name] ?? null;
+    const text = value.trim();
+    if (text) facts[name] = text;
+    else delete facts[name];
+    return { key: name, value: text || null, previous };
+  },
+  summarize: (_, { key, value }) => (value === null ? `forgot ${key}` : `${key} = ${value}`),
+});
@@ -0,0 +1,173 @@
+import { DailyUsage, ModelPrice, UsageRecord, UsageSettings } from '../types';
+import { isRecord } from './guards';
+import { TokenUsage } from './providers';
+
+// Published list prices at the time of writing; editable from the usage panel.
+// Images and speech are billed as output tokens too, so one table covers them.
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+  'mock-storyteller': { input: 0, output: 0 },
+  'mock-echo': { input: 0, output: 0 },
+  'mock-painter': { input: 0, output: 0 },
+  'mock-narrator': { input: 0, output: 0 },
+};
+
+// What Gemini bills for media it returns, for when a call never reported its usage.
+const IMAGE_OUTPUT_TOKENS = 1290;
+const AUDIO_TOKENS_PER_SECOND = 25;
+
+const DEFAULT_USAGE_SETTINGS: UsageSettings = { prices: DEFAULT_PRICES };
+
+// Generation is flagged once this share of a budget has been spent.
+const WARN_AT = 0.8;
+
+const SETTINGS_STORAGE_KEY = 'stories-in-the-sky:usage-settings';
+const DAILY_STORAGE_KEY = 'stories-in-the-sky:usage-daily';
+
+export type BudgetStatus = 'ok' | 'warn' | 'blocked';
+
+// Roughly four characters per token, for requests the model never reported on.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Uses what the model reported, or a local estimate when the stream ended before usage arrived.
+export const toUsageRecord = (model: string, reported: TokenUsage | undefined, promptText: string, outputText: string): UsageRecord =>
+  reported
+    ? { model, ...reported }
+    : { model, promptTokens: estimateTokens(promptText), outputTokens: estimateTokens(outputText), estimated: true };
+
+export const imageUsageRecord = (model: string, reported: TokenUsage | undefined, prompt: string): UsageRecord =>
+  reported
+    ? { model, ...reported }
+    : { model, promptTokens: estimateTokens(prompt), outputTokens: IMAGE_OUTPUT_TOKENS, estimated: true };
+
+export const speechUsageRecord = (model: string, reported: TokenUsage | undefined, text: string, seconds: number): UsageRecord =>
+  reported
+    ? { model, ...reported }
+    : { model, promptTokens: estimateTokens(text), outputTokens: Math.ceil(seconds * AUDIO_TOKENS_PER_SECOND), estimated: true };
+
+export const emptyUsage = (): TokenUsage => ({ promptTokens: 0, outputTokens: 0 });
+
+export const sumUsage = (records: TokenUsage[]): TokenUsage =>
+  records.reduce(
+    (total, record) => ({
+      promptTokens: total.promptTokens + record.promptTokens,
+      outputTokens: total.outputTokens + record.outputTokens,
+    }),
+    emptyUsage(),
+  );
+
+// Two calls to the same model as one record, e.g. a chapter and its summary.
+export const mergeUsage = (a: UsageRecord, b: UsageRecord): UsageRecord => ({
+  ...a,
+  ...sumUsage([a, b]),
+  ...((a.estimated || b.estimated) && { estimated: true }),
+});
+
+// Models missing from the price table are counted as free.
+export const estimateCost = (record: UsageRecord, prices: Record<string, ModelPrice>) => {
+  const price = prices[record.model];
+  if (!price) return 0;
+  return (record.promptTokens * price.input + record.outputTokens * price.output) / 1_000_000;
+};
+
+export const totalCost = (records: UsageRecord[], prices: Record<string, ModelPrice>) =>
+  records.reduce((sum, record) => sum + estimateCost(record, prices), 0);
+
+export const formatTokens = (count: number) =>
+  count >= 10_000 ? `${Math.round(count / 1000)}k` : count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+
+export const formatCost = (cost: number) => (cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`);
+
+// e.g. "1.2k in · 350 out · $0.01".
+export const describeUsage = (record: UsageRecord, prices: Record<string, ModelPrice>) =>
+  `${formatTokens(record.promptTokens)} in · ${formatTokens(record.outputTokens)} out · ${formatCost(estimateCost(record, prices))}` +
+  (record.estimated ? ' (estimated)' : '');
+
+export const budgetStatus = (spent: number, budget?: number): BudgetStatus => {
+  if (!budget || budget <= 0) return 'ok';
+  if (spent >= budget) return 'blocked';
+  return spent >= budget * WARN_AT ? 'warn' : 'ok';
+};
+
+// The more severe of two statuses.
+export const worstStatus = (a: BudgetStatus, b: BudgetStatus): BudgetStatus => {
+  const order: BudgetStatus[] = ['ok', 'warn', 'blocked'];
+  return order[Math.max(order.indexOf(a), order.indexOf(b))];
+};
+
+// Stored values are checked one by one, so a damaged field falls back to its
+// default without losing the rest.
+const isAmount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Models priced since the settings were saved are added, so they are never counted as free.
+const toPrices = (value: unknown) => {
+  const prices = { ...DEFAULT_PRICES };
+  for (const [model, price] of Object.entries(isRecord(value) ? value : {})) {
+    if (isRecord(price) && isAmount(price.input) && isAmount(price.output)) prices[model] = { input: price.input, output: price.output };
+  }
+  return prices;
+};
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      const parsed: unknown = JSON.parse(stored);
+      const settings = isRecord(parsed) ? parsed : {};
+      return {
+        prices: toPrices(settings.prices),
+        ...(isAmount(settings.sessionBudget) && { sessionBudget: settings.sessionBudget }),
+        ...(isAmount(settings.dailyBudget) && { dailyBudget: settings.dailyBudget }),
+      };
+    }
+  } catch (err) {
+    console.error('Failed to load usage settings:', err);
+  }
+  return DEFAULT_USAGE_SETTINGS;
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const today = () => {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+const emptyDay = (): DailyUsage => ({ date: today(), ...emptyUsage(), cost: 0 });
+
+// Only today's totals are kept; a stored total from an earlier day starts over.
+export const loadDailyUsage = (): DailyUsage => {
+  try {
+    const stored = localStorage.getItem(DAILY_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (isRecord(parsed) && parsed.date === today()) {
+      return {
+        date: parsed.date,
+        promptTokens: isAmount(parsed.promptTokens) ? parsed.promptTokens : 0,
+        outputTokens: isAmount(parsed.outputTokens) ? parsed.outputTokens : 0,
+        cost: isAmount(parsed.cost) ? parsed.cost : 0,
+      };
+    }
+  } catch (err) {
+    console.error('Failed to load daily usage:', err);
+  }
+  return emptyDay();
+};
+
+// Adds a request to today's totals, pricing it with the table in effect now.
+export const recordDailyUsage = (record: UsageRecord, prices: Record<string, ModelPrice>): DailyUsage => {
+  const current = loadDailyUsage();
+  const next: DailyUsage = {
+    ...current,
+    ...sumUsage([current, record]),
+    cost: current.cost + estimateCost(record, prices),
+  };
+  localStorage.setItem(DAILY_STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
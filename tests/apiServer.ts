@@ -0,0 +1,40 @@
+// Starts the real API server for the test run, answering from the test cassette.
+// With GEMINI_CASSETTE=record (and a GEMINI_API_KEY) the same run records a new
+// cassette from live Gemini instead; delete the old one first.
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import type { TestProject } from 'vitest/node';
+import { createApp } from '../server/app.ts';
+import { createCassette } from '../server/cassette.ts';
+import { createGemini } from '../server/gemini.ts';
+
+const CASSETTE_FILE = path.resolve('tests/cassettes/stories.json');
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    apiOrigin: string;
+    cassetteFile: string;
+  }
+}
+
+export default async function setup(project: TestProject) {
+  const cassette = createCassette({
+    mode: process.env.GEMINI_CASSETTE === 'record' ? 'record' : 'replay',
+    file: CASSETTE_FILE,
+  });
+  const gemini = createGemini({
+    apiKey: process.env.GEMINI_API_KEY ?? '',
+    baseUrl: process.env.GEMINI_UPSTREAM_URL || undefined,
+    cassette,
+  });
+  const server = createServer(
+    createApp({ gemini, hasKey: true, rateLimitPerMinute: 0, trustProxy: false, staticDir: path.resolve('dist') }),
+  );
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  project.provide('apiOrigin', `http://127.0.0.1:${port}`);
+  project.provide('cassetteFile', CASSETTE_FILE);
+
+  return () => new Promise<void>((resolve) => server.close(() => resolve()));
+}
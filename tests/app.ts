@@ -0,0 +1,61 @@
+import { screen } from '@testing-library/dom';
+import { readFileSync } from 'node:fs';
+import { inject } from 'vitest';
+import type { CassetteEntry, CassetteFile, CassetteMethod } from '../server/cassette.ts';
+
+// Mounts the whole app, as index.html does. Each test file gets a fresh module
+// graph, so every file starts with an empty library.
+export const startApp = async () => {
+  document.body.innerHTML = '<div id="root"></div>';
+  await import('../index');
+  await screen.findByRole('tablist');
+};
+
+// The parts of a recorded request the tests look at: chats send `message` and
+// `history`, one-off calls send `contents`.
+export interface RecordedRequest {
+  config?: { systemInstruction?: string };
+  history?: unknown[];
+  message?: RecordedPart[];
+  contents?: RecordedPart[];
+}
+
+interface RecordedPart {
+  text?: string;
+}
+
+interface RecordedResponse {
+  candidates?: { content?: { parts?: { text?: string; thought?: boolean }[] } }[];
+}
+
+const replyText = (entry: CassetteEntry) =>
+  entry.chunks
+    .flatMap((chunk) => (chunk.response as RecordedResponse).candidates?.[0]?.content?.parts ?? [])
+    .filter((part) => part.text && !part.thought)
+    .map((part) => part.text)
+    .join('');
+
+// Read when asked, so assertions hold while recording a new cassette too.
+export const cassetteEntries = () =>
+  (JSON.parse(readFileSync(inject('cassetteFile'), 'utf8')) as CassetteFile).entries;
+
+// The replies the cassette holds for requests matching `matches`, in recorded order.
+export const recordedReplies = (method: CassetteMethod, matches: (request: RecordedRequest) => boolean) =>
+  cassetteEntries()
+    .filter((entry) => entry.method === method && matches(entry.request as RecordedRequest))
+    .map(replyText);
+
+// The prompt text of a recorded request, whichever call it was.
+export const promptOf = (request: RecordedRequest): string =>
+  (request.message ?? request.contents ?? []).map((part) => part.text ?? '').join('\n');
+
+// Text as the reader sees it once Markdown is rendered: markers gone, whitespace folded.
+export const visibleText = (text: string | null) =>
+  (text ?? '').replace(/[*_#`>]/g, '').replace(/\s+/g, ' ').trim();
+
+// Whether every paragraph of `reply` shows in `element`.
+export const showsReply = (element: Element, reply: string) =>
+  reply
+    .split(/\n\s*\n/)
+    .map(visibleText)
+    .every((paragraph) => visibleText(element.textContent).includes(paragraph));
@@ -0,0 +1,90 @@
+import { fireEvent, screen, waitFor, within } from '@testing-library/dom';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { promptOf, recordedReplies, showsReply, startApp } from './app';
+
+const OPENING = 'Tell me a story about a lighthouse keeper who collects fallen stars.';
+const FOLLOW_UP = 'What does she find in the tide pools the next morning?';
+
+const send = (text: string) => {
+  fireEvent.change(screen.getByLabelText('Chat input'), { target: { value: text } });
+  fireEvent.click(screen.getByLabelText('Send message'));
+};
+
+const modelMessages = () => [...document.querySelectorAll('#chat-panel .message.model:not(.loading)')];
+
+const replyTo = (text: string) => {
+  const replies = recordedReplies('sendMessageStream', (request) => promptOf(request) === text);
+  expect(replies.length, `recorded reply to "${text}"`).toBeGreaterThan(0);
+  return replies[replies.length - 1];
+};
+
+describe('Storyteller Chat', () => {
+  beforeAll(startApp);
+
+  it('streams the recorded reply to an opening message', async () => {
+    send(OPENING);
+    expect(await screen.findByLabelText('Stop generating')).toBeTruthy();
+    await waitFor(() => expect(screen.getByLabelText('Send message')).toBeTruthy());
+    expect(screen.getByText(OPENING)).toBeTruthy();
+    const messages = modelMessages();
+    expect(messages).toHaveLength(1);
+    expect(showsReply(messages[0], replyTo(OPENING))).toBe(true);
+  });
+
+  it('carries the story on with the earlier turns as history', async () => {
+    send(FOLLOW_UP);
+    await waitFor(() => expect(modelMessages()).toHaveLength(2));
+    await waitFor(() => expect(screen.getByLabelText('Send message')).toBeTruthy());
+    const [first, second] = modelMessages();
+    expect(showsReply(first, replyTo(OPENING))).toBe(true);
+    expect(showsReply(second, replyTo(FOLLOW_UP))).toBe(true);
+  });
+
+  it('saves the story to the library', async () => {
+    const library = screen.getByRole('complementary', { name: 'Story library' });
+    await waitFor(() => expect(library.textContent).toContain('4 messages'));
+  });
+
+  it('offers slash commands as the reader types', () => {
+    fireEvent.change(screen.getByLabelText('Chat input'), { target: { value: '/re' } });
+    const commands = screen.getByRole('listbox', { name: 'Commands' });
+    const options = within(commands).getAllByRole('option').map((option) => option.textContent);
+    expect(options).toEqual([expect.stringContaining('/rewind')]);
+  });
+
+  it('rewinds before the last turn and puts it back in the composer', async () => {
+    send('/rewind');
+    await waitFor(() => expect(modelMessages()).toHaveLength(1));
+    expect((screen.getByLabelText('Chat input') as HTMLTextAreaElement).value).toBe(FOLLOW_UP);
+  });
+
+  it('rejects a command it does not know', async () => {
+    send('/rewnid');
+    expect((await screen.findByRole('alert')).textContent).toContain('There is no /rewnid command');
+    expect(modelMessages()).toHaveLength(1);
+  });
+
+  it('keeps a refused command in the composer', async () => {
+    send('/export pdf');
+    expect((await screen.findByRole('alert')).textContent).toContain('Stories export as');
+    expect((screen.getByLabelText('Chat input') as HTMLTextAreaElement).value).toBe('/export pdf');
+  });
+
+  it('switches storyteller mid-story and keeps the history', async () => {
+    fireEvent.change(screen.getByLabelText('Storyteller persona'), { target: { value: 'noir-narrator' } });
+    send(FOLLOW_UP);
+    await waitFor(() => expect(modelMessages()).toHaveLength(2));
+    await waitFor(() => expect(screen.getByLabelText('Send message')).toBeTruthy());
+    const [first, second] = modelMessages();
+    expect(first.querySelector('.message-persona')?.textContent).toContain('Storyteller');
+    expect(second.querySelector('.message-persona')?.textContent).toContain('Noir narrator');
+    const [reply] = recordedReplies(
+      'sendMessageStream',
+      (request) =>
+        promptOf(request) === FOLLOW_UP &&
+        request.history?.length === 2 &&
+        Boolean(request.config?.systemInstruction?.startsWith('You are a hard-boiled noir narrator')),
+    );
+    expect(showsReply(second, reply)).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ContextRequest, DEFAULT_CONTEXT_SETTINGS, prepareContext, toChatHistory } from '../services/contextManager';
+import { providers } from '../services/providers';
+import { Message } from '../types';
+
+// u1 m1 u2 m2 … as one branch, `exchanges` reader turns each with its reply.
+const branchOf = (exchanges: number): Message[] =>
+  Array.from({ length: exchanges }, (_, index) => [
+    { id: `u${index + 1}`, parentId: index ? `m${index}` : null, sender: 'user' as const, text: `Reader turn ${index + 1}`, createdAt: 1 },
+    { id: `m${index + 1}`, parentId: `u${index + 1}`, sender: 'model' as const, text: `Reply ${index + 1}`, createdAt: 1 },
+  ]).flat();
+
+const request = (branch: Message[], changes: Partial<ContextRequest> = {}) =>
+  prepareContext({
+    provider: providers.mock,
+    model: 'mock-storyteller',
+    systemInstruction: 'Tell a story.',
+    branch,
+    message: 'Next turn',
+    settings: { tokenLimit: 1_000_000, keepTurns: 1 },
+    ...changes,
+  });
+
+const textsOf = (history: { parts?: { text?: string }[] }[]) => history.map((turn) => turn.parts?.[0]?.text);
+
+describe('Context', () => {
+  it('sends the whole branch while it fits', async () => {
+    const context = await request(branchOf(3));
+    expect(context.compacted).toBe(false);
+    expect(context.usage).toBeUndefined();
+    expect(context.history).toHaveLength(6);
+    expect(context.systemInstruction).toBe('Tell a story.');
+  });
+
+  it('leaves out error bubbles and the turns that caused them', () => {
+    const branch = branchOf(2);
+    branch[1] = { ...branch[1], status: 'error', text: 'Rate limited.' };
+    expect(textsOf(toChatHistory(branch))).toEqual(['Reader turn 2', 'Reply 2']);
+  });
+
+  it('folds all but the last `keepTurns` exchanges into the summary', async () => {
+    let compacting = false;
+    const context = await request(branchOf(3), { compact: 'now', onCompact: () => (compacting = true) });
+    expect(compacting).toBe(true);
+    expect(context.compacted).toBe(true);
+    expect(context.summary?.throughId).toBe('m2');
+    expect(textsOf(context.history)).toEqual(['Reader turn 3', 'Reply 3']);
+    expect(context.systemInstruction).toContain('## The story so far');
+    expect(context.usage).toMatchObject({ model: 'mock-storyteller' });
+  });
+
+  it('compacts on its own once the token limit is passed', async () => {
+    const context = await request(branchOf(4), { settings: { tokenLimit: 10, keepTurns: 2 } });
+    expect(context.summary?.throughId).toBe('m2');
+    expect(textsOf(context.history)).toEqual(['Reader turn 3', 'Reply 3', 'Reader turn 4', 'Reply 4']);
+  });
+
+  it('moves the cut forward so the kept turns open with the reader', async () => {
+    // u1 m1 m2 u3 m3 u4 m4: u2 is empty, so two replies follow each other and
+    // keeping three exchanges would start the history on m1.
+    const branch = branchOf(4);
+    branch[2] = { ...branch[2], text: '' };
+    const context = await request(branch, { compact: 'now', settings: { tokenLimit: 1_000_000, keepTurns: 3 } });
+    expect(context.summary?.throughId).toBe('m2');
+    expect(textsOf(context.history)).toEqual(['Reader turn 3', 'Reply 3', 'Reader turn 4', 'Reply 4']);
+  });
+
+  it('only summarises turns after the summary that applies', async () => {
+    const branch = branchOf(4);
+    const summary = { text: 'Earlier.', throughId: 'm1', updatedAt: 1 };
+    const context = await request(branch, { summary, compact: 'now' });
+    expect(context.summary?.throughId).toBe('m3');
+    expect(textsOf(context.history)).toEqual(['Reader turn 4', 'Reply 4']);
+
+    const elsewhere = await request(branch, { summary: { ...summary, throughId: 'other-branch' } });
+    expect(elsewhere.summary).toBeUndefined();
+    expect(elsewhere.history).toHaveLength(8);
+  });
+
+  it('never compacts when told not to, or with too few turns', async () => {
+    const tight = { tokenLimit: 10, keepTurns: DEFAULT_CONTEXT_SETTINGS.keepTurns };
+    expect((await request(branchOf(6), { compact: 'never', settings: tight })).compacted).toBe(false);
+    expect((await request(branchOf(1), { compact: 'now' })).compacted).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToHtml, parseInline, parseMarkdown, sanitizeUrl } from '../services/markdown';
+
+const text = (value: string) => ({ type: 'text', value });
+
+describe('Markdown', () => {
+  it('drops javascript: and data: link targets but keeps the label', () => {
+    for (const target of ['javascript:alert(1)', ' JavaScript:alert(1)', 'java\tscript:alert(1)', 'data:text/html,<script>x</script>']) {
+      expect(sanitizeUrl(target), target).toBeNull();
+    }
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([text('click')]);
+    expect(parseInline('[map](data:text/html;base64,PHNjcmlwdD4=)')).toEqual([text('map')]);
+  });
+
+  it('keeps web, mail and relative links', () => {
+    expect(sanitizeUrl('https://example.com/a?b=1')).toBe('https://example.com/a?b=1');
+    expect(sanitizeUrl('mailto:wren@example.com')).toBe('mailto:wren@example.com');
+    expect(sanitizeUrl('/chapters/2#start')).toBe('/chapters/2#start');
+    expect(sanitizeUrl('chapter:2')).toBeNull();
+    expect(parseInline('[the map](https://example.com/map "Map")')).toEqual([
+      { type: 'link', href: 'https://example.com/map', children: [text('the map')] },
+    ]);
+  });
+
+  it('nests emphasis of different sizes', () => {
+    expect(parseInline('*a **b** c*')).toEqual([
+      { type: 'em', children: [text('a '), { type: 'strong', children: [text('b')] }, text(' c')] },
+    ]);
+    expect(parseInline('**bold _and ~~struck~~_**')).toEqual([
+      {
+        type: 'strong',
+        children: [text('bold '), { type: 'em', children: [text('and '), { type: 'del', children: [text('struck')] }] }],
+      },
+    ]);
+  });
+
+  it('leaves underscores inside words alone', () => {
+    expect(parseInline('snake_case_name and 2 * 3 * 4')).toEqual([text('snake_case_name and 2 * 3 * 4')]);
+  });
+
+  it('keeps code fences verbatim', () => {
+    expect(parseMarkdown('```js\nconst a = 1 < 2 && *b*;\n```\nafter')).toEqual([
+      { type: 'code', lang: 'js', value: 'const a = 1 < 2 && *b*;' },
+      { type: 'paragraph', children: [text('after')] },
+    ]);
+    expect(parseMarkdown('~~~\n<img onerror=x>\n~~~')).toEqual([{ type: 'code', lang: '', value: '<img onerror=x>' }]);
+  });
+
+  it('runs an unclosed fence to the end', () => {
+    expect(parseMarkdown('```\nstill streaming')).toEqual([{ type: 'code', lang: '', value: 'still streaming' }]);
+  });
+
+  it('parses tight, loose, ordered and nested lists', () => {
+    const item = (value: string) => [{ type: 'paragraph', children: [text(value)] }];
+    expect(parseMarkdown('- one\n- two')).toEqual([
+      { type: 'list', ordered: false, start: 1, tight: true, items: [item('one'), item('two')] },
+    ]);
+    expect(parseMarkdown('- one\n\n- two')).toEqual([
+      { type: 'list', ordered: false, start: 1, tight: false, items: [item('one'), item('two')] },
+    ]);
+    expect(parseMarkdown('3. three\n4. four')).toEqual([
+      { type: 'list', ordered: true, start: 3, tight: true, items: [item('three'), item('four')] },
+    ]);
+    expect(parseMarkdown('- outer\n  - inner')).toEqual([
+      {
+        type: 'list',
+        ordered: false,
+        start: 1,
+        tight: true,
+        items: [[...item('outer'), { type: 'list', ordered: false, start: 1, tight: true, items: [item('inner')] }]],
+      },
+    ]);
+  });
+
+  it('keeps raw HTML as text', () => {
+    expect(parseInline('<b onclick="x">hi</b>')).toEqual([text('<b onclick="x">hi</b>')]);
+  });
+});
+
+describe('Markdown to HTML', () => {
+  it('writes safe links and drops unsafe ones', () => {
+    expect(markdownToHtml('[the map](https://example.com/map "Map")')).toBe('<p><a href="https://example.com/map">the map</a></p>');
+    expect(markdownToHtml('[map](data:text/html;base64,PHNjcmlwdD4=)')).toBe('<p>map</p>');
+  });
+
+  it('escapes raw HTML and code', () => {
+    expect(markdownToHtml('<b onclick="x">hi</b>')).toBe('<p>&#60;b onclick=&#34;x&#34;&#62;hi&#60;/b&#62;</p>');
+    expect(markdownToHtml('~~~\n<img onerror=x>\n~~~')).toBe('<pre><code>&#60;img onerror=x&#62;</code></pre>');
+  });
+
+  it('writes nested emphasis and lists', () => {
+    expect(markdownToHtml('**bold _and ~~struck~~_**')).toBe('<p><strong>bold <em>and <del>struck</del></em></strong></p>');
+    expect(markdownToHtml('- one\n\n- two')).toBe('<ul><li><p>one</p></li><li><p>two</p></li></ul>');
+    expect(markdownToHtml('3. three\n4. four')).toBe('<ol start="3"><li>three</li><li>four</li></ol>');
+  });
+});
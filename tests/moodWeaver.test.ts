@@ -0,0 +1,37 @@
+import { fireEvent, screen, waitFor } from '@testing-library/dom';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { promptOf, recordedReplies, showsReply, startApp } from './app';
+
+const PROMPT = 'A paper boat that sails up a rainstorm into the clouds.';
+
+const candidateCards = () => [...document.querySelectorAll('#mood-weaver-panel .candidate-card')];
+
+describe('Mood Weaver', () => {
+  beforeAll(async () => {
+    await startApp();
+    fireEvent.click(screen.getByRole('tab', { name: 'Mood Weaver' }));
+  });
+
+  it('writes each planned candidate from the recorded replies', async () => {
+    fireEvent.change(screen.getByLabelText('Creative prompt input'), { target: { value: PROMPT } });
+    fireEvent.change(screen.getByLabelText('Candidates'), { target: { value: '2' } });
+    fireEvent.change(screen.getByLabelText('Temperature of candidate 2'), { target: { value: '1.4' } });
+    fireEvent.click(screen.getByLabelText('Generate creative content'));
+
+    await waitFor(() => expect(candidateCards()).toHaveLength(2));
+    await waitFor(() => expect(screen.getByLabelText('Generate creative content')).toBeTruthy());
+
+    const replies = recordedReplies('generateContentStream', (request) => promptOf(request).includes(PROMPT));
+    expect(replies.length).toBeGreaterThanOrEqual(2);
+    for (const card of candidateCards()) {
+      expect(card.querySelector('.error-message')).toBeNull();
+      expect(replies.some((reply) => showsReply(card, reply))).toBe(true);
+    }
+  });
+
+  it('keeps the run in its history', async () => {
+    expect(screen.getByText('History (1)')).toBeTruthy();
+    fireEvent.click(screen.getByText('History (1)'));
+    expect(await screen.findByRole('dialog', { name: 'Run history' })).toBeTruthy();
+  });
+});
@@ -0,0 +1,28 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { loadNarrationSettings, saveNarrationSettings, toSpeechText } from '../services/narration';
+
+const SETTINGS_KEY = 'stories-in-the-sky:narration';
+
+describe('Narration', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('keeps saved settings', () => {
+    saveNarrationSettings({ voice: 'Puck', rate: 1.15 });
+    expect(loadNarrationSettings()).toEqual({ voice: 'Puck', rate: 1.15 });
+  });
+
+  it('falls back per field when the stored settings are damaged', () => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ voice: 'Puck', rate: 'fast' }));
+    expect(loadNarrationSettings()).toEqual({ voice: 'Puck', rate: 1 });
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ voice: 7, rate: 0.75 }));
+    expect(loadNarrationSettings()).toEqual({ voice: '', rate: 0.75 });
+    localStorage.setItem(SETTINGS_KEY, 'null');
+    expect(loadNarrationSettings()).toEqual({ voice: '', rate: 1 });
+  });
+
+  it('reads Markdown without its punctuation', () => {
+    expect(toSpeechText('# Chapter one\n\n**The lamp** was [dark](https://example.com).\n\n- Gulls\n\n```\ncode\n```')).toBe(
+      'Chapter one\nThe lamp was dark.\nGulls',
+    );
+  });
+});
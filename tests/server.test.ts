@@ -0,0 +1,148 @@
+// @vitest-environment node
+import { ApiError } from '@google/genai';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createApp } from '../server/app.ts';
+import { CassetteEntry, createCassette, requestKey } from '../server/cassette.ts';
+import { createGemini, toUpstreamError, UpstreamError } from '../server/gemini.ts';
+import { createRateLimiter } from '../server/rateLimit.ts';
+
+// A one-off generate call for `prompt`, answered with `response`, as the cassette keys it.
+const recorded = (prompt: string, response: unknown): CassetteEntry => {
+  const request = { model: 'm', contents: [{ text: prompt }], config: {} };
+  return { key: requestKey('generateContent', request), method: 'generateContent', request, chunks: [{ delayMs: 0, response }] };
+};
+
+const reply = (text: string, finishReason = 'STOP') => ({ candidates: [{ content: { parts: text ? [{ text }] : [] }, finishReason }] });
+
+const ENTRIES = [
+  recorded('fine', { ...reply('Once upon a time.'), usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 4, thoughtsTokenCount: 2 } }),
+  recorded('blocked', {
+    promptFeedback: { blockReason: 'SAFETY', safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', blocked: true }] },
+  }),
+  recorded('recited', reply('', 'RECITATION')),
+  recorded('cut off', reply('', 'MAX_TOKENS')),
+];
+
+const directory = mkdtempSync(path.join(tmpdir(), 'stories-server-'));
+const cassetteFile = path.join(directory, 'cassette.json');
+writeFileSync(cassetteFile, JSON.stringify({ version: 1, entries: ENTRIES }));
+const gemini = createGemini({ apiKey: '', cassette: createCassette({ mode: 'replay', file: cassetteFile }) });
+
+const generate = (prompt: string) => gemini.generate({ model: 'm', prompt }, new AbortController().signal);
+
+const failureOf = async (promise: Promise<unknown>) => {
+  const error = await promise.then(
+    () => undefined,
+    (err: unknown) => err,
+  );
+  expect(error).toBeInstanceOf(UpstreamError);
+  const { kind, detail } = error as UpstreamError;
+  return { kind, detail };
+};
+
+describe('Gemini replies', () => {
+  it('returns the text and counts thinking as output', async () => {
+    expect(await generate('fine')).toEqual({ text: 'Once upon a time.', usage: { promptTokens: 3, outputTokens: 6 } });
+  });
+
+  it('names the categories that blocked a prompt', async () => {
+    expect(await failureOf(generate('blocked'))).toEqual({ kind: 'safety', detail: 'dangerous content' });
+  });
+
+  it('treats recitation as a block', async () => {
+    expect(await failureOf(generate('recited'))).toEqual({ kind: 'safety', detail: 'it repeated copyrighted text' });
+  });
+
+  it('explains an empty reply that hit the output limit', async () => {
+    expect(await failureOf(generate('cut off'))).toEqual({ kind: 'empty', detail: 'it hit the output limit before writing anything' });
+  });
+});
+
+describe('Upstream errors', () => {
+  it('sorts API errors by what the reader can do about them', () => {
+    const kindOf = (error: unknown) => toUpstreamError(error).kind;
+    expect(kindOf(new ApiError({ status: 429, message: 'Quota exceeded for requests per minute' }))).toBe('rate-limit');
+    expect(kindOf(new ApiError({ status: 429, message: 'Quota exceeded for requests per day' }))).toBe('quota');
+    expect(kindOf(new ApiError({ status: 400, message: 'API key not valid. Please pass a valid API key.' }))).toBe('invalid-key');
+    expect(kindOf(new ApiError({ status: 403, message: 'Forbidden' }))).toBe('invalid-key');
+    expect(kindOf(new ApiError({ status: 503, message: 'Overloaded' }))).toBe('server');
+    expect(kindOf(new TypeError('fetch failed'))).toBe('network');
+    expect(kindOf(new Error('Something else'))).toBe('unknown');
+  });
+});
+
+describe('Rate limiter', () => {
+  it('allows `limit` requests per client per window', () => {
+    const take = createRateLimiter(2, 60_000);
+    expect(take('a', 0).allowed).toBe(true);
+    expect(take('a', 1_000).allowed).toBe(true);
+    expect(take('a', 15_000)).toEqual({ allowed: false, retryAfterMs: 45_000 });
+    expect(take('b', 15_000).allowed).toBe(true);
+    expect(take('a', 60_000).allowed).toBe(true);
+  });
+
+  it('allows everything when the limit is 0', () => {
+    const take = createRateLimiter(0, 60_000);
+    expect([1, 2, 3].every(() => take('a').allowed)).toBe(true);
+  });
+});
+
+describe('API server', () => {
+  const servers: Server[] = [];
+
+  const serve = async (rateLimitPerMinute: number) => {
+    const server = createServer(createApp({ gemini, hasKey: true, rateLimitPerMinute, trustProxy: false, staticDir: directory }));
+    servers.push(server);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  const post = (origin: string, endpoint: string, body: string) =>
+    fetch(`${origin}${endpoint}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+  let origin: string;
+  beforeAll(async () => {
+    origin = await serve(0);
+  });
+  afterAll(() => Promise.all(servers.map((server) => new Promise((resolve) => server.close(resolve)))));
+
+  it('answers a well-formed request', async () => {
+    const response = await post(origin, '/api/generate', JSON.stringify({ model: 'm', prompt: 'fine' }));
+    expect(response.status).toBe(200);
+    expect((await response.json()).text).toBe('Once upon a time.');
+  });
+
+  it('turns away malformed bodies before they reach Gemini', async () => {
+    const cases: [string, string, string][] = [
+      ['/api/generate', 'not json', 'Request body must be JSON.'],
+      ['/api/generate', '[1]', 'Request body must be a JSON object.'],
+      ['/api/generate', '{"model":"m"}', '"prompt" must be a string.'],
+      ['/api/chat/stream', '{"model":"","systemInstruction":"","history":[],"message":"hi"}', '"model" must be a non-empty string.'],
+      ['/api/chat/stream', '{"model":"m","systemInstruction":"","history":{},"message":"hi"}', '"history" must be an array.'],
+      ['/api/speech', '{"model":"m","text":"hi"}', '"voice" must be a non-empty string.'],
+    ];
+    for (const [endpoint, body, message] of cases) {
+      const response = await post(origin, endpoint, body);
+      expect(response.status, body).toBe(400);
+      expect((await response.json()).error.message).toBe(message);
+    }
+  });
+
+  it('answers a malformed path with 400', async () => {
+    expect((await fetch(`${origin}/%E0%A4%A`)).status).toBe(400);
+  });
+
+  it('says when to come back once a client is rate limited', async () => {
+    const limited = await serve(1);
+    expect((await post(limited, '/api/generate', JSON.stringify({ model: 'm', prompt: 'fine' }))).status).toBe(200);
+    const response = await post(limited, '/api/generate', JSON.stringify({ model: 'm', prompt: 'fine' }));
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect((await response.json()).error.kind).toBe('rate-limit');
+  });
+});
@@ -0,0 +1,20 @@
+// Fills the gaps between jsdom and a browser that the app relies on.
+import 'fake-indexeddb/auto';
+import { afterAll, inject } from 'vitest';
+
+const apiOrigin = inject('apiOrigin');
+const nodeFetch = globalThis.fetch;
+
+// The app asks for /api/... relative to its page; send those to the test server.
+globalThis.fetch = (input: RequestInfo | URL, init?: RequestInit) =>
+  nodeFetch(typeof input === 'string' && input.startsWith('/') ? new URL(input, apiOrigin) : input, init);
+
+// jsdom does no layout, so there is never a size to report.
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+// React finishes rendering on a later tick; let it, before jsdom is torn down.
+afterAll(() => new Promise((resolve) => setTimeout(resolve, 50)));
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ChatCommandContext,
+  isActionCommand,
+  isPromptCommand,
+  parseSlashCommand,
+  SlashCommandError,
+  suggestSlashCommands,
+} from '../services/slashCommands';
+import { ExportFormat } from '../services/storyExport';
+
+const CALM = {
+  id: 'calm',
+  label: 'Calm',
+  description: 'Slow and quiet.',
+  examplePhrasing: 'The tide came in without hurry.',
+  sampling: {},
+  createdAt: 1,
+};
+
+const contextWith = (exported: ExportFormat[] = []): ChatCommandContext => ({
+  moods: [CALM],
+  characters: ['Mara', 'Mr Finch'],
+  rewind: () => {},
+  summarize: () => {},
+  exportStory: (format) => exported.push(format),
+});
+
+// The turn a prompt command writes for `text`.
+const promptFor = (text: string) => {
+  const parsed = parseSlashCommand(text)!;
+  if (!isPromptCommand(parsed.command)) throw new Error(`${text} is not a prompt command`);
+  return parsed.command.prompt(parsed.argument, contextWith());
+};
+
+describe('Slash commands', () => {
+  it('splits a command from its argument', () => {
+    const parsed = parseSlashCommand('  /POV  Mara the keeper ');
+    expect(parsed?.command.name).toBe('pov');
+    expect(parsed?.argument).toBe('Mara the keeper');
+    expect(parseSlashCommand('/continue')?.argument).toBe('');
+  });
+
+  it('leaves ordinary turns alone', () => {
+    expect(parseSlashCommand('She opened the door.')).toBeNull();
+    expect(parseSlashCommand('and/or')).toBeNull();
+  });
+
+  it('refuses a command that does not exist', () => {
+    expect(() => parseSlashCommand('/teleport home')).toThrow(SlashCommandError);
+  });
+
+  it('writes prompts from the argument', () => {
+    expect(promptFor('/continue')).toBe('Continue the story from where it left off.');
+    expect(promptFor('/pov Mara')).toContain("from Mara's point of view");
+    expect(promptFor('/mood calm')).toBe(
+      'Continue the story in a calm mood. Slow and quiet. For the feel of it: "The tide came in without hurry."',
+    );
+    expect(() => promptFor('/mood Furious')).toThrow('There is no mood called "Furious".');
+    expect(() => promptFor('/pov')).toThrow(SlashCommandError);
+  });
+
+  it('runs actions, refusing an unknown export format', () => {
+    const exported: ExportFormat[] = [];
+    const run = (text: string) => {
+      const { command, argument } = parseSlashCommand(text)!;
+      if (!isActionCommand(command)) throw new Error(`${text} is not an action`);
+      command.action(argument, contextWith(exported));
+    };
+    run('/export');
+    run('/export EPUB');
+    expect(exported).toEqual(['markdown', 'epub']);
+    expect(() => run('/export pdf')).toThrow('Stories export as markdown, html, epub, json.');
+  });
+
+  it('suggests command names, then values for the argument', () => {
+    expect(suggestSlashCommands('/s', contextWith()).map((item) => item.completion)).toEqual(['/summarize']);
+    expect(suggestSlashCommands('/pov m', contextWith())).toEqual([
+      { label: 'Mara', completion: '/pov Mara' },
+      { label: 'Mr Finch', completion: '/pov Mr Finch' },
+    ]);
+    expect(suggestSlashCommands('/pov Mara', contextWith())).toEqual([]);
+    expect(suggestSlashCommands('no command', contextWith())).toEqual([]);
+  });
+});
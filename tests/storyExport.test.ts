@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { buildChatDocument, parseSessionExport, serializeSession, toMarkdown } from '../services/storyExport';
+import { getPath } from '../services/storyTree';
+import { Message, StorySession } from '../types';
+
+const message = (id: string, parentId: string | null, sender: Message['sender'], text: string): Message => ({
+  id,
+  parentId,
+  sender,
+  text,
+  createdAt: 1,
+});
+
+const story = (messages: Message[], changes: Partial<StorySession> = {}): StorySession => ({
+  id: 'original',
+  title: 'The lighthouse',
+  model: 'gemini-3-pro-preview',
+  providerId: 'gemini',
+  systemInstruction: 'Tell a story.',
+  messages,
+  activeLeafId: messages[messages.length - 1].id,
+  createdAt: 1,
+  updatedAt: 2,
+  ...changes,
+});
+
+const BRANCH = [
+  message('a', null, 'user', 'Begin at the lighthouse.'),
+  message('b', 'a', 'model', 'The lamp had been dark for years.'),
+  message('c', 'b', 'user', 'Climb the stairs.'),
+  message('d', 'c', 'model', 'Each step **groaned**.'),
+];
+
+// Exports `session` as it would be written to a file, with `edit` applied to the raw JSON.
+const exported = (session: unknown, edit: (payload: { session: Record<string, unknown> }) => void = () => {}) => {
+  const payload = JSON.parse(serializeSession(session as StorySession));
+  edit(payload);
+  return JSON.stringify(payload);
+};
+
+describe('Story import', () => {
+  it('brings back the whole tree as a new story', () => {
+    const session = story(BRANCH, {
+      summary: { text: 'A lighthouse keeper returns.', throughId: 'b', updatedAt: 3 },
+      overheadUsage: [{ model: 'gemini-3-pro-preview', promptTokens: 10, outputTokens: 5 }],
+    });
+    const imported = parseSessionExport(serializeSession(session));
+    expect(imported.id).not.toBe('original');
+    expect(imported.messages).toEqual(BRANCH);
+    expect(imported.activeLeafId).toBe('d');
+    expect(imported.summary).toEqual(session.summary);
+    expect(imported.overheadUsage).toEqual(session.overheadUsage);
+    expect(getPath(imported.messages, imported.activeLeafId).map((msg) => msg.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('refuses files that are not exports', () => {
+    expect(() => parseSessionExport('not json')).toThrow('not valid JSON');
+    expect(() => parseSessionExport('{"format":"something-else"}')).toThrow('not a Stories in the Sky export');
+    expect(() => parseSessionExport(exported(story(BRANCH), ({ session }) => (session.messages = [])))).toThrow(
+      'no readable messages',
+    );
+  });
+
+  it('refuses a parentId cycle', () => {
+    const json = exported(story(BRANCH), ({ session }) => {
+      (session.messages as Message[])[0].parentId = 'd';
+    });
+    expect(() => parseSessionExport(json)).toThrow('earlier turn is missing');
+  });
+
+  it('refuses a parent that comes later in the list', () => {
+    const json = exported(story([BRANCH[1], BRANCH[0]]));
+    expect(() => parseSessionExport(json)).toThrow('earlier turn is missing');
+  });
+
+  it('refuses duplicate and missing ids', () => {
+    expect(() => parseSessionExport(exported(story([BRANCH[0], { ...BRANCH[1], id: 'a' }])))).toThrow('its own id');
+    expect(() => parseSessionExport(exported(story([{ ...BRANCH[0], id: '' }])))).toThrow('its own id');
+  });
+
+  it('drops fields it cannot read instead of trusting them', () => {
+    const json = exported(story(BRANCH), ({ session }) => {
+      const [, reply] = session.messages as Record<string, unknown>[];
+      reply.usage = { model: 'x', promptTokens: 'lots' };
+      reply.illustrations = [{ id: 'i', prompt: 'lamp', mimeType: 'text/html', data: '<script>', createdAt: 1 }];
+      reply.extra = 'kept out';
+      session.summary = { text: 'Orphaned.', throughId: 'nowhere', updatedAt: 1 };
+      session.overheadUsage = 'none';
+      session.activeLeafId = 'missing';
+    });
+    const imported = parseSessionExport(json);
+    expect(imported.messages[1]).toEqual(BRANCH[1]);
+    expect(imported.summary).toBeUndefined();
+    expect(imported.overheadUsage).toBeUndefined();
+    expect(imported.activeLeafId).toBe('d');
+  });
+});
+
+describe('Story export', () => {
+  it('writes the storyteller turns as chapters', () => {
+    expect(toMarkdown(buildChatDocument('The lighthouse', BRANCH, 'story'))).toBe(
+      '# The lighthouse\n\n## Chapter 1\n\nThe lamp had been dark for years.\n\n## Chapter 2\n\nEach step **groaned**.\n',
+    );
+  });
+
+  it('keeps both sides in a transcript, skipping failed turns', () => {
+    const failed = { ...message('e', 'd', 'model', 'Something went wrong.'), status: 'error' as const };
+    const doc = buildChatDocument('The lighthouse', [...BRANCH, failed], 'transcript');
+    expect(doc.chapters.map((chapter) => chapter.sections.map((section) => section.speaker))).toEqual([
+      ['You', 'Storyteller'],
+      ['You', 'Storyteller'],
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getLatestLeaf,
+  getPath,
+  getSiblings,
+  initialMessageTree,
+  messageTreeReducer,
+  MessageTreeAction,
+  normalizeSession,
+} from '../services/storyTree';
+import { Message, StorySession } from '../types';
+
+const message = (id: string, parentId: string | null, sender: Message['sender'] = 'user'): Message => ({
+  id,
+  parentId,
+  sender,
+  text: id,
+  createdAt: 1,
+});
+
+// a ─ b ─ c
+//   └ d ─ e
+const TREE = [message('a', null), message('b', 'a', 'model'), message('c', 'b'), message('d', 'a', 'model'), message('e', 'd')];
+
+const reduce = (actions: MessageTreeAction[]) => actions.reduce(messageTreeReducer, initialMessageTree);
+
+describe('Story tree', () => {
+  it('walks from the root down to a leaf', () => {
+    expect(getPath(TREE, 'c').map((msg) => msg.id)).toEqual(['a', 'b', 'c']);
+    expect(getPath(TREE, 'e').map((msg) => msg.id)).toEqual(['a', 'd', 'e']);
+    expect(getPath(TREE, null)).toEqual([]);
+    expect(getPath(TREE, 'missing')).toEqual([]);
+  });
+
+  it('finds siblings and the newest leaf under a node', () => {
+    expect(getSiblings(TREE, TREE[1]).map((msg) => msg.id)).toEqual(['b', 'd']);
+    expect(getLatestLeaf(TREE, 'a')).toBe('e');
+    expect(getLatestLeaf(TREE, 'b')).toBe('c');
+  });
+
+  it('shows a reply as soon as it starts streaming', () => {
+    const state = reduce([
+      { type: 'add', message: message('a', null) },
+      { type: 'start-reply', reply: message('b', 'a', 'model') },
+      { type: 'stream', id: 'b', text: 'Once' },
+    ]);
+    expect(state.activeLeafId).toBe('b');
+    expect(state.nodes[1]).toMatchObject({ text: 'Once', status: 'streaming' });
+  });
+
+  it('ignores a frame that arrives after the reply finished', () => {
+    const state = reduce([
+      { type: 'start-reply', reply: message('b', null, 'model') },
+      { type: 'complete', id: 'b', changes: { text: 'Once upon a time.' } },
+      { type: 'stream', id: 'b', text: 'Once' },
+    ]);
+    expect(state.nodes[0]).toMatchObject({ text: 'Once upon a time.', status: 'complete' });
+  });
+
+  it('marks a failed reply and removes nodes', () => {
+    let state = reduce([
+      { type: 'add', message: message('a', null) },
+      { type: 'start-reply', reply: message('b', 'a', 'model') },
+      { type: 'fail', id: 'b', text: 'Rate limited.', errorKind: 'rate-limit' },
+    ]);
+    expect(state.nodes[1]).toMatchObject({ status: 'error', errorKind: 'rate-limit', text: 'Rate limited.' });
+    state = messageTreeReducer(state, { type: 'remove', id: 'b' });
+    expect(state.nodes.map((node) => node.id)).toEqual(['a']);
+  });
+
+  it('chains a flat log from before branching into one branch', () => {
+    const legacy = {
+      id: 's',
+      title: 'Old story',
+      model: '',
+      systemInstruction: '',
+      messages: [
+        { text: 'Hello', sender: 'user' },
+        { text: 'Hi', sender: 'model', isError: true },
+      ],
+      activeLeafId: null,
+      createdAt: 5,
+      updatedAt: 5,
+    } as unknown as StorySession;
+    const session = normalizeSession(legacy);
+    const [first, second] = session.messages;
+    expect(first.parentId).toBeNull();
+    expect(second).toMatchObject({ parentId: first.id, status: 'error', createdAt: 5 });
+    expect(session.activeLeafId).toBe(second.id);
+  });
+
+  it('marks a reply left streaming as cut off', () => {
+    const session = normalizeSession({
+      id: 's',
+      title: 'Story',
+      model: '',
+      systemInstruction: '',
+      messages: [{ ...message('a', null, 'model'), status: 'streaming' }],
+      activeLeafId: 'a',
+      createdAt: 1,
+      updatedAt: 1,
+    });
+    expect(session.messages[0]).toMatchObject({ status: 'complete', truncated: true });
+  });
+});
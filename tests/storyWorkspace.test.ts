@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { initStoryWorkspace, storyWorkspaceReducer } from '../services/storyWorkspace';
+import { PinnedPassage } from '../types';
+
+const PINS_KEY = 'stories-in-the-sky:scratchpad';
+
+const pin = (id: string, text: string): PinnedPassage => ({ id, title: 'The lighthouse', text, source: 'chat', createdAt: 1 });
+
+describe('Scratchpad', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('keeps stored pins and drops the ones it cannot show', () => {
+    localStorage.setItem(
+      PINS_KEY,
+      JSON.stringify([pin('a', 'The lamp was dark.'), { id: 'b', text: 42 }, null, 'text', { ...pin('c', 'Gulls.'), source: 'elsewhere' }]),
+    );
+    expect(initStoryWorkspace().pins).toEqual([pin('a', 'The lamp was dark.'), pin('c', 'Gulls.')]);
+  });
+
+  it('starts empty when the stored pins are not a list', () => {
+    localStorage.setItem(PINS_KEY, '{"pins": []}');
+    expect(initStoryWorkspace().pins).toEqual([]);
+    localStorage.setItem(PINS_KEY, 'not json');
+    expect(initStoryWorkspace().pins).toEqual([]);
+  });
+
+  it('pins the same text once, newest first', () => {
+    let state = initStoryWorkspace();
+    state = storyWorkspaceReducer(state, { type: 'pin', pin: pin('a', 'The lamp was dark.') });
+    state = storyWorkspaceReducer(state, { type: 'pin', pin: pin('b', 'Gulls.') });
+    state = storyWorkspaceReducer(state, { type: 'pin', pin: pin('c', 'The lamp was dark.') });
+    expect(state.pins.map((item) => item.id)).toEqual(['c', 'b']);
+  });
+});
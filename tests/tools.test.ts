@@ -0,0 +1,66 @@
+import { fireEvent, screen, waitFor, within } from '@testing-library/dom';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { saveSettings } from '../services/generationSettings';
+import { isRecord } from '../services/guards';
+import { cassetteEntries, recordedReplies, showsReply, startApp } from './app';
+
+const ROLL = 'Roll to see whether the thief slips past the guard.';
+const REMEMBER = 'Remember that the thief is called Wren.';
+
+const send = (text: string) => {
+  fireEvent.change(screen.getByLabelText('Chat input'), { target: { value: text } });
+  fireEvent.click(screen.getByLabelText('Send message'));
+};
+
+const modelMessages = () => [...document.querySelectorAll('#chat-panel .message.model:not(.loading)')];
+
+// The answer the app sent back for a `name` call, read from the recorded request.
+const toolResultOf = (request: unknown, name: string) => {
+  const parts: unknown[] = isRecord(request) && Array.isArray(request.message) ? request.message : [];
+  for (const part of parts) {
+    const answer = isRecord(part) ? part.functionResponse : undefined;
+    if (isRecord(answer) && answer.name === name && isRecord(answer.response)) return answer.response;
+  }
+  return undefined;
+};
+
+// The recorded reply written once a `name` call was answered, and that answer.
+const afterTool = (name: string) => {
+  const entry = cassetteEntries().find((item) => toolResultOf(item.request, name));
+  expect(entry, `recorded answer to ${name}`).toBeTruthy();
+  const [reply] = recordedReplies('sendMessageStream', (request) => Boolean(toolResultOf(request, name)));
+  return { reply, result: toolResultOf(entry!.request, name)! };
+};
+
+const waitForReply = async (count: number) => {
+  await waitFor(() => expect(modelMessages()).toHaveLength(count));
+  await waitFor(() => expect(screen.getByLabelText('Send message')).toBeTruthy());
+};
+
+describe('Storyteller tools', () => {
+  beforeAll(async () => {
+    // A fixed seed, so the dice roll as they did when the cassette was recorded.
+    saveSettings('chat', { model: '', sampling: { seed: 7 } });
+    await startApp();
+  });
+
+  it('rolls the dice the model asks for and shows the roll as a card', async () => {
+    send(ROLL);
+    await waitForReply(1);
+    const { reply, result } = afterTool('roll_dice');
+    const [card] = within(screen.getByRole('list', { name: 'Tool calls' })).getAllByRole('listitem');
+    expect(card.textContent).toContain('roll dice');
+    expect(card.textContent).toContain(`1d20 → ${result.total}`);
+    expect(showsReply(modelMessages()[0], reply)).toBe(true);
+  });
+
+  it('keeps facts the model writes with the story', async () => {
+    send(REMEMBER);
+    await waitForReply(2);
+    const { reply, result } = afterTool('write_story_fact');
+    expect(result).toEqual({ key: 'thief.name', value: 'Wren', previous: null });
+    const cards = screen.getAllByRole('list', { name: 'Tool calls' });
+    expect(cards[1].textContent).toContain('thief.name = Wren');
+    expect(showsReply(modelMessages()[1], reply)).toBe(true);
+  });
+});
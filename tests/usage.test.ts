@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PRICES,
+  budgetStatus,
+  estimateCost,
+  loadDailyUsage,
+  loadUsageSettings,
+  mergeUsage,
+  recordDailyUsage,
+  toUsageRecord,
+  worstStatus,
+} from '../services/usage';
+
+const SETTINGS_KEY = 'stories-in-the-sky:usage-settings';
+const DAILY_KEY = 'stories-in-the-sky:usage-daily';
+
+const PRICES = { priced: { input: 2, output: 12 } };
+
+describe('Usage', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('prices a call per million tokens, and unknown models as free', () => {
+    expect(estimateCost({ model: 'priced', promptTokens: 1_000_000, outputTokens: 500_000 }, PRICES)).toBe(8);
+    expect(estimateCost({ model: 'unpriced', promptTokens: 1_000_000, outputTokens: 1_000_000 }, PRICES)).toBe(0);
+  });
+
+  it('estimates usage the model never reported', () => {
+    expect(toUsageRecord('priced', { promptTokens: 3, outputTokens: 4 }, 'ignored', 'ignored')).toEqual({
+      model: 'priced',
+      promptTokens: 3,
+      outputTokens: 4,
+    });
+    expect(toUsageRecord('priced', undefined, 'x'.repeat(40), 'x'.repeat(9))).toEqual({
+      model: 'priced',
+      promptTokens: 10,
+      outputTokens: 3,
+      estimated: true,
+    });
+    const summary = { model: 'priced', promptTokens: 3, outputTokens: 4, estimated: true };
+    expect(mergeUsage({ model: 'priced', promptTokens: 1, outputTokens: 2 }, summary)).toEqual({
+      model: 'priced',
+      promptTokens: 4,
+      outputTokens: 6,
+      estimated: true,
+    });
+  });
+
+  it('warns at 80% of a budget and blocks once it is spent', () => {
+    expect(budgetStatus(5, undefined)).toBe('ok');
+    expect(budgetStatus(5, 0)).toBe('ok');
+    expect(budgetStatus(0.79, 1)).toBe('ok');
+    expect(budgetStatus(0.8, 1)).toBe('warn');
+    expect(budgetStatus(1, 1)).toBe('blocked');
+    expect(worstStatus('ok', 'warn')).toBe('warn');
+    expect(worstStatus('blocked', 'warn')).toBe('blocked');
+  });
+
+  it('adds up today and starts over on a new day', () => {
+    recordDailyUsage({ model: 'priced', promptTokens: 500_000, outputTokens: 0 }, PRICES);
+    const day = recordDailyUsage({ model: 'priced', promptTokens: 500_000, outputTokens: 0 }, PRICES);
+    expect(day).toMatchObject({ promptTokens: 1_000_000, outputTokens: 0, cost: 2 });
+    expect(loadDailyUsage()).toEqual(day);
+
+    localStorage.setItem(DAILY_KEY, JSON.stringify({ ...day, date: '2000-01-01' }));
+    expect(loadDailyUsage()).toMatchObject({ promptTokens: 0, outputTokens: 0, cost: 0 });
+  });
+
+  it('falls back per field when the stored totals are damaged', () => {
+    const { date } = loadDailyUsage();
+    localStorage.setItem(DAILY_KEY, JSON.stringify({ date, promptTokens: 'many', outputTokens: 7, cost: null }));
+    expect(loadDailyUsage()).toEqual({ date, promptTokens: 0, outputTokens: 7, cost: 0 });
+    localStorage.setItem(DAILY_KEY, '[1, 2]');
+    expect(loadDailyUsage()).toMatchObject({ promptTokens: 0, outputTokens: 0, cost: 0 });
+  });
+
+  it('keeps the built-in prices and valid settings when stored settings are damaged', () => {
+    localStorage.setItem(
+      SETTINGS_KEY,
+      JSON.stringify({ prices: { custom: { input: 1, output: 2 }, broken: { input: 'free' } }, sessionBudget: 3, dailyBudget: -1 }),
+    );
+    expect(loadUsageSettings()).toEqual({ prices: { ...DEFAULT_PRICES, custom: { input: 1, output: 2 } }, sessionBudget: 3 });
+
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ prices: 'none' }));
+    expect(loadUsageSettings()).toEqual({ prices: DEFAULT_PRICES });
+  });
+});
@@ -0,0 +1,251 @@
+import { StoryErrorKind } from './services/providers/errors';
+import { PromptAttachment, ProviderId, SamplingOptions, TokenUsage } from './services/providers/types';
+
+// A reply streams until it completes or fails. Error bubbles are shown but never
+// sent back to the model.
+export type MessageStatus = 'streaming' | 'complete' | 'error';
+
+export interface Message {
+  id: string;
+  parentId: string | null; // null for the opening turn of a story
+  text: string;
+  sender: 'user' | 'model';
+  attachments?: Attachment[]; // Images and text files sent with a reader turn
+  status?: MessageStatus; // Missing means complete
+  errorKind?: StoryErrorKind;
+  truncated?: boolean; // The reader stopped the reply before it finished
+  usage?: UsageRecord; // Tokens spent producing a model reply
+  illustrations?: Illustration[];
+  adventure?: AdventureTurn; // Choices and game state of an adventure-mode reply
+  persona?: PersonaTag; // The storyteller that wrote a model reply
+  toolCalls?: ToolCallRecord[]; // Tools the storyteller used while writing a reply, in call order
+  createdAt: number;
+}
+
+// One tool call made while writing a reply, kept to show as a card above it.
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  icon: string;
+  summary: string; // One line for the card, e.g. "2d6+1 → 9"
+  args: Record<string, unknown>;
+  result: Record<string, unknown>; // As sent back to the model
+  failed?: boolean; // The tool was unknown or refused its arguments
+}
+
+// An image or text file given as inspiration, saved with the turn it was sent with.
+export interface Attachment extends PromptAttachment {
+  id: string;
+  size: number; // Bytes of the original file
+}
+
+export interface StorySession {
+  id: string;
+  title: string;
+  model: string;
+  providerId?: ProviderId; // Missing on stories saved before providers were selectable
+  systemInstruction: string;
+  personaId?: string; // The storyteller telling it; missing on stories from before personas
+  messages: Message[]; // Every node of the story tree, in creation order
+  activeLeafId: string | null; // Tip of the branch currently on screen
+  characterSheet?: CharacterAppearance[]; // How characters have been drawn so far, reused for every picture
+  adventure?: boolean; // Played as a choose-your-own-adventure
+  summary?: StorySummary; // Rolling summary that stands in for older turns once the context grows long
+  overheadUsage?: UsageRecord[]; // Model calls for the story besides its replies, such as writing summaries
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface StorySummary {
+  text: string;
+  throughId: string; // Last message folded into the summary; turns after it are sent verbatim
+  updatedAt: number;
+}
+
+// When a chat story's context is compacted, and how much of it stays verbatim.
+export interface ContextSettings {
+  tokenLimit: number; // Compact once the next request would exceed this many tokens
+  keepTurns: number; // Exchanges (a reader turn and its reply) always sent verbatim
+}
+
+export type BibleEntryKind = 'character' | 'location' | 'faction' | 'rule';
+
+// A canon fact the storyteller must respect, e.g. a character's eye colour or "magic costs memories".
+export interface BibleEntry {
+  id: string;
+  kind: BibleEntryKind;
+  name: string;
+  description: string;
+  active: boolean; // Inactive entries are kept but not sent to the model
+  createdAt: number;
+}
+
+export interface Mood {
+  id: string;
+  label: string;
+  description: string;
+  examplePhrasing: string;
+  sampling: SamplingOptions; // Defaults used when this mood leads a generation
+  builtIn?: boolean; // Shipped with the app; can be copied but not edited
+  createdAt: number;
+}
+
+// A storyteller voice for the chat, such as a noir narrator or a dungeon master.
+export interface Persona {
+  id: string;
+  name: string;
+  avatar: string; // An emoji shown on its replies
+  instruction: string; // The system instruction the chat is built with
+  model: string; // Empty for the provider's default model
+  providerId?: ProviderId; // The provider `model` belongs to
+  sampling: SamplingOptions; // Defaults; the chat's generation settings override them
+  builtIn?: boolean; // Shipped with the app; can be copied but not edited
+  createdAt: number;
+}
+
+// How a reply names its persona, kept as it was when the reply was written.
+export interface PersonaTag {
+  id: string;
+  name: string;
+  avatar: string;
+}
+
+export interface MoodWeight {
+  moodId: string;
+  weight: number; // Relative; normalised against the other moods in the blend
+}
+
+export type GenerationTab = 'chat' | 'mood-weaver' | 'book-builder';
+
+// Per-tab overrides; anything left unset falls back to the provider or mood defaults.
+export interface GenerationSettings {
+  model: string; // Empty for the provider's default model
+  providerId?: ProviderId; // The provider `model` belongs to
+  sampling: SamplingOptions;
+  preset?: { id: string; name: string }; // Where these settings came from, cleared once edited
+}
+
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  tab: GenerationTab;
+  settings: GenerationSettings;
+  builtIn?: boolean;
+  createdAt: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  model: string;
+  estimated?: boolean; // Counted locally because the model never reported usage, e.g. after Stop
+}
+
+// US dollars per million tokens.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageSettings {
+  prices: Record<string, ModelPrice>; // Keyed by model id
+  sessionBudget?: number; // Dollars per chat story, Mood Weaver run or book
+  dailyBudget?: number; // Dollars per calendar day, across both tabs
+}
+
+export interface DailyUsage extends TokenUsage {
+  date: string; // Local calendar day, YYYY-MM-DD
+  cost: number;
+}
+
+export interface Illustration {
+  id: string;
+  prompt: string; // What the image model was asked to draw
+  mimeType: string;
+  data: string; // Base64 image data
+  createdAt: number;
+}
+
+export interface CharacterAppearance {
+  name: string;
+  appearance: string;
+}
+
+export interface BookChapter {
+  id: string;
+  title: string;
+  beats: string[]; // What must happen in the chapter, in order
+  text?: string; // Markdown prose, once written
+  summary?: string; // Set once the chapter is finished; later chapters are written from these
+  truncated?: boolean; // Writing was stopped part way; the chapter will be written again
+  usage?: UsageRecord;
+}
+
+export interface BookAct {
+  id: string;
+  title: string;
+  chapters: BookChapter[];
+}
+
+// A long-form story planned as an outline and written one chapter at a time.
+export interface Book {
+  id: string;
+  title: string;
+  premise: string; // What the reader asked for
+  acts: BookAct[];
+  overheadUsage?: UsageRecord[]; // Model calls for the book besides its current chapters: the outline and replaced drafts
+  createdAt: number;
+  updatedAt: number;
+}
+
+// The player's situation in an adventure. The model reports it with every turn
+// and gets it back with the next action.
+export interface AdventureState {
+  location?: string;
+  health?: number; // 0 to 100
+  inventory?: string[];
+}
+
+export interface AdventureTurn {
+  choices: string[]; // Two to four actions the player can pick
+  state?: AdventureState;
+}
+
+// A passage kept on the scratchpad shared by every tab.
+export interface PinnedPassage {
+  id: string;
+  title: string;
+  text: string;
+  prompt?: string; // What was asked for, when known; opens the chat if the passage is carried on there
+  source: GenerationTab;
+  createdAt: number;
+}
+
+// How one candidate of a Mood Weaver run differs from the mood blend on screen.
+export interface CandidatePlan {
+  moodId?: string; // Written in this one mood instead of the blend
+  temperature?: number; // Overrides the mood's and the settings' temperature
+}
+
+// One tale written in a Mood Weaver run.
+export interface TaleCandidate {
+  id: string;
+  mood: string; // The blend or mood it was written in, as a label
+  temperature?: number; // Only when the plan set one
+  text: string;
+  truncated?: boolean;
+  error?: string; // Why this candidate failed; the others in the run still count
+  usage?: UsageRecord;
+  illustrations?: Illustration[];
+  favourite?: boolean;
+}
+
+// One click of "Generate": the same prompt written as one or more candidates.
+export interface MoodRun {
+  id: string;
+  title: string;
+  prompt: string; // As sent, including any passage being rewritten
+  attachments?: Attachment[];
+  candidates: TaleCandidate[];
+  characterSheet?: CharacterAppearance[]; // Shared by the run's pictures
+  overheadUsage?: UsageRecord[]; // Model calls for the run besides its tales, such as pictures and narration
+  createdAt: number;
+}
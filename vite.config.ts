@@ -8,11 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // The API server (npm run server) holds the Gemini key; the browser never sees it.
+          '/api': `http://localhost:${env.API_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.STORY_PROVIDER': JSON.stringify(env.STORY_PROVIDER ?? '')
       },
       resolve: {
         alias: {
@@ -0,0 +1,16 @@
+import { defineConfig, mergeConfig } from 'vitest/config';
+import viteConfig from './vite.config';
+
+// The app's own Vite setup, plus a browser-like DOM and an in-process API server
+// that replays tests/cassettes/stories.json instead of calling Gemini.
+export default defineConfig((env) =>
+  mergeConfig(viteConfig(env), {
+    test: {
+      environment: 'jsdom',
+      include: ['tests/**/*.test.{ts,tsx}'],
+      globalSetup: ['tests/apiServer.ts'],
+      setupFiles: ['tests/setup.ts'],
+      testTimeout: 20_000,
+    },
+  }),
+);